@@ -106,6 +106,11 @@ export function DatasetDetailContent({ datasetId }: { datasetId: string }) {
           </dl>
         </div>
         <div className="flex gap-2 shrink-0">
+          <Link href={`/upload?dataSetId=${datasetId}`}>
+            <Button variant="outline">
+              <Upload className="mr-2 h-4 w-4" /> Add files
+            </Button>
+          </Link>
           <Button
             variant="outline"
             size="icon"
@@ -159,7 +164,7 @@ export function DatasetDetailContent({ datasetId }: { datasetId: string }) {
           title="No Pieces"
           description="This dataset has no pieces. Upload files to add pieces."
           action={
-            <Link href="/upload">
+            <Link href={`/upload?dataSetId=${datasetId}`}>
               <Button>
                 <Upload className="mr-2 h-4 w-4" /> Upload Files
               </Button>
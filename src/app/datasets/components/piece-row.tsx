@@ -47,6 +47,7 @@ export function PieceRow({ piece, dataSet }: PieceRowProps) {
           pieceCid={pieceCid}
           accessParams={accessParams}
           dataSetId={dataSet.dataSetId}
+          datasetMetadata={dataSet.metadata}
         />
       </TableCell>
     </TableRow>
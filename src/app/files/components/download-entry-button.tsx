@@ -0,0 +1,25 @@
+"use client";
+
+import type { BundleEntry } from "@/lib";
+import { Download } from "lucide-react";
+import { useDownloadBundleEntry } from "@/hooks/use-download";
+import { ActionButton } from "@/components/ui/action-button";
+
+interface DownloadEntryButtonProps {
+  bundleUrl: string;
+  bundleCid: string;
+  entry: BundleEntry;
+}
+
+/** Downloads one file packed in a bundle piece. */
+export function DownloadEntryButton({ bundleUrl, bundleCid, entry }: DownloadEntryButtonProps) {
+  const { downloadMutation } = useDownloadBundleEntry(bundleUrl, bundleCid, entry);
+  return (
+    <ActionButton
+      icon={Download}
+      tooltip="Download"
+      onClick={() => downloadMutation.mutate()}
+      disabled={downloadMutation.isPending}
+    />
+  );
+}
@@ -1,10 +1,13 @@
 "use client";
 
+import type { ReactNode } from "react";
 import Link from "next/link";
+import { MANIFEST_METADATA_KEY, readFileMetadata, type BundleEntry } from "@/lib";
 import { ChevronDown, Database } from "lucide-react";
 import type { UniquePiece } from "@/lib/datasets";
-import { pluralize } from "@/lib/format";
+import { formatFileSize, pluralize } from "@/lib/format";
 import { formatSizeMessage, isIpfsIndexed } from "@/lib/piece";
+import { IpniStatusBadge } from "@/components/storage";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { CopyButton } from "@/components/ui/copy-button";
@@ -20,11 +23,19 @@ import { TableCell, TableRow } from "@/components/ui/table";
 
 interface FileRowProps {
   uniquePiece: UniquePiece;
+  /** A file packed in the bundle `uniquePiece` — shown in place of the piece */
+  entry?: BundleEntry;
+  actions?: ReactNode;
 }
 
-export function FileRow({ uniquePiece }: FileRowProps) {
+export function FileRow({ uniquePiece, entry, actions }: FileRowProps) {
   const { pieceCid, piece, datasets } = uniquePiece;
 
+  const fileMetadata = readFileMetadata(piece.metadata);
+  const filename = entry?.name ?? fileMetadata.name;
+  const relativePath = entry ? entry.path : fileMetadata.relativePath;
+  const { originalSize } = fileMetadata;
+  const isChunked = !!piece.metadata?.[MANIFEST_METADATA_KEY];
   const hasCDN = datasets.some((d) => d.dataset.cdn);
   const ipfsRootCid = piece.metadata?.ipfsRootCid;
   const withIPFSIndexing = !!ipfsRootCid && datasets.some((d) => isIpfsIndexed(d.dataset.metadata));
@@ -35,13 +46,36 @@ export function FileRow({ uniquePiece }: FileRowProps) {
         <div className="flex items-center gap-2">
           <div className="min-w-0">
             <CopyButton value={pieceCid} size="sm" />
+            {filename && (
+              <p className="text-xs text-muted-foreground mt-1 truncate" title={relativePath}>
+                {relativePath ?? filename}
+              </p>
+            )}
           </div>
+          {actions}
         </div>
       </TableCell>
-      <TableCell className="table-cell">{formatSizeMessage(piece)}</TableCell>
+      <TableCell className="table-cell">
+        {/* A manifest piece is tiny — the file's size is the interesting one */}
+        {entry
+          ? formatFileSize(entry.length)
+          : isChunked && originalSize !== undefined
+            ? formatFileSize(originalSize)
+            : formatSizeMessage(piece)}
+      </TableCell>
       <TableCell className="table-cell text-center">
         <div className="flex items-center justify-start gap-1 flex-wrap">
           <Badge variant="secondary">{datasets.length}</Badge>
+          {isChunked && (
+            <Badge variant="outline" className="text-xs">
+              Chunked
+            </Badge>
+          )}
+          {entry && (
+            <Badge variant="outline" className="text-xs">
+              Bundled
+            </Badge>
+          )}
           {hasCDN && (
             <Badge variant="outline" className="text-xs">
               CDN
@@ -52,6 +86,7 @@ export function FileRow({ uniquePiece }: FileRowProps) {
               IPFS
             </Badge>
           )}
+          {ipfsRootCid && <IpniStatusBadge rootCid={ipfsRootCid} />}
         </div>
       </TableCell>
       <TableCell className="table-cell">
@@ -1,18 +1,31 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import Link from "next/link";
+import { buildFileTree, findFolder, listTreeFiles } from "@/lib";
 import { useDataSets } from "@filoz/synapse-react";
 import { FileIcon, Upload } from "lucide-react";
 import { useConnection } from "wagmi";
-import { computeUniquePieces, transformDatasets } from "@/lib/datasets";
+import { computeUniquePieces, getPieceTags, transformDatasets } from "@/lib/datasets";
+import { useBundleIndexes } from "@/hooks/use-bundle-index";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { EmptyState } from "@/components/ui/empty-state";
 import { PageHeader } from "@/components/ui/page-header";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Table, TableBody, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DownloadEntryButton } from "./download-entry-button";
 import { FileRow } from "./file-row";
+import { FilesFilters } from "./files-filters";
+import { FolderBreadcrumbs } from "./folder-breadcrumbs";
+import { FolderRow } from "./folder-row";
 
 export function FilesContent() {
   const { address, chainId } = useConnection();
@@ -23,6 +36,41 @@ export function FilesContent() {
   }, [raw, chainId]);
   const pieces = useMemo(() => computeUniquePieces(datasets), [datasets]);
 
+  // --- Tag filters ---
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const tagged = useMemo(
+    () => pieces.map((piece) => ({ piece, tags: getPieceTags(piece) })),
+    [pieces],
+  );
+  const tagOptions = useMemo(() => {
+    const options = new Map<string, Set<string>>();
+    for (const [key, value] of tagged.flatMap((t) => t.tags)) {
+      options.set(key, (options.get(key) ?? new Set()).add(value));
+    }
+    return new Map(Array.from(options, ([key, values]) => [key, Array.from(values).sort()]));
+  }, [tagged]);
+  const visiblePieces = useMemo(
+    () =>
+      tagged
+        .filter(({ tags }) =>
+          Object.entries(filters).every(([key, value]) =>
+            tags.some(([k, v]) => k === key && v === value),
+          ),
+        )
+        .map((t) => t.piece),
+    [tagged, filters],
+  );
+
+  // --- Folders, from the relative paths of uploaded folders ---
+  const { data: bundleIndexes, isLoading: isLoadingBundles } = useBundleIndexes(visiblePieces);
+  const tree = useMemo(
+    () => buildFileTree(listTreeFiles(visiblePieces, bundleIndexes)),
+    [visiblePieces, bundleIndexes],
+  );
+  const [folderPath, setFolderPath] = useState<string[]>([]);
+  // Filters can empty the open folder — its path is kept for when they are cleared
+  const folder = findFolder(tree, folderPath) ?? tree;
+
   if (isLoading) {
     return <FilesSkeleton />;
   }
@@ -43,6 +91,14 @@ export function FilesContent() {
         }
       />
 
+      {tagOptions.size > 0 && (
+        <FilesFilters options={tagOptions} filters={filters} onFiltersChange={setFilters} />
+      )}
+
+      {(tree.folders.length > 0 || folder !== tree) && (
+        <FolderBreadcrumbs path={folder.path} onNavigate={setFolderPath} />
+      )}
+
       {pieces.length > 0 ? (
         <Card>
           <CardContent>
@@ -56,9 +112,46 @@ export function FilesContent() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {pieces.map((uniquePiece) => (
-                  <FileRow key={uniquePiece.pieceCid} uniquePiece={uniquePiece} />
+                {folder.folders.map((child) => (
+                  <FolderRow
+                    key={child.name}
+                    folder={child}
+                    onOpen={() => setFolderPath(child.path)}
+                  />
                 ))}
+                {folder.files.map(({ uniquePiece, entry }) =>
+                  entry ? (
+                    <FileRow
+                      key={`${uniquePiece.pieceCid}-${entry.offset}`}
+                      uniquePiece={uniquePiece}
+                      entry={entry}
+                      actions={
+                        <DownloadEntryButton
+                          bundleUrl={uniquePiece.piece.url}
+                          bundleCid={uniquePiece.pieceCid}
+                          entry={entry}
+                        />
+                      }
+                    />
+                  ) : (
+                    <FileRow key={uniquePiece.pieceCid} uniquePiece={uniquePiece} />
+                  ),
+                )}
+                {/* Bundles are listed as single pieces until their index is read */}
+                {isLoadingBundles && (
+                  <TableRow>
+                    <TableCell colSpan={4}>
+                      <Skeleton className="h-8 w-full" />
+                    </TableCell>
+                  </TableRow>
+                )}
+                {visiblePieces.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                      No files match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
               </TableBody>
             </Table>
           </CardContent>
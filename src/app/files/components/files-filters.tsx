@@ -0,0 +1,55 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+/** Radix Select items cannot have an empty value */
+const ANY = "any";
+
+interface FilesFiltersProps {
+  /** Tag key → values seen across all files */
+  options: Map<string, string[]>;
+  filters: Record<string, string>;
+  onFiltersChange: (filters: Record<string, string>) => void;
+}
+
+/** One select per tag key; files must match every chosen value. */
+export function FilesFilters({ options, filters, onFiltersChange }: FilesFiltersProps) {
+  const setFilter = (key: string, value: string) => {
+    const { [key]: _, ...rest } = filters;
+    onFiltersChange(value === ANY ? rest : { ...rest, [key]: value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      {Array.from(options, ([key, values]) => (
+        <Select key={key} value={filters[key] ?? ANY} onValueChange={(v) => setFilter(key, v)}>
+          <SelectTrigger size="sm">
+            <span className="text-muted-foreground">{key}:</span>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            {values.map((value) => (
+              <SelectItem key={value} value={value}>
+                {value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+      {Object.keys(filters).length > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => onFiltersChange({})}>
+          <X className="mr-1 h-3.5 w-3.5" /> Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
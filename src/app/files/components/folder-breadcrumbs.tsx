@@ -0,0 +1,40 @@
+"use client";
+
+import { Fragment } from "react";
+import { ChevronRight, HardDrive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface FolderBreadcrumbsProps {
+  path: string[];
+  onNavigate: (path: string[]) => void;
+}
+
+export function FolderBreadcrumbs({ path, onNavigate }: FolderBreadcrumbsProps) {
+  return (
+    <nav aria-label="Folder" className="flex flex-wrap items-center gap-1 mb-4 text-sm">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2"
+        onClick={() => onNavigate([])}
+        disabled={path.length === 0}
+      >
+        <HardDrive className="mr-1 h-3.5 w-3.5" /> All files
+      </Button>
+      {path.map((name, i) => (
+        <Fragment key={i}>
+          <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={() => onNavigate(path.slice(0, i + 1))}
+            disabled={i === path.length - 1}
+          >
+            {name}
+          </Button>
+        </Fragment>
+      ))}
+    </nav>
+  );
+}
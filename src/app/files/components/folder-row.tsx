@@ -0,0 +1,61 @@
+"use client";
+
+import { useMemo } from "react";
+import { folderFiles, type TreeFolder } from "@/lib";
+import { Download, Folder } from "lucide-react";
+import { formatFileSize, pluralize } from "@/lib/format";
+import { useDownloadFolder } from "@/hooks/use-download";
+import { ActionButton } from "@/components/ui/action-button";
+import { Badge } from "@/components/ui/badge";
+import { TableCell, TableRow } from "@/components/ui/table";
+
+interface FolderRowProps {
+  folder: TreeFolder;
+  onOpen: () => void;
+}
+
+export function FolderRow({ folder, onOpen }: FolderRowProps) {
+  const { downloadMutation } = useDownloadFolder(folder);
+  // Folders group files across datasets
+  const datasetCount = useMemo(
+    () =>
+      new Set(
+        folderFiles(folder).flatMap((f) =>
+          f.uniquePiece.datasets.map((d) => d.dataset.dataSetId.toString()),
+        ),
+      ).size,
+    [folder],
+  );
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onOpen}
+            className="flex min-w-0 items-center gap-2 text-sm font-medium hover:underline"
+          >
+            <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="truncate">{folder.name}</span>
+          </button>
+          <ActionButton
+            icon={Download}
+            tooltip="Download folder"
+            onClick={() => downloadMutation.mutate()}
+            disabled={downloadMutation.isPending}
+          />
+        </div>
+      </TableCell>
+      <TableCell className="table-cell">{formatFileSize(folder.size)}</TableCell>
+      <TableCell className="table-cell">
+        <Badge variant="outline">
+          {folder.fileCount} {pluralize(folder.fileCount, "file")}
+        </Badge>
+      </TableCell>
+      <TableCell className="table-cell text-sm text-muted-foreground">
+        {datasetCount} {pluralize(datasetCount, "dataset")}
+      </TableCell>
+    </TableRow>
+  );
+}
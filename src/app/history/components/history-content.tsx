@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { History, Trash2 } from "lucide-react";
+import { useConnection } from "wagmi";
+import { useUploadHistory } from "@/providers/upload-history";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ConfirmDeleteDialog } from "@/components/ui/confirm-delete-dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { PageHeader } from "@/components/ui/page-header";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ReceiptCard } from "./receipt-card";
+
+export function HistoryContent() {
+  const { isConnected } = useConnection();
+  const { receipts, remove, clear } = useUploadHistory();
+  const [clearDialogOpen, setClearDialogOpen] = useState(false);
+
+  return (
+    <div className="px-4 py-8">
+      <PageHeader
+        title="History"
+        description="Finished and failed uploads of this wallet on this network"
+        actions={
+          receipts.length > 0 && (
+            <ConfirmDeleteDialog
+              open={clearDialogOpen}
+              onOpenChange={setClearDialogOpen}
+              onConfirm={() => {
+                clear();
+                setClearDialogOpen(false);
+              }}
+              isPending={false}
+              itemName="History"
+              description="Every receipt of this wallet on this network is removed from this browser. Stored data is not affected."
+              trigger={
+                <Button variant="outline">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Clear history
+                </Button>
+              }
+            />
+          )
+        }
+      />
+
+      {receipts.length > 0 ? (
+        <div className="space-y-4">
+          {receipts.map((receipt) => (
+            <ReceiptCard key={receipt.id} receipt={receipt} onRemove={() => remove(receipt)} />
+          ))}
+        </div>
+      ) : (
+        <EmptyState
+          icon={History}
+          title="No uploads yet"
+          description={
+            isConnected
+              ? "Uploads are listed here once they finish or fail, with receipts to export."
+              : "Connect your wallet to see its upload history."
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+export function HistorySkeleton() {
+  return (
+    <div className="px-4 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <Skeleton className="h-9 w-32" />
+          <Skeleton className="h-5 w-72 mt-2" />
+        </div>
+      </div>
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <Card key={i}>
+            <CardContent className="pt-6">
+              <Skeleton className="h-24 w-full" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
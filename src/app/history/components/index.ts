@@ -0,0 +1,2 @@
+export { HistoryContent, HistorySkeleton } from "./history-content";
+export { ReceiptCard } from "./receipt-card";
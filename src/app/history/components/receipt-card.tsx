@@ -0,0 +1,168 @@
+"use client";
+
+import {
+  receiptToCsv,
+  receiptToJson,
+  saveFile,
+  type UploadReceipt,
+  type UploadReceiptMode,
+  type UploadReceiptStatus,
+} from "@/lib";
+import {
+  AlertTriangle,
+  Ban,
+  CheckCircle2,
+  Download,
+  ExternalLink,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { formatFileSize, pluralize } from "@/lib/format";
+import { getPdpScannerUrl } from "@/lib/piece";
+import { ExplorerLink } from "@/components/layout/explorer-link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CopyButton } from "@/components/ui/copy-button";
+
+const MODE_LABELS: Record<UploadReceiptMode, string> = {
+  standard: "Standard",
+  cdn: "Beam",
+  pin: "Filecoin Pin",
+  encrypted: "Encrypted",
+};
+
+const STATUS_TITLES: Record<UploadReceiptStatus, string> = {
+  complete: "Upload complete",
+  partial: "Upload partially complete",
+  failed: "Upload failed",
+  cancelled: "Upload cancelled",
+};
+
+interface ReceiptCardProps {
+  receipt: UploadReceipt;
+  onRemove: () => void;
+}
+
+function downloadReceipt(receipt: UploadReceipt, format: "json" | "csv") {
+  const name = `upload-receipt-${new Date(receipt.createdAt).toISOString().slice(0, 10)}-${receipt.id.slice(0, 8)}.${format}`;
+  saveFile(
+    format === "json"
+      ? new File([receiptToJson(receipt)], name, { type: "application/json" })
+      : new File([receiptToCsv(receipt)], name, { type: "text/csv" }),
+  );
+}
+
+export function ReceiptCard({ receipt, onRemove }: ReceiptCardProps) {
+  const { status, files, copies, pieces, failures } = receipt;
+
+  return (
+    <Card className="gap-0">
+      <CardHeader className="pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div className="flex items-start gap-3 min-w-0">
+            {status === "complete" ? (
+              <CheckCircle2 className="h-5 w-5 shrink-0 text-green-500 mt-0.5" />
+            ) : status === "partial" ? (
+              <AlertTriangle className="h-5 w-5 shrink-0 text-amber-500 mt-0.5" />
+            ) : status === "cancelled" ? (
+              <Ban className="h-5 w-5 shrink-0 text-muted-foreground mt-0.5" />
+            ) : (
+              <XCircle className="h-5 w-5 shrink-0 text-destructive mt-0.5" />
+            )}
+            <div className="space-y-1 min-w-0">
+              <CardTitle className="text-base">{STATUS_TITLES[status]}</CardTitle>
+              <CardDescription>
+                {new Date(receipt.createdAt).toLocaleString()} · {files.length}{" "}
+                {pluralize(files.length, "file")}
+                {files.length > 0 && (
+                  <span className="block truncate" title={files.map((f) => f.name).join(", ")}>
+                    {files.map((f) => f.name).join(", ")}
+                  </span>
+                )}
+              </CardDescription>
+            </div>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button variant="outline" size="sm" onClick={() => downloadReceipt(receipt, "json")}>
+              <Download className="h-3.5 w-3.5 mr-1" />
+              JSON
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => downloadReceipt(receipt, "csv")}>
+              <Download className="h-3.5 w-3.5 mr-1" />
+              CSV
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onRemove} aria-label="Remove receipt">
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline">{MODE_LABELS[receipt.mode]}</Badge>
+          <Badge variant="secondary">{formatFileSize(receipt.totalSize)} payload</Badge>
+          {receipt.storedSize > 0 && (
+            <Badge variant="secondary">{formatFileSize(receipt.storedSize)} stored</Badge>
+          )}
+          <Badge variant="secondary">
+            {copies} {pluralize(copies, "copy", "copies")}
+          </Badge>
+          {receipt.monthlyCost && (
+            <Badge variant="secondary">~{receipt.monthlyCost} USDFC / month</Badge>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {receipt.error && <p className="text-sm text-destructive">{receipt.error}</p>}
+
+        {failures.map((f, i) => (
+          <p key={`${f.providerId}-${i}`} className="text-sm text-amber-600">
+            {f.providerName} (#{f.providerId}){" "}
+            {f.kind === "retrieval" ? "did not serve the pieces back" : `failed to ${f.kind}`}:{" "}
+            {f.error}
+          </p>
+        ))}
+
+        {receipt.ipfsRootCid && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground shrink-0">IPFS Root CID</span>
+            <CopyButton value={receipt.ipfsRootCid} displayValue={receipt.ipfsRootCid} size="sm" />
+          </div>
+        )}
+
+        {pieces.map((piece) => (
+          <div key={piece.pieceCid} className="rounded-lg border bg-muted/40 p-2 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <CopyButton
+                value={piece.pieceCid}
+                displayValue={`${piece.pieceCid.slice(0, 15)}...${piece.pieceCid.slice(-15)}`}
+                size="sm"
+              />
+              <span className="text-xs text-muted-foreground shrink-0">
+                {formatFileSize(piece.size)}
+              </span>
+            </div>
+            {piece.providers.map((provider) => (
+              <div key={provider.providerId} className="space-y-1 px-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">
+                    {provider.providerName} (#{provider.providerId})
+                  </span>
+                  <a
+                    className="text-xs hover:underline whitespace-nowrap"
+                    href={getPdpScannerUrl(provider.dataSetId, receipt.chainId)}
+                    rel="noopener noreferrer"
+                    target="_blank"
+                  >
+                    Dataset #{provider.dataSetId} <ExternalLink className="h-3 w-3 inline-block" />
+                  </a>
+                </div>
+                <ExplorerLink hash={provider.txHash} />
+              </div>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,14 @@
+"use client";
+
+import { useIsMounted } from "@/hooks";
+import { HistoryContent, HistorySkeleton } from "./components";
+
+export default function HistoryPage() {
+  const isMounted = useIsMounted();
+
+  if (!isMounted) {
+    return <HistorySkeleton />;
+  }
+
+  return <HistoryContent />;
+}
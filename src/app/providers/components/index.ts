@@ -0,0 +1,2 @@
+export { ProviderRow } from "./provider-row";
+export { ProvidersContent, ProvidersSkeleton } from "./providers-content";
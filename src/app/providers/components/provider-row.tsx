@@ -0,0 +1,75 @@
+"use client";
+
+import type { PDPProvider } from "@filoz/synapse-sdk";
+import { DataSet } from "@/lib/datasets";
+import { DECIMAL_PLACES, formatBalance, pluralize } from "@/lib/format";
+import { formatSizeMessage } from "@/lib/piece";
+import { Badge } from "@/components/ui/badge";
+import { CopyButton } from "@/components/ui/copy-button";
+import { TableCell, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+/** Listed prices are per TiB per day; the warm storage service bills in 30-day months. */
+const DAYS_PER_MONTH = 30n;
+
+interface ProviderRowProps {
+  provider: PDPProvider;
+  /** Our datasets held by this provider */
+  datasets: DataSet[];
+}
+
+export function ProviderRow({ provider, datasets }: ProviderRowProps) {
+  const { pdp } = provider;
+  const storedBytes = datasets.reduce((acc, d) => acc + d.totalSize.sizeBytes, 0n);
+  const cdnCount = datasets.filter((d) => d.cdn).length;
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="min-w-0 max-w-[260px]">
+          <p className="font-medium truncate">{provider.name || "Unnamed provider"}</p>
+          <p className="text-xs text-muted-foreground">#{provider.id.toString()}</p>
+          {provider.description && (
+            <p className="text-xs text-muted-foreground truncate">{provider.description}</p>
+          )}
+        </div>
+      </TableCell>
+      <TableCell>
+        <CopyButton value={pdp.serviceURL} size="sm" />
+      </TableCell>
+      <TableCell className="text-sm">{pdp.location || "—"}</TableCell>
+      <TableCell>
+        <div className="flex flex-wrap gap-1">
+          {pdp.ipniIpfs && <Badge variant="secondary">IPFS</Badge>}
+          {pdp.ipniPiece && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="outline">IPNI</Badge>
+              </TooltipTrigger>
+              <TooltipContent>Advertises pieces to IPNI</TooltipContent>
+            </Tooltip>
+          )}
+          {!pdp.ipniIpfs && !pdp.ipniPiece && <span className="text-muted-foreground">—</span>}
+        </div>
+      </TableCell>
+      <TableCell className="text-sm whitespace-nowrap">
+        {formatBalance(pdp.storagePricePerTibPerDay * DAYS_PER_MONTH, 18, DECIMAL_PLACES.USDFC)}{" "}
+        USDFC
+        <span className="text-muted-foreground"> / TiB / month</span>
+      </TableCell>
+      <TableCell className="text-sm">
+        {datasets.length > 0 ? (
+          <>
+            {datasets.length} {pluralize(datasets.length, "dataset")}
+            <p className="text-xs text-muted-foreground">
+              {formatSizeMessage({ sizeBytes: storedBytes })}
+              {cdnCount > 0 && ` · ${cdnCount} with CDN`}
+            </p>
+          </>
+        ) : (
+          <span className="text-muted-foreground">None</span>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useMemo } from "react";
+import { useDataSets } from "@filoz/synapse-react";
+import { Server } from "lucide-react";
+import { useConnection } from "wagmi";
+import { transformDatasets } from "@/lib/datasets";
+import { useApprovedProviders } from "@/hooks/use-approved-providers";
+import { Card, CardContent } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { PageHeader } from "@/components/ui/page-header";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ProviderRow } from "./provider-row";
+
+export function ProvidersContent() {
+  const { address, chainId } = useConnection();
+  const providers = useApprovedProviders();
+  const { data: raw, isLoading, refetch, isRefetching } = useDataSets({ address });
+  const datasets = useMemo(() => {
+    if (!chainId) return [];
+    return transformDatasets(raw);
+  }, [raw, chainId]);
+
+  if (providers.isLoading || isLoading) {
+    return <ProvidersSkeleton />;
+  }
+
+  const list = providers.data ?? [];
+
+  return (
+    <div className="px-4 py-8">
+      <PageHeader
+        title="Providers"
+        description="Storage providers approved for Filecoin warm storage"
+        onRefresh={() => {
+          providers.refetch();
+          refetch();
+        }}
+        isRefreshing={providers.isRefetching || isRefetching}
+      />
+
+      {list.length > 0 ? (
+        <Card>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Service URL</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Capabilities</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Your datasets</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {list.map((provider) => (
+                  <ProviderRow
+                    key={provider.id.toString()}
+                    provider={provider}
+                    datasets={datasets.filter((d) => d.provider.id === provider.id)}
+                  />
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : (
+        <EmptyState
+          icon={Server}
+          title={providers.isError ? "Could not load providers" : "No Providers"}
+          description={
+            providers.isError
+              ? "The provider registry could not be read. Try refreshing."
+              : "No storage providers are approved on this network."
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+export function ProvidersSkeleton() {
+  return (
+    <div className="px-4 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <Skeleton className="h-9 w-32" />
+          <Skeleton className="h-5 w-72 mt-2" />
+        </div>
+        <Skeleton className="h-10 w-10" />
+      </div>
+      <Card>
+        <CardContent className="pt-6">
+          <div className="space-y-4">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
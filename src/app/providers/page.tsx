@@ -0,0 +1,14 @@
+"use client";
+
+import { useIsMounted } from "@/hooks";
+import { ProvidersContent, ProvidersSkeleton } from "./components";
+
+export default function ProvidersPage() {
+  const isMounted = useIsMounted();
+
+  if (!isMounted) {
+    return <ProvidersSkeleton />;
+  }
+
+  return <ProvidersContent />;
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { BUNDLE_FILE_THRESHOLD } from "@/lib";
+import { formatFileSize, pluralize } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import { Label } from "@/components/ui/label";
+
+interface BundleToggleProps {
+  bundle: boolean;
+  onBundleChange: (bundle: boolean) => void;
+  /** Selected files below the bundling threshold */
+  smallFileCount: number;
+  disabled?: boolean;
+}
+
+export function BundleToggle({
+  bundle,
+  onBundleChange,
+  smallFileCount,
+  disabled,
+}: BundleToggleProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <Label className="text-sm font-medium shrink-0">Bundle small files</Label>
+        <div className="flex gap-1">
+          {[false, true].map((value) => (
+            <button
+              key={String(value)}
+              type="button"
+              onClick={() => onBundleChange(value)}
+              disabled={disabled}
+              className={cn(
+                "h-7 px-2.5 rounded-md text-sm font-medium transition-colors border",
+                bundle === value
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-background text-muted-foreground border-border hover:border-primary hover:text-foreground",
+              )}
+            >
+              {value ? "On" : "Off"}
+            </button>
+          ))}
+        </div>
+      </div>
+      {bundle && (
+        <p className="text-xs text-muted-foreground italic">
+          Files under {formatFileSize(BUNDLE_FILE_THRESHOLD)} are packed into shared pieces with an
+          index, and still listed and downloaded one by one.
+          {smallFileCount > 1 &&
+            ` ${smallFileCount} ${pluralize(smallFileCount, "file")} will be bundled.`}
+        </p>
+      )}
+    </div>
+  );
+}
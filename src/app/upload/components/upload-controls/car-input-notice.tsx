@@ -0,0 +1,69 @@
+"use client";
+
+import { isCarFile, readCarRoot } from "@/app/upload/lib";
+import type { UploadMode } from "@/app/upload/types";
+import { getErrorMessage } from "@/lib";
+import { useQuery } from "@tanstack/react-query";
+import { FileBox } from "lucide-react";
+import { queryKeys } from "@/lib/query-keys";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+interface CarInputNoticeProps {
+  files: File[];
+  mode: UploadMode;
+}
+
+/** Shown when a `.car` is selected: pin mode uploads it as-is under its header root. */
+export function CarInputNotice({ files, mode }: CarInputNoticeProps) {
+  const cars = files.filter(isCarFile);
+  const car = mode === "pin" && files.length === 1 ? cars[0] : undefined;
+
+  const root = useQuery({
+    enabled: !!car,
+    queryKey: queryKeys.carRoot(car?.name ?? "", car?.size ?? 0, car?.lastModified ?? 0),
+    queryFn: () => readCarRoot(car!),
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  if (cars.length === 0) return null;
+
+  if (mode !== "pin") {
+    return (
+      <Alert>
+        <FileBox />
+        <AlertTitle>CAR file selected</AlertTitle>
+        <AlertDescription>
+          Switch to Filecoin Pin to pin it as-is under its root CID. In this mode it is stored as an
+          ordinary file.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!car) {
+    return (
+      <Alert variant="destructive">
+        <FileBox />
+        <AlertTitle>CAR files must be pinned on their own</AlertTitle>
+        <AlertDescription>
+          Remove the other files to pin the CAR as-is, or remove the CAR to build a new one.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert variant={root.isError ? "destructive" : "default"}>
+      <FileBox />
+      <AlertTitle>Pre-built CAR</AlertTitle>
+      <AlertDescription className="break-all">
+        {root.isError
+          ? getErrorMessage(root.error)
+          : root.data
+            ? `Uploaded as-is with root ${root.data}. Every block is verified before upload.`
+            : "Reading CAR header..."}
+      </AlertDescription>
+    </Alert>
+  );
+}
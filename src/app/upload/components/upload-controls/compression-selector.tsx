@@ -0,0 +1,54 @@
+"use client";
+
+import { CONTENT_ENCODINGS, type ContentEncoding } from "@/lib";
+import { cn } from "@/lib/utils";
+import { Label } from "@/components/ui/label";
+
+const OPTIONS: { value: ContentEncoding | null; label: string }[] = [
+  { value: null, label: "Off" },
+  ...CONTENT_ENCODINGS.map((value) => ({ value, label: value })),
+];
+
+interface CompressionSelectorProps {
+  compression: ContentEncoding | null;
+  onCompressionChange: (compression: ContentEncoding | null) => void;
+  disabled?: boolean;
+}
+
+export function CompressionSelector({
+  compression,
+  onCompressionChange,
+  disabled,
+}: CompressionSelectorProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <Label className="text-sm font-medium shrink-0">Compression</Label>
+        <div className="flex gap-1">
+          {OPTIONS.map(({ value, label }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => onCompressionChange(value)}
+              disabled={disabled}
+              className={cn(
+                "h-7 px-2.5 rounded-md text-sm font-medium transition-colors border",
+                compression === value
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-background text-muted-foreground border-border hover:border-primary hover:text-foreground",
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {compression && (
+        <p className="text-xs text-muted-foreground italic">
+          Files are compressed in your browser before upload and decompressed on download. Files
+          that do not shrink are stored as-is.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { datasetUploadModes } from "@/app/upload/lib";
+import type { UploadMode } from "@/app/upload/types";
+import type { DataSet } from "@/lib/datasets";
+import { pluralize } from "@/lib/format";
+import { formatSizeMessage } from "@/lib/piece";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+/** Radix Select items cannot have an empty value */
+const AUTO = "auto";
+
+const MODE_LABELS: Record<UploadMode, string> = {
+  standard: "Standard",
+  cdn: "Beam",
+  pin: "Filecoin Pin",
+  encrypted: "Encrypted",
+};
+
+interface DatasetSelectorProps {
+  datasets: DataSet[];
+  mode: UploadMode;
+  dataSetId: string | null;
+  onDataSetIdChange: (dataSetId: string | null) => void;
+  onModeChange: (mode: UploadMode) => void;
+  disabled?: boolean;
+}
+
+/** Target of the primary copy; by default the SDK reuses a dataset with matching metadata. */
+export function DatasetSelector({
+  datasets,
+  mode,
+  dataSetId,
+  onDataSetIdChange,
+  onModeChange,
+  disabled,
+}: DatasetSelectorProps) {
+  const target = datasets.find((d) => d.dataSetId.toString() === dataSetId);
+  const targetModes = target ? datasetUploadModes(target) : [];
+  const options = datasets.filter((d) => d === target || datasetUploadModes(d).includes(mode));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <Label className="text-sm font-medium shrink-0">Dataset</Label>
+        <Select
+          value={dataSetId ?? AUTO}
+          onValueChange={(value) => onDataSetIdChange(value === AUTO ? null : value)}
+          disabled={disabled}
+        >
+          <SelectTrigger size="sm" className="flex-1 min-w-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTO}>Automatic</SelectItem>
+            {/* Until the datasets load, keep a preselected ID displayable */}
+            {dataSetId && !target && (
+              <SelectItem value={dataSetId}>Dataset #{dataSetId}</SelectItem>
+            )}
+            {options.map((dataset) => {
+              const id = dataset.dataSetId.toString();
+              return (
+                <SelectItem key={id} value={id}>
+                  Dataset #{id}
+                  <span className="text-muted-foreground">
+                    · {dataset.provider.name} · {dataset.pieces.length}{" "}
+                    {pluralize(dataset.pieces.length, "piece")} ·{" "}
+                    {formatSizeMessage(dataset.totalSize)}
+                  </span>
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+      </div>
+      {target && !targetModes.includes(mode) ? (
+        <div className="flex items-center justify-between gap-3 text-xs text-destructive">
+          <span>
+            Dataset #{dataSetId} only takes {targetModes.map((m) => MODE_LABELS[m]).join(" or ")}{" "}
+            uploads.
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            onClick={() => onModeChange(targetModes[0])}
+            disabled={disabled}
+          >
+            Switch to {MODE_LABELS[targetModes[0]]}
+          </Button>
+        </div>
+      ) : (
+        target && (
+          <p className="text-xs text-muted-foreground italic">
+            The primary copy is added to this dataset on {target.provider.name}.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
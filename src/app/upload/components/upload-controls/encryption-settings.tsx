@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { MIN_PASSPHRASE_LENGTH, type EncryptionKdf, type EncryptionKeyInput } from "@/lib";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const KEY_SOURCES: { value: EncryptionKdf; label: string }[] = [
+  { value: "wallet", label: "Wallet signature" },
+  { value: "pbkdf2", label: "Passphrase" },
+];
+
+interface EncryptionSettingsProps {
+  /** Called with the key choice, or null while the passphrase is incomplete */
+  onKeyChange: (key: EncryptionKeyInput | null) => void;
+  disabled?: boolean;
+}
+
+export function EncryptionSettings({ onKeyChange, disabled }: EncryptionSettingsProps) {
+  const [kdf, setKdf] = useState<EncryptionKdf>("wallet");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const update = (next: { kdf?: EncryptionKdf; passphrase?: string; confirmation?: string }) => {
+    const state = { kdf, passphrase, confirmation, ...next };
+    setKdf(state.kdf);
+    setPassphrase(state.passphrase);
+    setConfirmation(state.confirmation);
+    if (state.kdf === "wallet") return onKeyChange({ kdf: "wallet" });
+    const isValid =
+      state.passphrase.length >= MIN_PASSPHRASE_LENGTH && state.passphrase === state.confirmation;
+    onKeyChange(isValid ? { kdf: "pbkdf2", passphrase: state.passphrase } : null);
+  };
+
+  const tooShort = passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH;
+  const mismatch = confirmation.length > 0 && passphrase !== confirmation;
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Encryption Key</Label>
+      <div className="flex gap-1 p-1 rounded-lg bg-muted w-fit">
+        {KEY_SOURCES.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => update({ kdf: value })}
+            disabled={disabled}
+            className={cn(
+              "px-4 py-1.5 text-sm rounded-md font-medium transition-colors",
+              kdf === value
+                ? "bg-background text-foreground shadow-sm"
+                : "text-muted-foreground hover:text-foreground",
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {kdf === "wallet" ? (
+        <p className="text-xs text-muted-foreground italic">
+          The key is derived from a signature of your connected wallet. Sign the same message to
+          decrypt later — nothing to remember.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <Input
+            type="password"
+            autoComplete="new-password"
+            placeholder={`Passphrase (min. ${MIN_PASSPHRASE_LENGTH} characters)`}
+            value={passphrase}
+            onChange={(e) => update({ passphrase: e.target.value })}
+            disabled={disabled}
+            aria-invalid={tooShort}
+          />
+          <Input
+            type="password"
+            autoComplete="new-password"
+            placeholder="Confirm passphrase"
+            value={confirmation}
+            onChange={(e) => update({ confirmation: e.target.value })}
+            disabled={disabled}
+            aria-invalid={mismatch}
+          />
+          <p className="text-xs text-muted-foreground italic">
+            {mismatch
+              ? "Passphrases do not match."
+              : "The passphrase is never stored. If you lose it, the files cannot be recovered."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
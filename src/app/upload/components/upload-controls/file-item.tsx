@@ -1,7 +1,7 @@
 "use client";
 
-import { File, X } from "lucide-react";
-import { formatFileSize } from "@/lib/format";
+import { CopyCheck, File, Loader2, X } from "lucide-react";
+import { formatFileSize, pluralize } from "@/lib/format";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 
@@ -9,16 +9,53 @@ interface FileItemProps {
   file: File;
   onRemove: () => void;
   disabled?: boolean;
+  /** The file's PieceCID is being computed to look for stored copies */
+  isChecking?: boolean;
+  /** Providers that already store this exact file */
+  storedOn?: number;
+  /** Copies the upload would make — decides how many replicas are missing */
+  copies?: number;
+  onAddReplicas?: (count: number) => void;
+  isAddingReplicas?: boolean;
+  /** The folder path cannot be stored in piece metadata, so the file cannot be uploaded */
+  pathTooLong?: boolean;
 }
 
-export function FileItem({ file, onRemove, disabled }: FileItemProps) {
+export function FileItem({
+  file,
+  onRemove,
+  disabled,
+  isChecking,
+  storedOn = 0,
+  copies = 1,
+  onAddReplicas,
+  isAddingReplicas,
+  pathTooLong,
+}: FileItemProps) {
+  const missing = Math.max(0, copies - storedOn);
+
   return (
     <div className={cn("rounded-lg border bg-card", disabled && "opacity-60")}>
       <div className="flex items-center gap-3 px-3 py-2">
         <File className="h-4 w-4 shrink-0 text-muted-foreground" />
         <div className="flex-1 min-w-0">
-          <p className="text-sm font-medium truncate">{file.name}</p>
-          <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+          <p className="text-sm font-medium truncate" title={file.webkitRelativePath || undefined}>
+            {file.webkitRelativePath || file.name}
+          </p>
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            {formatFileSize(file.size)}
+            {pathTooLong && (
+              <span className="text-destructive ml-1">
+                · Folder path too long to store — upload from a shallower folder
+              </span>
+            )}
+            {isChecking && (
+              <>
+                <Loader2 className="h-3 w-3 animate-spin ml-1" />
+                Checking for stored copies…
+              </>
+            )}
+          </p>
         </div>
         <Button
           variant="ghost"
@@ -31,6 +68,38 @@ export function FileItem({ file, onRemove, disabled }: FileItemProps) {
           <X className="h-3.5 w-3.5" />
         </Button>
       </div>
+      {storedOn > 0 && (
+        <div className="flex items-center gap-2 border-t px-3 py-1.5 bg-muted/40">
+          <CopyCheck className="h-3.5 w-3.5 shrink-0 text-green-600 dark:text-green-400" />
+          <p className="flex-1 text-xs text-muted-foreground">
+            Already stored on {storedOn} {pluralize(storedOn, "provider")}
+          </p>
+          {missing > 0 && onAddReplicas && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onAddReplicas(missing)}
+              disabled={disabled || isAddingReplicas}
+              type="button"
+            >
+              {isAddingReplicas
+                ? "Replicating..."
+                : `Add ${missing} missing ${pluralize(missing, "replica")}`}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={onRemove}
+            disabled={disabled || isAddingReplicas}
+            type="button"
+          >
+            Skip
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
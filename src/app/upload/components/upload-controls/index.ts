@@ -3,3 +3,16 @@ export { UploadFeedbackPanel } from "./upload-feedback-panel";
 export { StorageModeSelector } from "./storage-mode-selector";
 export { FileDropZone } from "./file-drop-zone";
 export { FileItem } from "./file-item";
+export { ResumeUploadsBanner } from "./resume-uploads-banner";
+export { EncryptionSettings } from "./encryption-settings";
+export { CompressionSelector } from "./compression-selector";
+export { BundleToggle } from "./bundle-toggle";
+export { VerifyRetrievalToggle } from "./verify-retrieval-toggle";
+export { CarInputNotice } from "./car-input-notice";
+export { UnixFsSettings } from "./unixfs-settings";
+export { ProviderSelector } from "./provider-selector";
+export { DatasetSelector } from "./dataset-selector";
+export { MetadataEditor } from "./metadata-editor";
+export type { MetadataRows } from "./metadata-editor";
+export { UploadCostPreview } from "./upload-cost-preview";
+export { IpniVerificationSettings } from "./ipni-settings";
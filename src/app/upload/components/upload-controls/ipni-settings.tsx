@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { getIpniSettingsErrors, ipniBudgetMs } from "@/lib";
+import { ChevronDown, Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useIpniStore } from "@/providers/ipni";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Field, OptionButtons } from "./settings-fields";
+
+function formatBudget(ms: number): string {
+  return ms < 60_000 ? `${Math.round(ms / 1000)} s` : `${Math.round(ms / 60_000)} min`;
+}
+
+/** Saved in the browser and applied to every pin upload, resumed ones included. */
+export function IpniVerificationSettings({ disabled }: { disabled?: boolean }) {
+  const [open, setOpen] = useState(false);
+  const settings = useIpniStore((s) => s.settings);
+  const updateSettings = useIpniStore((s) => s.updateSettings);
+  const resetSettings = useIpniStore((s) => s.resetSettings);
+  const errors = getIpniSettingsErrors(settings);
+  const { indexerUrls } = settings;
+
+  const setIndexerUrls = (next: string[]) => updateSettings({ indexerUrls: next });
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-3">
+      <CollapsibleTrigger
+        className="flex items-center gap-1 text-sm font-medium text-muted-foreground hover:text-foreground"
+        disabled={disabled}
+      >
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+        IPNI and retrieval checks
+        {!open && (
+          <span className="font-normal">
+            · {indexerUrls.length} {indexerUrls.length === 1 ? "indexer" : "indexers"}
+            {settings.background && ", in the background"}
+            {settings.retrievalCheck && ", retrieval checked"}
+          </span>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 rounded-lg border p-3">
+        <Field label="Verify">
+          <OptionButtons
+            options={[
+              { value: false, label: "Before finishing" },
+              { value: true, label: "In the background" },
+            ]}
+            value={settings.background}
+            onChange={(background) => updateSettings({ background })}
+            disabled={disabled}
+          />
+        </Field>
+        <div className="space-y-2">
+          {indexerUrls.map((url, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <Input
+                className="h-7 flex-1"
+                placeholder="https://cid.contact"
+                value={url}
+                onChange={(e) =>
+                  setIndexerUrls(indexerUrls.map((u, j) => (j === i ? e.target.value : u)))
+                }
+                disabled={disabled}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                onClick={() => setIndexerUrls(indexerUrls.filter((_, j) => j !== i))}
+                disabled={disabled}
+                aria-label={`Remove ${url || "indexer"}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7"
+            onClick={() => setIndexerUrls([...indexerUrls, ""])}
+            disabled={disabled}
+          >
+            <Plus className="mr-1 h-3.5 w-3.5" /> Add indexer
+          </Button>
+        </div>
+        <Field label="Attempts">
+          <Input
+            type="number"
+            min={1}
+            className="h-7 w-32"
+            value={Number.isNaN(settings.maxAttempts) ? "" : settings.maxAttempts}
+            onChange={(e) => updateSettings({ maxAttempts: e.target.valueAsNumber })}
+            disabled={disabled}
+          />
+        </Field>
+        <Field label="First delay (seconds)">
+          <Input
+            type="number"
+            min={1}
+            className="h-7 w-32"
+            value={Number.isNaN(settings.delayMs) ? "" : settings.delayMs / 1000}
+            onChange={(e) => updateSettings({ delayMs: e.target.valueAsNumber * 1000 })}
+            disabled={disabled}
+          />
+        </Field>
+        <Field label="Backoff factor">
+          <Input
+            type="number"
+            min={1}
+            step={0.5}
+            className="h-7 w-32"
+            value={Number.isNaN(settings.backoff) ? "" : settings.backoff}
+            onChange={(e) => updateSettings({ backoff: e.target.valueAsNumber })}
+            disabled={disabled}
+          />
+        </Field>
+        <Field label="Retrieval check">
+          <OptionButtons
+            options={[
+              { value: false, label: "Off" },
+              { value: true, label: "On" },
+            ]}
+            value={settings.retrievalCheck}
+            onChange={(retrievalCheck) => updateSettings({ retrievalCheck })}
+            disabled={disabled}
+          />
+        </Field>
+        {settings.retrievalCheck && (
+          <Field label="Gateway">
+            <Input
+              className="h-7 flex-1"
+              placeholder="Each provider's endpoint"
+              value={settings.gatewayUrl}
+              onChange={(e) => updateSettings({ gatewayUrl: e.target.value.trim() })}
+              disabled={disabled}
+            />
+          </Field>
+        )}
+        <div className="flex items-start justify-between gap-2">
+          <p
+            className={cn(
+              "text-xs italic",
+              errors.length > 0 ? "text-destructive" : "text-muted-foreground",
+            )}
+          >
+            {errors.length > 0
+              ? errors.join(". ")
+              : `Each indexer is given up on after about ${formatBudget(ipniBudgetMs(settings))}. A miss does not fail the upload — the result is shown in Files.${settings.retrievalCheck ? " The retrieval check downloads the whole CAR." : ""}`}
+          </p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 shrink-0"
+            onClick={resetSettings}
+            disabled={disabled}
+          >
+            Reset
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { getCustomMetadataErrors, MAX_CUSTOM_METADATA_KEYS, type MetadataScope } from "@/lib";
+import { ChevronDown, Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/** Tags as edited: `[key, value]` rows, so half-typed and duplicate keys survive. */
+export type MetadataRows = Record<MetadataScope, [string, string][]>;
+
+interface MetadataEditorProps {
+  rows: MetadataRows;
+  onRowsChange: (rows: MetadataRows) => void;
+  /** Piece keys the upload pipeline needs for the current settings */
+  reservedPieceKeys: number;
+  /** An existing dataset was chosen — its metadata is already set */
+  datasetLocked?: boolean;
+  disabled?: boolean;
+}
+
+const SCOPES: { scope: MetadataScope; label: string; hint: string }[] = [
+  {
+    scope: "dataset",
+    label: "Dataset tags",
+    hint: "Uploads with different dataset tags go to different datasets.",
+  },
+  { scope: "piece", label: "File tags", hint: "Stored with each file's piece." },
+];
+
+export function MetadataEditor({
+  rows,
+  onRowsChange,
+  reservedPieceKeys,
+  datasetLocked,
+  disabled,
+}: MetadataEditorProps) {
+  const [open, setOpen] = useState(false);
+  const count = rows.dataset.length + rows.piece.length;
+
+  const setRows = (scope: MetadataScope, next: [string, string][]) =>
+    onRowsChange({ ...rows, [scope]: next });
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-3">
+      <CollapsibleTrigger
+        className="flex items-center gap-1 text-sm font-medium text-muted-foreground hover:text-foreground"
+        disabled={disabled}
+      >
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+        Metadata
+        {!open && count > 0 && <span className="font-normal">· {count} tags</span>}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 rounded-lg border p-3">
+        {SCOPES.map(({ scope, label, hint }) => {
+          const locked = scope === "dataset" && datasetLocked;
+          const reserved = scope === "piece" ? reservedPieceKeys : 0;
+          const maxRows = Math.max(0, MAX_CUSTOM_METADATA_KEYS[scope] - reserved);
+          const errors = getCustomMetadataErrors(rows[scope], scope, reserved);
+          const update = (index: number, entry: [string, string]) =>
+            setRows(
+              scope,
+              rows[scope].map((row, i) => (i === index ? entry : row)),
+            );
+
+          return (
+            <div key={scope} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">{label}</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7"
+                  onClick={() => setRows(scope, [...rows[scope], ["", ""]])}
+                  disabled={disabled || locked || rows[scope].length >= maxRows}
+                >
+                  <Plus className="mr-1 h-3.5 w-3.5" /> Add
+                </Button>
+              </div>
+              {rows[scope].map(([key, value], i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Input
+                    className="h-7 w-36"
+                    placeholder="key"
+                    value={key}
+                    onChange={(e) => update(i, [e.target.value, value])}
+                    disabled={disabled || locked}
+                  />
+                  <Input
+                    className="h-7 flex-1"
+                    placeholder="value"
+                    value={value}
+                    onChange={(e) => update(i, [key, e.target.value])}
+                    disabled={disabled || locked}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() =>
+                      setRows(
+                        scope,
+                        rows[scope].filter((_, j) => j !== i),
+                      )
+                    }
+                    disabled={disabled}
+                    aria-label={`Remove ${key || "tag"}`}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <p
+                className={cn(
+                  "text-xs italic",
+                  errors.length > 0 && !locked ? "text-destructive" : "text-muted-foreground",
+                )}
+              >
+                {locked
+                  ? "The chosen dataset keeps its own tags — these are not applied."
+                  : errors.length > 0
+                    ? errors.join(". ")
+                    : `${hint} Up to ${maxRows} with the current settings.`}
+              </p>
+            </div>
+          );
+        })}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
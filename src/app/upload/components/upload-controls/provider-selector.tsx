@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { useApprovedProviders } from "@/hooks/use-approved-providers";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+/** Radix Select items cannot have an empty value */
+const AUTO = "auto";
+
+interface ProviderSelectorProps {
+  copies: number;
+  /** Per copy: a provider ID, or null for automatic selection */
+  providerIds: (string | null)[];
+  onProviderIdsChange: (providerIds: (string | null)[]) => void;
+  /** The primary copy goes to a chosen dataset, so its provider is fixed */
+  primaryLocked?: boolean;
+  disabled?: boolean;
+}
+
+export function ProviderSelector({
+  copies,
+  providerIds,
+  onProviderIdsChange,
+  primaryLocked,
+  disabled,
+}: ProviderSelectorProps) {
+  const { data: providers = [], isLoading } = useApprovedProviders();
+
+  // Slots past a lowered copy count would still pin those providers
+  useEffect(() => {
+    if (providerIds.length > copies) onProviderIdsChange(providerIds.slice(0, copies));
+  }, [copies, providerIds, onProviderIdsChange]);
+
+  const setSlot = (index: number, value: string) => {
+    const next = Array.from({ length: copies }, (_, i) => providerIds[i] ?? null);
+    next[index] = value === AUTO ? null : value;
+    onProviderIdsChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Providers</Label>
+        <Link
+          href="/providers"
+          className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+        >
+          Compare providers
+        </Link>
+      </div>
+      <div className="space-y-1.5">
+        {Array.from({ length: copies }, (_, i) => {
+          const selected = providerIds[i] ?? null;
+          // A provider can hold only one copy
+          const taken = new Set(
+            providerIds.filter((id, j) => id !== null && j !== i && j < copies),
+          );
+          return (
+            <div key={i} className="flex items-center gap-3">
+              <span className="text-sm text-muted-foreground w-28 shrink-0">
+                Copy {i + 1}
+                {i === 0 && " (primary)"}
+              </span>
+              <Select
+                value={selected ?? AUTO}
+                onValueChange={(value) => setSlot(i, value)}
+                disabled={disabled || isLoading || (i === 0 && primaryLocked)}
+              >
+                <SelectTrigger size="sm" className="flex-1 min-w-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO}>Automatic</SelectItem>
+                  {providers.map((provider) => {
+                    const id = provider.id.toString();
+                    return (
+                      <SelectItem key={id} value={id} disabled={taken.has(id)}>
+                        {provider.name || `Provider #${id}`}
+                        {provider.pdp.location && (
+                          <span className="text-muted-foreground">· {provider.pdp.location}</span>
+                        )}
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </div>
+      {providerIds.slice(0, copies).some((id) => id !== null) && (
+        <p className="text-xs text-muted-foreground italic">
+          Pinned copies go to the chosen providers; the others are picked automatically.
+        </p>
+      )}
+    </div>
+  );
+}
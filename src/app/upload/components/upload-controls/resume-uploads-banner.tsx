@@ -0,0 +1,100 @@
+"use client";
+
+import { describeJobProgress, getMissingInputs } from "@/app/upload/lib";
+import type { UploadJob } from "@/app/upload/types";
+import { History, Play, Trash2 } from "lucide-react";
+import { formatFileSize, pluralize } from "@/lib/format";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+interface ResumeUploadsBannerProps {
+  jobs: UploadJob[];
+  /** Files currently selected in the drop zone — used to re-attach pending inputs */
+  files: File[];
+  onResume: (job: UploadJob) => void;
+  onDiscard: (job: UploadJob) => void;
+  disabled?: boolean;
+}
+
+export function ResumeUploadsBanner({
+  jobs,
+  files,
+  onResume,
+  onDiscard,
+  disabled,
+}: ResumeUploadsBannerProps) {
+  if (jobs.length === 0) return null;
+
+  return (
+    <Alert>
+      <History className="h-4 w-4" />
+      <AlertTitle>
+        {jobs.length} interrupted {pluralize(jobs.length, "upload")}
+      </AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>Resume from the last completed step instead of uploading again.</p>
+        {jobs.map((job) => (
+          <ResumeJobRow
+            key={job.id}
+            job={job}
+            missing={getMissingInputs(job, files).length}
+            onResume={() => onResume(job)}
+            onDiscard={() => onDiscard(job)}
+            disabled={disabled}
+          />
+        ))}
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+interface ResumeJobRowProps {
+  job: UploadJob;
+  missing: number;
+  onResume: () => void;
+  onDiscard: () => void;
+  disabled?: boolean;
+}
+
+function ResumeJobRow({ job, missing, onResume, onDiscard, disabled }: ResumeJobRowProps) {
+  const totalSize = job.inputs.reduce((acc, f) => acc + f.size, 0);
+
+  return (
+    <div className="w-full rounded-lg border bg-card px-3 py-2 space-y-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-foreground truncate">
+          {job.inputs.length} {pluralize(job.inputs.length, "file")} ({formatFileSize(totalSize)}) →{" "}
+          {job.copies} {pluralize(job.copies, "destination")}
+        </p>
+        <Badge variant="secondary" className="shrink-0 uppercase">
+          {job.mode}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {describeJobProgress(job)} · {new Date(job.updatedAt).toLocaleString()}
+      </p>
+      {missing > 0 && (
+        <p className="text-xs text-amber-600">
+          Select the same {pluralize(missing, "file")} again to resume ({missing} missing)
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button size="sm" onClick={onResume} disabled={disabled || missing > 0}>
+          <Play className="h-3.5 w-3.5 mr-1" />
+          Resume
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDiscard}
+          disabled={disabled}
+          className="text-muted-foreground hover:text-destructive"
+        >
+          <Trash2 className="h-3.5 w-3.5 mr-1" />
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+}
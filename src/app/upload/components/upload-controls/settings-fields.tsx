@@ -0,0 +1,50 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Label } from "@/components/ui/label";
+
+// Rows of the collapsible advanced-settings panels
+
+interface OptionButtonsProps<T> {
+  options: { value: T; label: string }[];
+  value: T | undefined;
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}
+
+export function OptionButtons<T extends string | number | boolean>({
+  options,
+  value,
+  onChange,
+  disabled,
+}: OptionButtonsProps<T>) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => (
+        <button
+          key={String(option.value)}
+          type="button"
+          onClick={() => onChange(option.value)}
+          disabled={disabled}
+          className={cn(
+            "h-7 px-2.5 rounded-md text-sm font-medium transition-colors border",
+            value === option.value
+              ? "bg-primary text-primary-foreground border-primary"
+              : "bg-background text-muted-foreground border-border hover:border-primary hover:text-foreground",
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-3">
+      <Label className="text-sm w-36 shrink-0">{label}</Label>
+      {children}
+    </div>
+  );
+}
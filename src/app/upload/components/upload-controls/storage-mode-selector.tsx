@@ -8,6 +8,7 @@ const MODES: { value: UploadMode; label: string }[] = [
   { value: "standard", label: "Standard" },
   { value: "cdn", label: "Beam" },
   { value: "pin", label: "Filecoin Pin" },
+  { value: "encrypted", label: "Encrypted" },
 ];
 
 interface StorageModeSelectorProps {
@@ -48,6 +49,12 @@ export function StorageModeSelector({ mode, onModeChange, disabled }: StorageMod
           Files wrapped into a single (.car) file. Make your files available on IPFS.
         </p>
       )}
+      {mode === "encrypted" && (
+        <p className="text-xs text-muted-foreground italic">
+          Files encrypted in your browser (AES-GCM) before upload. Providers only see ciphertext;
+          file names stay visible in metadata.
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import {
+  findUnixFsPreset,
+  getUnixFsProfileErrors,
+  UNIXFS_PRESETS,
+  type UnixFsChunker,
+  type UnixFsLayout,
+  type UnixFsProfile,
+} from "@/lib";
+import { ChevronDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Field, OptionButtons } from "./settings-fields";
+
+interface UnixFsSettingsProps {
+  profile: UnixFsProfile;
+  onProfileChange: (profile: UnixFsProfile) => void;
+  disabled?: boolean;
+}
+
+/** Collapsed by default: the defaults suit most pins; the rest is for matching other tools' CIDs. */
+export function UnixFsSettings({ profile, onProfileChange, disabled }: UnixFsSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const preset = findUnixFsPreset(profile);
+  const errors = getUnixFsProfileErrors(profile);
+
+  const update = (next: Partial<UnixFsProfile>) => {
+    const merged = { ...profile, ...next };
+    // CIDv0 can only address dag-pb blocks
+    if (next.cidVersion === 0) merged.rawLeaves = false;
+    onProfileChange(merged);
+  };
+
+  const numberInput = (key: "chunkSize" | "maxChildren" | "shardSplitThreshold") => (
+    <Input
+      type="number"
+      min={1}
+      className="h-7 w-32"
+      value={Number.isNaN(profile[key]) ? "" : profile[key]}
+      onChange={(e) => update({ [key]: e.target.valueAsNumber })}
+      disabled={disabled}
+    />
+  );
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-3">
+      <CollapsibleTrigger
+        className="flex items-center gap-1 text-sm font-medium text-muted-foreground hover:text-foreground"
+        disabled={disabled}
+      >
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+        UnixFS import settings
+        {!open && (
+          <span className="font-normal">
+            · {UNIXFS_PRESETS.find((p) => p.id === preset)?.label ?? "Custom"}
+          </span>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 rounded-lg border p-3">
+        <Field label="Preset">
+          <OptionButtons
+            options={UNIXFS_PRESETS.map((p) => ({ value: p.id, label: p.label }))}
+            value={preset}
+            onChange={(id) => onProfileChange(UNIXFS_PRESETS.find((p) => p.id === id)!.profile)}
+            disabled={disabled}
+          />
+        </Field>
+        <Field label="CID version">
+          <OptionButtons<0 | 1>
+            options={[
+              { value: 0, label: "v0" },
+              { value: 1, label: "v1" },
+            ]}
+            value={profile.cidVersion}
+            onChange={(cidVersion) => update({ cidVersion })}
+            disabled={disabled}
+          />
+        </Field>
+        <Field label="Raw leaves">
+          <OptionButtons
+            options={[
+              { value: false, label: "Off" },
+              { value: true, label: "On" },
+            ]}
+            value={profile.rawLeaves}
+            onChange={(rawLeaves) => update({ rawLeaves })}
+            disabled={disabled || profile.cidVersion === 0}
+          />
+        </Field>
+        <Field label="Chunker">
+          <OptionButtons<UnixFsChunker>
+            options={[
+              { value: "fixed", label: "Fixed size" },
+              { value: "rabin", label: "Rabin" },
+            ]}
+            value={profile.chunker}
+            onChange={(chunker) => update({ chunker })}
+            disabled={disabled}
+          />
+        </Field>
+        <Field label={profile.chunker === "rabin" ? "Average chunk (bytes)" : "Chunk size (bytes)"}>
+          {numberInput("chunkSize")}
+        </Field>
+        <Field label="DAG layout">
+          <OptionButtons<UnixFsLayout>
+            options={[
+              { value: "balanced", label: "Balanced" },
+              { value: "trickle", label: "Trickle" },
+            ]}
+            value={profile.layout}
+            onChange={(layout) => update({ layout })}
+            disabled={disabled}
+          />
+        </Field>
+        <Field label="Links per node">{numberInput("maxChildren")}</Field>
+        <Field label="HAMT above (bytes)">{numberInput("shardSplitThreshold")}</Field>
+        <p
+          className={cn(
+            "text-xs italic",
+            errors.length > 0 ? "text-destructive" : "text-muted-foreground",
+          )}
+        >
+          {errors.length > 0
+            ? errors.join(". ")
+            : "The same files imported with the same settings give the same root CID. The settings are saved with the piece."}
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useUploadEstimate } from "@/app/upload/hooks/use-upload-estimate";
+import { DECIMAL_PLACES, formatBalance, formatFileSize, pluralize } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface UploadCostPreviewProps {
+  /** Bytes providers store for one copy, as the upload prepares them */
+  bytesPerCopy: number;
+  /** One copy before and after compression, when compression is on */
+  compression?: { originalBytes: number; compressedBytes: number };
+  /** Compressed sizes are still being measured */
+  isMeasuring?: boolean;
+  copies: number;
+  newDatasets: number;
+  withCDN: boolean;
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-3">
+      <span className="text-muted-foreground shrink-0">{label}</span>
+      <span className="text-right">{children}</span>
+    </div>
+  );
+}
+
+export function UploadCostPreview({
+  bytesPerCopy,
+  compression,
+  isMeasuring,
+  copies,
+  newDatasets,
+  withCDN,
+}: UploadCostPreviewProps) {
+  const { cost, funding, savings, isLoading } = useUploadEstimate({
+    bytesPerCopy,
+    copies,
+    newDatasets,
+    withCDN,
+    compression,
+  });
+
+  return (
+    <div className="space-y-1.5 rounded-lg border p-3 text-sm">
+      <Row label="Stored">
+        {formatFileSize(bytesPerCopy)} × {copies} {pluralize(copies, "copy", "copies")} ={" "}
+        <span className="font-medium">{formatFileSize(bytesPerCopy * copies)}</span>
+      </Row>
+      {compression && (
+        <Row label="Compression">
+          {isMeasuring || !savings ? (
+            "Measuring…"
+          ) : (
+            <>
+              −{savings.savedPercent.toFixed(0)}% of {formatFileSize(compression.originalBytes)}
+              {savings.perMonthSavedStr && ` · saves ~${savings.perMonthSavedStr} USDFC/month`}
+            </>
+          )}
+        </Row>
+      )}
+      {isLoading || !cost ? (
+        <Skeleton className="h-14 w-full" />
+      ) : (
+        <>
+          <Row label="Monthly cost">
+            <span className="font-medium">~{cost.monthlyRateStr} USDFC</span>
+            {cost.isMinimumApplied && (
+              <span className="text-xs text-muted-foreground"> · minimum rate</span>
+            )}
+          </Row>
+          <Row label="New datasets">
+            {newDatasets === 0 ? (
+              "None — existing datasets are reused"
+            ) : (
+              <>
+                {newDatasets} · {cost.creationFeesStr} USDFC lockup
+                {withCDN && ` + ${cost.cdnFeesStr} USDFC CDN fee`}
+              </>
+            )}
+          </Row>
+          {funding && (
+            <Row label="Funding">
+              <span
+                className={cn(
+                  funding.isSufficient
+                    ? "text-muted-foreground"
+                    : "text-amber-600 dark:text-amber-400 font-medium",
+                )}
+              >
+                {funding.depositNeeded > 0n
+                  ? `A deposit of ${formatBalance(funding.depositNeeded, 18, DECIMAL_PLACES.USDFC)} USDFC will be requested`
+                  : funding.isSufficient
+                    ? "Covered by your balance"
+                    : "A wallet approval will be requested"}
+              </span>
+            </Row>
+          )}
+        </>
+      )}
+      <p className="text-xs text-muted-foreground italic">Estimated; providers may still change.</p>
+    </div>
+  );
+}
@@ -2,13 +2,17 @@
 
 import { UploadResults } from "@/app/upload/components/upload-results";
 import { UploadStatusPanel } from "@/app/upload/components/upload-status-panel";
-import type { UploadPhase } from "@/app/upload/types";
+import type { RetryTarget } from "@/app/upload/lib";
+import type { ProviderFailure, UploadPhase } from "@/app/upload/types";
 
 interface UploadFeedbackPanelProps {
   phase: UploadPhase;
   fileCount: number;
   copies: number;
   onReset: () => void;
+  onCancel?: () => void;
+  onRetryFailure?: (failure: ProviderFailure, target: RetryTarget) => void;
+  retryingFailure?: ProviderFailure;
 }
 
 export function UploadFeedbackPanel({
@@ -16,16 +20,32 @@ export function UploadFeedbackPanel({
   fileCount,
   copies,
   onReset,
+  onCancel,
+  onRetryFailure,
+  retryingFailure,
 }: UploadFeedbackPanelProps) {
   if (phase.phase === "idle") {
     return null;
   }
 
   if (phase.phase === "done") {
-    return <UploadResults result={phase.result} onReset={onReset} />;
+    return (
+      <UploadResults
+        result={phase.result}
+        onReset={onReset}
+        onRetryFailure={onRetryFailure}
+        retryingFailure={retryingFailure}
+      />
+    );
   }
 
   return (
-    <UploadStatusPanel phase={phase} fileCount={fileCount} copies={copies} onRetry={onReset} />
+    <UploadStatusPanel
+      phase={phase}
+      fileCount={fileCount}
+      copies={copies}
+      onRetry={onReset}
+      onCancel={onCancel}
+    />
   );
 }
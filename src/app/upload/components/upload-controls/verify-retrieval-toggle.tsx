@@ -0,0 +1,43 @@
+"use client";
+
+import { FULL_RETRIEVAL_MAX_SIZE } from "@/app/upload/lib";
+import { formatFileSize } from "@/lib/format";
+import { Label } from "@/components/ui/label";
+import { OptionButtons } from "./settings-fields";
+
+interface VerifyRetrievalToggleProps {
+  verify: boolean;
+  onVerifyChange: (verify: boolean) => void;
+  disabled?: boolean;
+}
+
+export function VerifyRetrievalToggle({
+  verify,
+  onVerifyChange,
+  disabled,
+}: VerifyRetrievalToggleProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <Label className="text-sm font-medium shrink-0">Verify retrieval</Label>
+        <OptionButtons
+          options={[
+            { value: false, label: "Off" },
+            { value: true, label: "On" },
+          ]}
+          value={verify}
+          onChange={onVerifyChange}
+          disabled={disabled}
+        />
+      </div>
+      {verify && (
+        <p className="text-xs text-muted-foreground italic">
+          Once committed, each provider is asked for every piece. Pieces up to{" "}
+          {formatFileSize(FULL_RETRIEVAL_MAX_SIZE)} are downloaded and checked against their
+          PieceCID; larger ones only have a random range fetched, which shows they are served but
+          leaves them unverified.
+        </p>
+      )}
+    </div>
+  );
+}
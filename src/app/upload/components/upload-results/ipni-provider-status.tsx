@@ -0,0 +1,38 @@
+"use client";
+
+import { ipniProviderStatuses, type IpniStatus } from "@/lib";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { useIpniStore } from "@/providers/ipni";
+
+const STATUS_TEXT: Record<IpniStatus, string> = {
+  pending: "Waiting for IPNI",
+  verified: "Advertised on IPNI",
+  failed: "Not found on IPNI",
+};
+
+/** One line per committed provider, updated live while verification runs. */
+export function IpniProviderStatus({ rootCid }: { rootCid: string }) {
+  const check = useIpniStore((s) => s.checks[rootCid]);
+  const providers = check ? ipniProviderStatuses(check) : [];
+  if (providers.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      {providers.map(({ provider, status }) => (
+        <div key={provider.providerId} className="flex items-center gap-2 text-sm">
+          {status === "verified" ? (
+            <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />
+          ) : status === "failed" ? (
+            <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+          ) : (
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+          )}
+          <span className="font-medium">
+            {provider.providerName} (#{provider.providerId})
+          </span>
+          <span className="text-muted-foreground">{STATUS_TEXT[status]}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import type { RetrievalResult } from "@/app/upload/types";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { pluralize } from "@/lib/format";
+
+/** Outcome of the retrieval check, one line per provider or gateway fetched from. */
+export function RetrievalResults({ results }: { results: RetrievalResult[] }) {
+  return (
+    <div className="space-y-1">
+      {results.map((r) => (
+        <div key={r.url} className="flex items-start gap-2 text-sm">
+          {r.ok ? (
+            <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500 mt-0.5" />
+          ) : (
+            <XCircle className="h-4 w-4 shrink-0 text-destructive mt-0.5" />
+          )}
+          <span className="font-medium shrink-0">{r.source}</span>
+          <span className="text-muted-foreground wrap-anywhere">
+            {r.ok
+              ? `${r.blockCount} ${pluralize(r.blockCount ?? 0, "block")} retrieved and verified in ${(r.durationMs / 1000).toFixed(1)} s`
+              : `Retrieval failed after ${(r.durationMs / 1000).toFixed(1)} s: ${r.error}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
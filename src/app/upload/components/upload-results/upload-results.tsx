@@ -1,23 +1,43 @@
 "use client";
 
 import { useMemo } from "react";
-import type { PieceResult, ResultData } from "@/app/upload/types";
+import type { RetryTarget } from "@/app/upload/lib";
+import type { PieceResult, PieceRetrieval, ProviderFailure, ResultData } from "@/app/upload/types";
 import { config } from "@/lib";
-import { AlertTriangle, CheckCircle2, ExternalLink, XCircle } from "lucide-react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+  Shuffle,
+  XCircle,
+} from "lucide-react";
 import { formatFileSize, pluralize } from "@/lib/format";
 import { ExplorerLink } from "@/components/layout/explorer-link";
+import { IpniStatusBadge } from "@/components/storage";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { CopyButton } from "@/components/ui/copy-button";
+import { IpniProviderStatus } from "./ipni-provider-status";
+import { RetrievalResults } from "./retrieval-results";
 
 interface UploadResultsProps {
   result: ResultData;
   onReset: () => void;
+  /** Re-runs pull + commit for a failed replica, on the same or a new provider */
+  onRetryFailure?: (failure: ProviderFailure, target: RetryTarget) => void;
+  retryingFailure?: ProviderFailure;
 }
 
-export function UploadResults({ result, onReset }: UploadResultsProps) {
+export function UploadResults({
+  result,
+  onReset,
+  onRetryFailure,
+  retryingFailure,
+}: UploadResultsProps) {
   const { pieces, failures, fileCount, copies, totalSize, kind } = result;
   const isPin = kind === "pin";
   const hasFailures = failures.length > 0;
@@ -55,6 +75,15 @@ export function UploadResults({ result, onReset }: UploadResultsProps) {
         <div className="flex flex-wrap items-center gap-2">
           <Badge variant="secondary">{formatFileSize(totalSize)} payload</Badge>
           <Badge variant="secondary">{formatFileSize(totalStoredBytes)} stored</Badge>
+          {result.compression && (
+            <Badge variant="secondary">
+              {formatFileSize(result.compression.storedSize)} compressed (−
+              {Math.round(
+                (1 - result.compression.storedSize / result.compression.originalSize) * 100,
+              )}
+              %)
+            </Badge>
+          )}
           <Badge variant="secondary">
             {successfulProviders.size}/{copies} {pluralize(copies, "provider")}
           </Badge>
@@ -62,6 +91,13 @@ export function UploadResults({ result, onReset }: UploadResultsProps) {
       </CardHeader>
 
       <CardContent className="space-y-4">
+        {result.checksCancelled && (
+          <p className="text-sm text-muted-foreground">
+            Cancelled after commit — the pieces are stored, but the checks that were still running
+            did not finish.
+          </p>
+        )}
+
         {/* Failure alerts */}
         {hasFailures && (
           <div className="space-y-2">
@@ -69,9 +105,41 @@ export function UploadResults({ result, onReset }: UploadResultsProps) {
               <Alert key={`${f.providerIndex}-${i}`} variant="destructive">
                 <XCircle className="h-4 w-4" />
                 <AlertTitle>
-                  {f.providerName} (Provider {f.providerIndex + 1}) failed
+                  {f.providerName} (Provider {f.providerIndex + 1}){" "}
+                  {FAILURE_TITLES[f.kind] ?? "failed"}
                 </AlertTitle>
-                <AlertDescription>{f.error}</AlertDescription>
+                <AlertDescription>
+                  <p>{f.error}</p>
+                  {onRetryFailure && (
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {/* Its copy is already committed — retrying on the same provider adds nothing */}
+                      {f.kind !== "retrieval" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onRetryFailure(f, "same")}
+                          disabled={!!retryingFailure}
+                        >
+                          {retryingFailure === f ? (
+                            <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-3.5 w-3.5 mr-1" />
+                          )}
+                          Retry
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onRetryFailure(f, "new")}
+                        disabled={!!retryingFailure}
+                      >
+                        <Shuffle className="h-3.5 w-3.5 mr-1" />
+                        Use another provider
+                      </Button>
+                    </div>
+                  )}
+                </AlertDescription>
               </Alert>
             ))}
           </div>
@@ -84,6 +152,18 @@ export function UploadResults({ result, onReset }: UploadResultsProps) {
               IPFS Root CID
             </p>
             <CopyButton value={result.ipfsRootCid} displayValue={result.ipfsRootCid} showTooltip />
+            <IpniStatusBadge rootCid={result.ipfsRootCid} />
+            <IpniProviderStatus rootCid={result.ipfsRootCid} />
+          </div>
+        )}
+
+        {/* Retrieval check (pin only) */}
+        {result.retrieval && result.retrieval.length > 0 && (
+          <div className="space-y-2 rounded-lg border bg-muted/30 p-3">
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              Retrieval check
+            </p>
+            <RetrievalResults results={result.retrieval} />
           </div>
         )}
 
@@ -99,6 +179,11 @@ export function UploadResults({ result, onReset }: UploadResultsProps) {
                   <Badge variant="outline">Dataset #{group.dataSetId}</Badge>
                 </div>
                 <ExplorerLink hash={group.txHash} />
+                {group.retrievals.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {describeRetrievals(group.retrievals)}
+                  </p>
+                )}
                 <div className="space-y-1 p-2">
                   <p className="text-xs text-muted-foreground">
                     {group.pieceCids.length} piece {pluralize(group.pieceCids.length, "CID")}
@@ -139,12 +224,31 @@ export function UploadResults({ result, onReset }: UploadResultsProps) {
   );
 }
 
+const FAILURE_TITLES: Partial<Record<ProviderFailure["kind"], string>> = {
+  store: "failed to store the pieces as primary",
+  retrieval: "committed the pieces but did not serve them back",
+};
+
 interface ProviderGroup {
   providerId: string;
   providerName: string;
   dataSetId: string;
   txHash: string;
   pieceCids: string[];
+  retrievals: PieceRetrieval[];
+}
+
+function describeRetrievals(retrievals: PieceRetrieval[]): string {
+  const validated = retrievals.filter((r) => r.method === "full").length;
+  const sampled = retrievals.length - validated;
+  const latency = retrievals.reduce((sum, r) => sum + r.latencyMs, 0) / retrievals.length;
+  return [
+    validated > 0 && `${validated} ${pluralize(validated, "piece")} verified against the PieceCID`,
+    sampled > 0 && `${sampled} ${pluralize(sampled, "piece")} only sampled, unverified`,
+    `${Math.round(latency)} ms average time to first byte`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
 }
 
 function groupByProvider(pieces: PieceResult[]): ProviderGroup[] {
@@ -154,6 +258,7 @@ function groupByProvider(pieces: PieceResult[]): ProviderGroup[] {
       const existing = map.get(p.providerId);
       if (existing) {
         existing.pieceCids.push(piece.pieceCid);
+        if (p.retrieval) existing.retrievals.push(p.retrieval);
       } else {
         map.set(p.providerId, {
           providerId: p.providerId,
@@ -161,6 +266,7 @@ function groupByProvider(pieces: PieceResult[]): ProviderGroup[] {
           dataSetId: p.dataSetId,
           txHash: p.txHash,
           pieceCids: [piece.pieceCid],
+          retrievals: p.retrieval ? [p.retrieval] : [],
         });
       }
     }
@@ -1,22 +1,28 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import type { ProviderProgress, UploadStep } from "@/app/upload/types";
+import type { ProviderProgress, StepTransfer, UploadStep } from "@/app/upload/types";
 import { ChevronDown } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import {
+  formatTransfer,
   getProviderLabel,
   getProviderOverallStatus,
   getStatusBadgeClass,
   getStatusIcon,
   getStatusPanelClass,
+  getTransferPercent,
 } from "./upload-status-utils";
 
+// Files still in flight are listed under the bar; the rest are summarized by the total
+const MAX_FILES_SHOWN = 3;
+
 interface UploadProvidersListProps {
   providers: ProviderProgress[];
 }
@@ -71,12 +77,16 @@ export function UploadProvidersList({ providers }: UploadProvidersListProps) {
 function ProviderRow({ provider, index }: { provider: ProviderProgress; index: number }) {
   const overallStatus = getProviderOverallStatus(provider.steps);
   const Icon = getStatusIcon(overallStatus);
+  const transferStep = provider.steps.find((s) => s.status === "active" && s.transfer);
 
   return (
     <div className={cn("rounded-md border px-3 py-2", getStatusPanelClass(overallStatus))}>
       <div className="flex items-center gap-2">
         <Icon
-          className={cn("h-3.5 w-3.5 shrink-0", overallStatus === "active" && "animate-spin")}
+          className={cn(
+            "h-3.5 w-3.5 shrink-0",
+            overallStatus === "active" && !transferStep && "animate-spin",
+          )}
         />
         <span className="text-xs font-medium">{getProviderLabel(provider, index)}</span>
         <Badge
@@ -92,6 +102,30 @@ function ProviderRow({ provider, index }: { provider: ProviderProgress; index: n
           <ProviderStepBadge key={step.id} step={step} />
         ))}
       </div>
+
+      {transferStep?.transfer && <TransferProgress transfer={transferStep.transfer} />}
+    </div>
+  );
+}
+
+function TransferProgress({ transfer }: { transfer: StepTransfer }) {
+  const inFlight = (transfer.files ?? []).filter((f) => f.bytes > 0 && f.bytes < f.totalBytes);
+
+  return (
+    <div className="mt-2 space-y-1">
+      <Progress value={getTransferPercent(transfer)} className="h-1.5" />
+      <p className="text-xs text-muted-foreground tabular-nums">{formatTransfer(transfer)}</p>
+      {inFlight.slice(0, MAX_FILES_SHOWN).map((file, i) => (
+        <div key={`${file.name}-${i}`} className="flex items-center gap-2 text-xs">
+          <span className="min-w-0 flex-1 truncate text-muted-foreground">{file.name}</span>
+          <span className="tabular-nums">{getTransferPercent(file)}%</span>
+        </div>
+      ))}
+      {inFlight.length > MAX_FILES_SHOWN && (
+        <p className="text-xs text-muted-foreground">
+          +{inFlight.length - MAX_FILES_SHOWN} more in flight
+        </p>
+      )}
     </div>
   );
 }
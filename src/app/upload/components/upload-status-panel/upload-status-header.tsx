@@ -6,7 +6,12 @@ import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { formatUploadSummary, getStatusBadgeClass } from "./upload-status-utils";
+import {
+  formatTransfer,
+  formatUploadSummary,
+  getActiveTransfer,
+  getStatusBadgeClass,
+} from "./upload-status-utils";
 
 interface UploadStatusHeaderProps {
   phase: UploadPhase;
@@ -14,27 +19,28 @@ interface UploadStatusHeaderProps {
   copies: number;
 }
 
+const TITLES: Record<"active" | "failed" | "cancelled", string> = {
+  active: "Upload in progress",
+  failed: "Upload failed",
+  cancelled: "Upload cancelled",
+};
+
 export function UploadStatusHeader({ phase, fileCount, copies }: UploadStatusHeaderProps) {
   const progress = phase.phase === "active" ? phase.progress : 0;
+  const activeTransfer = getActiveTransfer(phase);
+  const status =
+    phase.phase === "failed" || phase.phase === "cancelled" ? phase.phase : ("active" as const);
   const totalCopies = fileCount * copies;
 
   return (
     <CardHeader className="gap-3 pb-4">
       <div className="flex items-start justify-between gap-3">
         <div className="space-y-1">
-          <CardTitle className="text-base">
-            {phase.phase === "active" ? "Upload in progress" : "Upload failed"}
-          </CardTitle>
+          <CardTitle className="text-base">{TITLES[status]}</CardTitle>
           <CardDescription>{formatUploadSummary(fileCount, copies)}</CardDescription>
         </div>
-        <Badge
-          variant="outline"
-          className={cn(
-            "capitalize",
-            getStatusBadgeClass(phase.phase === "active" ? "active" : "failed"),
-          )}
-        >
-          {phase.phase === "active" ? "active" : "failed"}
+        <Badge variant="outline" className={cn("capitalize", getStatusBadgeClass(status))}>
+          {status}
         </Badge>
       </div>
 
@@ -57,6 +63,11 @@ export function UploadStatusHeader({ phase, fileCount, copies }: UploadStatusHea
             <span className="font-medium tabular-nums">{progress}%</span>
           </div>
           <Progress value={progress} className="h-1.5" />
+          {activeTransfer && (
+            <p className="text-xs text-muted-foreground tabular-nums">
+              {activeTransfer.label}: {formatTransfer(activeTransfer.transfer)}
+            </p>
+          )}
         </div>
       )}
     </CardHeader>
@@ -1,7 +1,8 @@
 "use client";
 
 import type { UploadPhase } from "@/app/upload/types";
-import { AlertTriangle } from "lucide-react";
+import { AlertTriangle, Ban } from "lucide-react";
+import { truncate } from "@/lib/format";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -14,9 +15,16 @@ interface UploadStatusPanelProps {
   fileCount: number;
   copies: number;
   onRetry?: () => void;
+  onCancel?: () => void;
 }
 
-export function UploadStatusPanel({ phase, fileCount, copies, onRetry }: UploadStatusPanelProps) {
+export function UploadStatusPanel({
+  phase,
+  fileCount,
+  copies,
+  onRetry,
+  onCancel,
+}: UploadStatusPanelProps) {
   if (phase.phase === "idle" || phase.phase === "done") {
     return null;
   }
@@ -28,6 +36,50 @@ export function UploadStatusPanel({ phase, fileCount, copies, onRetry }: UploadS
         <UploadStepsTimeline steps={phase.steps} />
         <UploadProvidersList providers={phase.providers} />
 
+        {phase.phase === "active" && onCancel && (
+          <Button variant="outline" onClick={onCancel} className="w-full">
+            <Ban className="mr-2 h-4 w-4" />
+            Cancel upload
+          </Button>
+        )}
+
+        {phase.phase === "cancelled" && (
+          <div className="space-y-3 pt-1">
+            <Alert>
+              <Ban className="h-4 w-4" />
+              <AlertTitle>Upload cancelled</AlertTitle>
+              <AlertDescription>
+                {phase.uncommitted.length === 0 ? (
+                  <p>Nothing was left on providers.</p>
+                ) : (
+                  <>
+                    <p>
+                      These pieces reached providers but were never committed on-chain. Resume the
+                      upload to commit them, or discard it and let providers drop them.
+                    </p>
+                    <ul className="w-full space-y-1">
+                      {phase.uncommitted.map((work) => (
+                        <li key={`${work.role}-${work.providerName}`} className="text-xs">
+                          <span className="font-medium text-foreground">{work.providerName}</span> (
+                          {work.role}):{" "}
+                          <span className="font-mono">
+                            {work.pieceCids.map((cid) => truncate(cid)).join(", ")}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </AlertDescription>
+            </Alert>
+            {onRetry && (
+              <Button variant="outline" onClick={onRetry} className="w-full">
+                Start over
+              </Button>
+            )}
+          </div>
+        )}
+
         {phase.phase === "failed" && (
           <div className="space-y-3 pt-1">
             <Alert variant="destructive">
@@ -1,6 +1,20 @@
-import type { ProviderProgress, StepStatus, UploadStep } from "@/app/upload/types";
-import { CheckCircle2, Circle, Loader2, MinusCircle, XCircle, type LucideIcon } from "lucide-react";
-import { pluralize } from "@/lib/format";
+import type {
+  ProviderProgress,
+  StepStatus,
+  StepTransfer,
+  UploadPhase,
+  UploadStep,
+} from "@/app/upload/types";
+import {
+  Ban,
+  CheckCircle2,
+  Circle,
+  Loader2,
+  MinusCircle,
+  XCircle,
+  type LucideIcon,
+} from "lucide-react";
+import { formatFileSize, pluralize } from "@/lib/format";
 
 const STATUS_ICON_MAP: Record<StepStatus, LucideIcon> = {
   done: CheckCircle2,
@@ -8,6 +22,7 @@ const STATUS_ICON_MAP: Record<StepStatus, LucideIcon> = {
   failed: XCircle,
   skipped: MinusCircle,
   pending: Circle,
+  cancelled: Ban,
 };
 
 const STATUS_TEXT_CLASS_MAP: Record<StepStatus, string> = {
@@ -16,6 +31,7 @@ const STATUS_TEXT_CLASS_MAP: Record<StepStatus, string> = {
   failed: "text-destructive",
   skipped: "text-muted-foreground",
   pending: "text-muted-foreground",
+  cancelled: "text-amber-600 dark:text-amber-400",
 };
 
 const STATUS_BADGE_CLASS_MAP: Record<StepStatus, string> = {
@@ -24,6 +40,7 @@ const STATUS_BADGE_CLASS_MAP: Record<StepStatus, string> = {
   failed: "border-destructive/30 bg-destructive/10 text-destructive",
   skipped: "border-muted bg-muted text-muted-foreground",
   pending: "border-border bg-muted/40 text-muted-foreground",
+  cancelled: "border-amber-500/30 bg-amber-500/10 text-amber-700 dark:text-amber-300",
 };
 
 const STATUS_PANEL_CLASS_MAP: Record<StepStatus, string> = {
@@ -32,6 +49,7 @@ const STATUS_PANEL_CLASS_MAP: Record<StepStatus, string> = {
   failed: "border-destructive/30 bg-destructive/5",
   skipped: "border-border bg-muted/20",
   pending: "border-border bg-muted/20",
+  cancelled: "border-amber-500/30 bg-amber-500/5",
 };
 
 export function formatUploadSummary(fileCount: number, copies: number): string {
@@ -62,10 +80,42 @@ export function getStatusPanelClass(status: StepStatus): string {
 export function getProviderOverallStatus(steps: UploadStep[]): StepStatus {
   if (steps.some((step) => step.status === "failed")) return "failed";
   if (steps.some((step) => step.status === "active")) return "active";
+  if (steps.some((step) => step.status === "cancelled")) return "cancelled";
   if (steps.every((step) => step.status === "done" || step.status === "skipped")) return "done";
   return "pending";
 }
 
+export function formatEta(seconds: number): string {
+  if (seconds < 60) return `~${Math.max(1, Math.round(seconds))}s left`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `~${minutes}m left`;
+  return `~${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+}
+
+export function formatTransfer(transfer: StepTransfer): string {
+  const parts = [`${formatFileSize(transfer.bytes)} of ${formatFileSize(transfer.totalBytes)}`];
+  if (transfer.blocks != null) parts.push(`${transfer.blocks.toLocaleString()} blocks`);
+  if (transfer.throughput > 0) parts.push(`${formatFileSize(transfer.throughput)}/s`);
+  if (transfer.eta != null && transfer.bytes < transfer.totalBytes)
+    parts.push(formatEta(transfer.eta));
+  return parts.join(" · ");
+}
+
+export function getTransferPercent(transfer: Pick<StepTransfer, "bytes" | "totalBytes">): number {
+  if (transfer.totalBytes <= 0) return 0;
+  return Math.min(Math.round((transfer.bytes / transfer.totalBytes) * 100), 100);
+}
+
+/** The step currently moving bytes — CAR build first, then the primary store, then pulls */
+export function getActiveTransfer(
+  phase: UploadPhase,
+): { label: string; transfer: StepTransfer } | undefined {
+  if (phase.phase !== "active") return;
+  const steps = [...phase.steps, ...phase.providers.flatMap((p) => p.steps)];
+  const step = steps.find((s) => s.status === "active" && s.transfer);
+  return step?.transfer && { label: step.label, transfer: step.transfer };
+}
+
 export function getProviderLabel(provider: ProviderProgress, index: number): string {
   return provider.label || `Provider ${index + 1}`;
 }
@@ -3,8 +3,15 @@
 import type { UploadStep } from "@/app/upload/types";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { getStatusBadgeClass, getStatusIcon, getStatusTextClass } from "./upload-status-utils";
+import {
+  formatTransfer,
+  getStatusBadgeClass,
+  getStatusIcon,
+  getStatusTextClass,
+  getTransferPercent,
+} from "./upload-status-utils";
 
 interface UploadStepsTimelineProps {
   steps: UploadStep[];
@@ -33,6 +40,7 @@ function StepRow({ step }: { step: UploadStep }) {
   const message = step.error ?? step.detail;
   const isError = Boolean(step.error);
   const isLongMessage = Boolean(message && message.length > 68);
+  const transfer = step.status === "active" ? step.transfer : undefined;
 
   return (
     <div className="rounded-md border px-3 py-2">
@@ -41,7 +49,7 @@ function StepRow({ step }: { step: UploadStep }) {
           className={cn(
             "h-3.5 w-3.5 shrink-0",
             getStatusTextClass(step.status),
-            step.status === "active" && "animate-spin",
+            step.status === "active" && !transfer && "animate-spin",
           )}
         />
         <span className={cn("text-xs font-medium", getStatusTextClass(step.status))}>
@@ -55,6 +63,13 @@ function StepRow({ step }: { step: UploadStep }) {
         </Badge>
       </div>
 
+      {transfer && (
+        <div className="space-y-1 pl-5 pt-1.5">
+          <Progress value={getTransferPercent(transfer)} className="h-1.5" />
+          <p className="text-xs text-muted-foreground tabular-nums">{formatTransfer(transfer)}</p>
+        </div>
+      )}
+
       {message && (
         <div
           className={cn(
@@ -1,37 +1,137 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import {
+  BundleToggle,
+  CarInputNotice,
+  CompressionSelector,
   CopiesSelector,
+  DatasetSelector,
+  EncryptionSettings,
   FileDropZone,
   FileItem,
+  IpniVerificationSettings,
+  MetadataEditor,
+  ProviderSelector,
+  ResumeUploadsBanner,
   StorageModeSelector,
+  UnixFsSettings,
+  UploadCostPreview,
   UploadFeedbackPanel,
+  VerifyRetrievalToggle,
+  type MetadataRows,
 } from "@/app/upload/components/upload-controls";
+import { useCompressedSizes } from "@/app/upload/hooks/use-compressed-sizes";
 import { useFilecoinPinUpload } from "@/app/upload/hooks/use-pin-upload";
+import { useRetryReplica } from "@/app/upload/hooks/use-retry-replica";
+import { useAddReplicas, useStoredFiles } from "@/app/upload/hooks/use-stored-files";
 import { useUpload } from "@/app/upload/hooks/use-upload";
+import { useUploadJobs } from "@/app/upload/hooks/use-upload-jobs";
+import { datasetMetadataFor } from "@/app/upload/hooks/use-upload-phase";
+import {
+  datasetUploadModes,
+  estimateCarSize,
+  estimateNewDatasets,
+  estimatePreparedSize,
+  isCarFile,
+  matchInputs,
+  mergeRetriedReplica,
+  reservedPieceKeyCount,
+  storedCompressedSize,
+  storedProviderIds,
+  type RetryTarget,
+} from "@/app/upload/lib";
+import {
+  BUNDLE_FILE_THRESHOLD,
+  DEFAULT_UNIXFS_PROFILE,
+  getCustomMetadataErrors,
+  getIpniSettingsErrors,
+  getUnixFsProfileErrors,
+  isRelativePathTooLong,
+  needsChunking,
+  type ContentEncoding,
+  type EncryptionKeyInput,
+  type UnixFsProfile,
+} from "@/lib";
+import { useDataSets } from "@filoz/synapse-react";
 import { Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useConnection } from "wagmi";
+import { transformDatasets } from "@/lib/datasets";
 import { pluralize } from "@/lib/format";
+import { useIpniStore } from "@/providers/ipni";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import type { UploadMode } from "../types";
+import type { ProviderFailure, UploadJob, UploadMode } from "../types";
 
+/** Same-named files from different folders of a dropped tree are distinct */
 function fileKey(file: File): string {
-  return `${file.name}-${file.size}-${file.lastModified}`;
+  return `${file.webkitRelativePath || file.name}-${file.size}-${file.lastModified}`;
+}
+
+interface UploaderProps {
+  /** Dataset to add the primary copy to, e.g. from a dataset's "Add files" button */
+  initialDataSetId?: string;
 }
 
-export function Uploader() {
+export function Uploader({ initialDataSetId }: UploaderProps) {
   const uploadHook = useUpload();
   const pinHook = useFilecoinPinUpload();
+  const uploadJobs = useUploadJobs();
+  const retry = useRetryReplica();
 
   // --- Files ---
   const [files, setFiles] = useState<File[]>([]);
 
   // --- Mode ---
   const [mode, setMode] = useState<UploadMode>("standard");
+  const [encryptionKey, setEncryptionKey] = useState<EncryptionKeyInput | null>({ kdf: "wallet" });
+
+  // --- Compression (not in pin mode — the CAR is stored as-is) ---
+  const [compression, setCompression] = useState<ContentEncoding | null>(null);
+
+  // --- Bundling of small files (standard mode) ---
+  const [bundle, setBundle] = useState(false);
+
+  // --- Read the pieces back once committed (not in pin mode, which checks the CAR) ---
+  const [verifyRetrieval, setVerifyRetrieval] = useState(false);
+
+  // --- UnixFS import settings (pin mode, unless a pre-built CAR is pinned) ---
+  const [unixfs, setUnixfs] = useState<UnixFsProfile>(DEFAULT_UNIXFS_PROFILE);
+  const buildsCar = mode === "pin" && !files.some(isCarFile);
+  const ipniSettings = useIpniStore((s) => s.settings);
 
   // --- Copies + Destinations ---
   const [copies, setCopies] = useState(1);
+  const [providerIds, setProviderIds] = useState<(string | null)[]>([]);
+  const [dataSetId, setDataSetId] = useState<string | null>(initialDataSetId ?? null);
+
+  const { address } = useConnection();
+  const { data: rawDatasets } = useDataSets({ address });
+  const datasets = useMemo(() => transformDatasets(rawDatasets), [rawDatasets]);
+  const targetDataset = datasets.find((d) => d.dataSetId.toString() === dataSetId);
+  // The target dataset decides the primary copy's provider
+  const slotProviderIds = targetDataset
+    ? [targetDataset.provider.id.toString(), ...providerIds.slice(1)]
+    : providerIds;
+
+  // --- Custom tags ---
+  const [tagRows, setTagRows] = useState<MetadataRows>({ dataset: [], piece: [] });
+  const reservedPieceKeys = reservedPieceKeyCount({
+    mode,
+    compressed: mode !== "pin" && !!compression,
+    chunked: files.some((f) => needsChunking(f.size)),
+    bundle: mode === "standard" && bundle,
+    withPath: files.some((f) => f.webkitRelativePath.includes("/")),
+  });
+
+  // --- Stored copies (only plain uploads store the file's own PieceCID) ---
+  const canDedup = (mode === "standard" || mode === "cdn") && !compression;
+  const storedFiles = useStoredFiles(files, canDedup);
+  const addReplicas = useAddReplicas();
+
+  // --- Compressed sizes, so the estimate prices what is stored ---
+  const compressedSizes = useCompressedSizes(files, mode !== "pin" ? compression : null);
 
   // --- Active hook tracking ---
   const [activePinMode, setActivePinMode] = useState(false);
@@ -51,6 +151,31 @@ export function Uploader() {
     setFiles((prev) => prev.filter((_, i) => i !== index));
   };
 
+  // Keyed, not indexed — the list may change while replicas are being added
+  const removeFiles = (keys: string[]) => {
+    setFiles((prev) => prev.filter((f) => !keys.includes(fileKey(f))));
+  };
+
+  const handleAddReplicas = (file: File, count: number) => {
+    const { stored } = storedFiles[files.indexOf(file)];
+    if (!stored) return;
+    addReplicas.mutate({ stored, count }, { onSuccess: () => removeFiles([fileKey(file)]) });
+  };
+
+  const handleModeChange = (next: UploadMode) => {
+    setMode(next);
+    // EncryptionSettings remounts with its defaults
+    setEncryptionKey({ kdf: "wallet" });
+  };
+
+  const handleDataSetChange = (next: string | null) => {
+    setDataSetId(next);
+    const dataset = datasets.find((d) => d.dataSetId.toString() === next);
+    if (dataset && !datasetUploadModes(dataset).includes(mode)) {
+      handleModeChange(datasetUploadModes(dataset)[0]);
+    }
+  };
+
   // --- Reset ---
   const handleReset = useCallback(() => {
     uploadHook.reset();
@@ -62,26 +187,144 @@ export function Uploader() {
   // --- Upload ---
   const handleUpload = useCallback(() => {
     if (files.length === 0) return;
+    // A chosen dataset keeps its own tags
+    const metadata = {
+      dataset: dataSetId ? {} : Object.fromEntries(tagRows.dataset),
+      piece: Object.fromEntries(tagRows.piece),
+    };
 
     if (mode === "pin") {
       setActivePinMode(true);
       pinHook.upload({
         files,
         copies,
+        providerIds,
+        dataSetId: dataSetId ?? undefined,
+        metadata,
+        unixfs,
       });
     } else {
       setActivePinMode(false);
       uploadHook.upload({
         files,
         copies,
+        providerIds,
+        dataSetId: dataSetId ?? undefined,
+        metadata,
         withCDN: mode === "cdn",
+        compression: compression ?? undefined,
+        bundle: mode === "standard" && bundle,
+        verifyRetrieval,
+        encryption: mode === "encrypted" ? (encryptionKey ?? undefined) : undefined,
       });
     }
-  }, [files, mode, copies, uploadHook, pinHook]);
+  }, [
+    files,
+    mode,
+    copies,
+    providerIds,
+    dataSetId,
+    tagRows,
+    compression,
+    bundle,
+    verifyRetrieval,
+    encryptionKey,
+    unixfs,
+    uploadHook,
+    pinHook,
+  ]);
+
+  // --- Resume an interrupted job ---
+  const handleResume = useCallback(
+    (job: UploadJob) => {
+      const inputs = matchInputs(job, files);
+      setMode(job.mode);
+      setCopies(job.copies);
+
+      // The key must match the interrupted session; a passphrase has to be typed again
+      const encryption =
+        job.encryption &&
+        (job.encryption.kdf === "wallet" ? { kdf: "wallet" as const } : encryptionKey);
+      if (job.encryption && encryption?.kdf !== job.encryption.kdf) {
+        toast.error("Enter the passphrase this upload was started with, then resume it");
+        return;
+      }
+
+      if (job.mode === "pin") {
+        setActivePinMode(true);
+        pinHook.upload({ files: inputs, copies: job.copies, job });
+      } else {
+        setActivePinMode(false);
+        uploadHook.upload({
+          files: inputs,
+          copies: job.copies,
+          withCDN: job.mode === "cdn",
+          encryption: encryption ?? undefined,
+          verifyRetrieval,
+          job,
+        });
+      }
+    },
+    [files, encryptionKey, verifyRetrieval, uploadHook, pinHook],
+  );
+
+  // --- Retry a failed replica from the results screen ---
+  const handleRetryFailure = useCallback(
+    (failure: ProviderFailure, target: RetryTarget) => {
+      if (currentPhase.phase !== "done") return;
+      retry.mutate(
+        { result: currentPhase.result, failure, target },
+        {
+          onSuccess: (upload) =>
+            active.updateResult((result) => mergeRetriedReplica(result, failure, upload)),
+        },
+      );
+    },
+    [currentPhase, retry, active],
+  );
 
   // --- Derived values ---
   const totalSize = files.reduce((acc, f) => acc + f.size, 0);
-  const canUpload = files.length > 0;
+  // Only files already on as many providers as the upload would use can be skipped
+  const alreadyStored = files.filter((_, i) => {
+    const { stored } = storedFiles[i];
+    return !!stored && storedProviderIds(stored).length >= copies;
+  });
+  // Pin mode keeps folder paths in the CAR and encrypted mode stores none; the rest use piece metadata
+  const pathTooLong = (file: File) =>
+    (mode === "standard" || mode === "cdn") && isRelativePathTooLong(file);
+  const smallFileCount = files.filter((f) => f.size < BUNDLE_FILE_THRESHOLD).length;
+  // Files that do not shrink or would be chunked are stored as-is, like the upload does
+  const compressedBytes = files.reduce(
+    (acc, f, i) => acc + (storedCompressedSize(f.size, compressedSizes.sizes[i]) ?? f.size),
+    0,
+  );
+  // What the upload will hand providers, so the estimate funds the same bytes
+  const bytesPerCopy =
+    mode === "pin"
+      ? files.length === 1 && isCarFile(files[0])
+        ? files[0].size
+        : estimateCarSize(files, unixfs)
+      : estimatePreparedSize(files, {
+          compressedSizes: compressedSizes.sizes,
+          encrypted: mode === "encrypted",
+          bundle: mode === "standard" && bundle,
+        });
+  const newDatasets = estimateNewDatasets(datasets, {
+    copies,
+    providerIds,
+    dataSetId: dataSetId ?? undefined,
+    metadata: datasetMetadataFor(mode, dataSetId ? {} : Object.fromEntries(tagRows.dataset)),
+  });
+  const canUpload =
+    files.length > 0 &&
+    !files.some(pathTooLong) &&
+    (mode !== "encrypted" || encryptionKey !== null) &&
+    (!buildsCar || getUnixFsProfileErrors(unixfs).length === 0) &&
+    (mode !== "pin" || getIpniSettingsErrors(ipniSettings).length === 0) &&
+    (!targetDataset || datasetUploadModes(targetDataset).includes(mode)) &&
+    getCustomMetadataErrors(tagRows.piece, "piece", reservedPieceKeys).length === 0 &&
+    (!!dataSetId || getCustomMetadataErrors(tagRows.dataset, "dataset").length === 0);
 
   // --- Render: feedback (active / failed / done) ---
   if (currentPhase.phase !== "idle") {
@@ -91,6 +334,9 @@ export function Uploader() {
         fileCount={files.length}
         copies={copies}
         onReset={handleReset}
+        onCancel={active.cancel}
+        onRetryFailure={handleRetryFailure}
+        retryingFailure={retry.isPending ? retry.variables?.failure : undefined}
       />
     );
   }
@@ -98,6 +344,14 @@ export function Uploader() {
   // --- Render: main form ---
   return (
     <div className="space-y-6">
+      <ResumeUploadsBanner
+        jobs={uploadJobs.jobs}
+        files={files}
+        onResume={handleResume}
+        onDiscard={uploadJobs.discard}
+        disabled={isActive || uploadJobs.isDiscarding}
+      />
+
       <FileDropZone onFilesSelected={handleFilesSelected} disabled={isActive} allowFolders />
 
       {files.length > 0 && (
@@ -109,38 +363,139 @@ export function Uploader() {
                 ({(totalSize / 1024 / 1024).toFixed(2)} MB)
               </span>
             </p>
-            {files.length > 1 && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setFiles([])}
-                disabled={isActive}
-                className="text-muted-foreground hover:text-destructive h-7 text-xs"
-              >
-                <Trash2 className="h-3.5 w-3.5 mr-1" />
-                Clear all
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {alreadyStored.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeFiles(alreadyStored.map(fileKey))}
+                  disabled={isActive}
+                  className="text-muted-foreground h-7 text-xs"
+                >
+                  Skip {alreadyStored.length} already stored
+                </Button>
+              )}
+              {files.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFiles([])}
+                  disabled={isActive}
+                  className="text-muted-foreground hover:text-destructive h-7 text-xs"
+                >
+                  <Trash2 className="h-3.5 w-3.5 mr-1" />
+                  Clear all
+                </Button>
+              )}
+            </div>
           </div>
           <div className="space-y-1.5 max-h-56 overflow-y-auto pr-1">
-            {files.map((file, index) => (
-              <FileItem
-                key={fileKey(file)}
-                file={file}
-                onRemove={() => handleRemoveFile(index)}
-                disabled={isActive}
-              />
-            ))}
+            {files.map((file, index) => {
+              const { stored, isChecking } = storedFiles[index];
+              return (
+                <FileItem
+                  key={fileKey(file)}
+                  file={file}
+                  onRemove={() => handleRemoveFile(index)}
+                  disabled={isActive}
+                  isChecking={isChecking}
+                  storedOn={stored ? storedProviderIds(stored).length : 0}
+                  copies={copies}
+                  onAddReplicas={(count) => handleAddReplicas(file, count)}
+                  isAddingReplicas={
+                    addReplicas.isPending && addReplicas.variables?.stored === stored
+                  }
+                  pathTooLong={pathTooLong(file)}
+                />
+              );
+            })}
           </div>
         </div>
       )}
 
       <Separator />
 
-      <StorageModeSelector mode={mode} onModeChange={setMode} disabled={isActive} />
+      <StorageModeSelector mode={mode} onModeChange={handleModeChange} disabled={isActive} />
+
+      <CarInputNotice files={files} mode={mode} />
+
+      {mode === "encrypted" && (
+        <EncryptionSettings onKeyChange={setEncryptionKey} disabled={isActive} />
+      )}
+
+      {mode !== "pin" && (
+        <CompressionSelector
+          compression={compression}
+          onCompressionChange={setCompression}
+          disabled={isActive}
+        />
+      )}
+
+      {mode === "standard" && (
+        <BundleToggle
+          bundle={bundle}
+          onBundleChange={setBundle}
+          smallFileCount={smallFileCount}
+          disabled={isActive}
+        />
+      )}
+
+      {mode !== "pin" && (
+        <VerifyRetrievalToggle
+          verify={verifyRetrieval}
+          onVerifyChange={setVerifyRetrieval}
+          disabled={isActive}
+        />
+      )}
+
+      {buildsCar && (
+        <UnixFsSettings profile={unixfs} onProfileChange={setUnixfs} disabled={isActive} />
+      )}
+
+      {mode === "pin" && <IpniVerificationSettings disabled={isActive} />}
+
+      <MetadataEditor
+        rows={tagRows}
+        onRowsChange={setTagRows}
+        reservedPieceKeys={reservedPieceKeys}
+        datasetLocked={!!dataSetId}
+        disabled={isActive}
+      />
 
       <CopiesSelector copies={copies} onCopiesChange={setCopies} disabled={isActive} />
 
+      <DatasetSelector
+        datasets={datasets}
+        mode={mode}
+        dataSetId={dataSetId}
+        onDataSetIdChange={handleDataSetChange}
+        onModeChange={handleModeChange}
+        disabled={isActive}
+      />
+
+      <ProviderSelector
+        copies={copies}
+        providerIds={slotProviderIds}
+        onProviderIdsChange={setProviderIds}
+        primaryLocked={!!targetDataset}
+        disabled={isActive}
+      />
+
+      {files.length > 0 && (
+        <UploadCostPreview
+          bytesPerCopy={bytesPerCopy}
+          compression={
+            compression && mode !== "pin"
+              ? { originalBytes: totalSize, compressedBytes }
+              : undefined
+          }
+          isMeasuring={compressedSizes.isMeasuring}
+          copies={copies}
+          newDatasets={newDatasets}
+          withCDN={mode === "cdn"}
+        />
+      )}
+
       <Separator />
 
       <Button className="w-full" size="lg" onClick={handleUpload} disabled={!canUpload || isActive}>
@@ -1,3 +1,8 @@
+export { useCompressedSizes } from "./use-compressed-sizes";
 export { useFilecoinPinUpload } from "./use-pin-upload";
+export { useRetryReplica } from "./use-retry-replica";
+export { useAddReplicas, useStoredFiles } from "./use-stored-files";
 export { useUpload } from "./use-upload";
+export { useUploadEstimate } from "./use-upload-estimate";
+export { useUploadJobs } from "./use-upload-jobs";
 export { useUploadPhase } from "./use-upload-phase";
@@ -0,0 +1,36 @@
+"use client";
+
+import { measureCompressedSize } from "@/app/upload/lib";
+import type { ContentEncoding } from "@/lib";
+import { useQueries } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query-keys";
+
+export const compressedSizeKey = (file: File, encoding: ContentEncoding) =>
+  queryKeys.compressedSize(
+    file.name,
+    file.size,
+    file.lastModified,
+    file.webkitRelativePath,
+    encoding,
+  );
+
+/**
+ * Compressed size of each selected file, for the cost estimate. The upload
+ * reuses the sizes measured here instead of compressing the files again.
+ */
+export const useCompressedSizes = (files: File[], encoding: ContentEncoding | null) => {
+  const results = useQueries({
+    queries: files.map((file) => ({
+      queryKey: compressedSizeKey(file, encoding ?? "gzip"),
+      queryFn: () => measureCompressedSize(file, encoding!),
+      enabled: !!encoding,
+      // Compression is deterministic for the same file and encoding
+      staleTime: Infinity,
+    })),
+  });
+
+  return {
+    sizes: results.map((r) => (encoding ? r.data : undefined)),
+    isMeasuring: !!encoding && results.some((r) => r.isFetching),
+  };
+};
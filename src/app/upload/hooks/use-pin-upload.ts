@@ -1,24 +1,104 @@
 "use client";
 
-import { buildCarFromFiles, uploadToContexts, waitForIpniProviderResults } from "@/app/upload/lib";
-import { getErrorMessage } from "@/lib";
+import { useRef } from "react";
+import {
+  buildCarInWorker,
+  checkCarRetrieval,
+  computeLocalPieceCid,
+  createReplacementContext,
+  createUploadContexts,
+  createUploadJournal,
+  deleteUploadJob,
+  isCarFile,
+  isUploadCancelled,
+  resumeContexts,
+  startUploadJob,
+  storedUploadPlaceholder,
+  throwIfCancelled,
+  trustlessCarUrl,
+  UploadCancelledError,
+  uploadToContexts,
+  verifyCarFile,
+  verifyIpniAdvertisement,
+  type UploadableFile,
+} from "@/app/upload/lib";
+import type { RetrievalResult } from "@/app/upload/types";
+import {
+  combineIpniStatus,
+  DEFAULT_UNIXFS_PROFILE,
+  encodeUnixFsProfile,
+  getErrorMessage,
+  IPNI_HEARTBEAT_MS,
+  readCustomMetadata,
+  readUnixFsProfile,
+  scopeKey,
+  UNIXFS_METADATA_KEY,
+  type IpniExpectedProvider,
+  type IpniSettings,
+  type IpniStatus,
+} from "@/lib";
 import { useDepositAndApprove } from "@filoz/synapse-react";
 import { useMutation } from "@tanstack/react-query";
 import { CID } from "multiformats/cid";
 import { toast } from "sonner";
 import { useConnection, useWalletClient } from "wagmi";
+import { truncate } from "@/lib/format";
 import { queryKeys } from "@/lib/query-keys";
 import { fetchStorageMetrics } from "@/lib/storage-metrics";
 import { getSynapseClient } from "@/lib/synapse-client";
+import { useIpniStore } from "@/providers/ipni";
 import { useStorageConfig } from "@/providers/storage-config";
 import {
   activateProviderUploadSteps,
-  APP_METADATA,
-  PIN_STEPS,
+  buildPinSteps,
+  createProviderProgress,
+  datasetMetadataFor,
+  receiptDetailsFor,
+  reportJournalError,
   UploadParams,
   useUploadPhase,
 } from "./use-upload-phase";
 
+// ─── IPNI verification ───────────────────────────────────────────────────────
+
+/**
+ * Polls the configured indexers, recording each one's progress under `rootCid`.
+ * A run that breaks ends as "failed" — the pin is committed either way.
+ */
+async function runIpniVerification(
+  rootCid: string,
+  settings: IpniSettings,
+  expectedProviders: IpniExpectedProvider[],
+  signal?: AbortSignal,
+): Promise<IpniStatus> {
+  const { startCheck, updateIndexer, heartbeat, failCheck, discardCheck } = useIpniStore.getState();
+  startCheck(rootCid, settings.indexerUrls, expectedProviders);
+  const beat = setInterval(() => heartbeat(rootCid), IPNI_HEARTBEAT_MS);
+  try {
+    const indexers = await verifyIpniAdvertisement(CID.parse(rootCid), settings, {
+      expectedProviders,
+      signal,
+      onIndexerUpdate: (indexerUrl, check) => updateIndexer(rootCid, indexerUrl, check),
+    });
+    return combineIpniStatus(Object.values(indexers));
+  } catch (error) {
+    // A cancelled check is dropped; one that broke is kept as failed
+    if (isUploadCancelled(error, signal)) {
+      discardCheck(rootCid);
+      throw error;
+    }
+    failCheck(rootCid, getErrorMessage(error));
+    return "failed";
+  } finally {
+    clearInterval(beat);
+  }
+}
+
+function notifyIpniResult(rootCid: string, status: IpniStatus) {
+  if (status === "verified") toast.success(`IPNI advertisement verified for ${truncate(rootCid)}`);
+  else toast.warning(`IPNI indexers do not list ${truncate(rootCid)} — see Files for details`);
+}
+
 // ─── IPFS Pin upload ─────────────────────────────────────────────────────────
 
 export const useFilecoinPinUpload = () => {
@@ -27,70 +107,301 @@ export const useFilecoinPinUpload = () => {
   const { config } = useStorageConfig();
   const { mutateAsync: depositAndApprove } = useDepositAndApprove();
   const phase = useUploadPhase();
+  const abortRef = useRef<AbortController | null>(null);
+  // Deletes the OPFS copy of the CAR once it is stored, or when the upload ends early
+  const carDisposeRef = useRef<(() => Promise<void>) | null>(null);
+
+  // Best-effort: a copy that cannot be deleted is swept as stale by a later build
+  const releaseCar = async () => {
+    const dispose = carDisposeRef.current;
+    carDisposeRef.current = null;
+    await dispose?.().catch(() => undefined);
+  };
+
+  // After commit: a check that breaks is recorded as a failed retrieval, not a failed pin
+  const runRetrievalCheck = async (
+    rootCid: string,
+    gatewayUrl: string,
+    expectedProviders: IpniExpectedProvider[],
+    signal?: AbortSignal,
+  ): Promise<RetrievalResult[]> => {
+    let retrieval: RetrievalResult[];
+    try {
+      const sources = gatewayUrl
+        ? [{ name: new URL(gatewayUrl).host, url: trustlessCarUrl(gatewayUrl, rootCid) }]
+        : expectedProviders.map((p) => ({
+            name: p.providerName,
+            url: trustlessCarUrl(p.serviceURL, rootCid),
+          }));
+      phase.activate(
+        "retrieve",
+        `Fetching the CAR from ${sources.map((s) => s.name).join(", ")}...`,
+      );
+      retrieval = await Promise.all(
+        sources.map((source) => checkCarRetrieval(rootCid, source, { signal })),
+      );
+    } catch (error) {
+      if (isUploadCancelled(error, signal)) throw error;
+      retrieval = [
+        {
+          source: gatewayUrl || "Providers",
+          url: gatewayUrl,
+          ok: false,
+          durationMs: 0,
+          error: getErrorMessage(error),
+        },
+      ];
+    }
+    const failed = retrieval.filter((r) => !r.ok);
+    if (failed.length > 0) {
+      phase.failStep("retrieve", failed.map((r) => `${r.source}: ${r.error}`).join(" · "));
+    } else {
+      phase.complete(
+        "retrieve",
+        retrieval.map((r) => `${r.source} in ${(r.durationMs / 1000).toFixed(1)} s`).join(" · "),
+      );
+    }
+    return retrieval;
+  };
 
   const mutation = useMutation({
     mutationKey: queryKeys.pinUpload(address, chainId),
-    mutationFn: async ({ copies, files }: UploadParams) => {
+    mutationFn: async ({
+      copies,
+      files,
+      job,
+      unixfs,
+      providerIds,
+      dataSetId,
+      metadata: tags,
+    }: UploadParams) => {
       if (!walletClient || !address || !chainId)
         throw new Error("Invalid wallet client or address or chain ID");
-      if (files.length === 0) throw new Error("No files selected");
+      // A resumed job whose CAR is already on the primary needs no input files
+      const carStored = !!job?.stored[0];
+      if (files.length === 0 && !carStored) throw new Error("No files selected");
+
+      const { signal } = (abortRef.current = new AbortController());
+
+      // A pre-built CAR is pinned as-is; it cannot be merged with other inputs
+      const carInput = files.length === 1 && isCarFile(files[0]) ? files[0] : undefined;
+      if (!carInput && files.some(isCarFile)) {
+        throw new Error("Pin a .car file on its own — it cannot be combined with other files");
+      }
+
+      const ipniSettings = useIpniStore.getState().settings;
+
+      // Build (or verify) the CAR file first
+      phase.start(
+        buildPinSteps({
+          importCar: !!carInput,
+          ipni: !ipniSettings.background,
+          retrieve: ipniSettings.retrievalCheck,
+        }),
+      );
 
-      // Build CAR file first
-      phase.start(PIN_STEPS);
+      // A resumed job rebuilds the CAR with the profile it was started with
+      const profile = job ? readUnixFsProfile(job.metadata) : (unixfs ?? DEFAULT_UNIXFS_PROFILE);
 
-      const { rootCid, carBytes, totalFiles, totalSize } = await buildCarFromFiles(files);
+      let carFile: UploadableFile;
+      let rootCid: string;
+      let totalFiles: number;
+      let totalSize: number;
 
-      phase.advance("car", "session");
+      if (job && carStored && job.ipfsRootCid) {
+        carFile = storedUploadPlaceholder(job.uploads[0]);
+        rootCid = job.ipfsRootCid;
+        totalFiles = job.inputs.length;
+        totalSize = job.inputs.reduce((acc, file) => acc + file.size, 0);
+        phase.skip("car");
+        phase.skip("hash");
+        phase.activate("session");
+      } else {
+        let car: Blob;
+        let carName: string;
+        if (carInput) {
+          ({ rootCid } = await verifyCarFile(carInput, {
+            signal,
+            onProgress: (sample) => phase.updateTransfer("car", sample),
+          }));
+          if (job && rootCid !== job.ipfsRootCid) {
+            throw new Error("Selected CAR does not match the interrupted upload");
+          }
+          car = carInput;
+          carName = carInput.name;
+          totalFiles = 1;
+          totalSize = carInput.size;
+        } else {
+          const built = await buildCarInWorker(files, {
+            profile,
+            signal,
+            onProgress: (sample) => phase.updateTransfer("car", sample),
+          });
+          if (job && built.rootCid !== job.ipfsRootCid) {
+            await built.dispose();
+            throw new Error("Selected files do not match the interrupted upload");
+          }
+          // The OPFS-backed Blob — the CAR is never copied into memory
+          car = built.car;
+          carName = `${built.rootCid}.car`;
+          carDisposeRef.current = built.dispose;
+          ({ rootCid, totalFiles, totalSize } = built);
+        }
+
+        // Hashed in the worker up front, so `store` does not hash on the main thread
+        let pieceCid = job?.uploads[0]?.pieceCid;
+        if (pieceCid) {
+          phase.complete("car");
+          phase.skip("hash");
+          phase.activate("session");
+        } else {
+          phase.advance("car", "hash");
+          pieceCid = await computeLocalPieceCid(car, {
+            signal,
+            onProgress: (sample) => phase.updateTransfer("hash", sample),
+          });
+          phase.advance("hash", "session");
+        }
+        carFile = { name: carName, size: car.size, pieceCid, stream: () => car.stream() };
+      }
 
       const synapse = await getSynapseClient();
+      throwIfCancelled(signal);
 
       phase.advance("session", "resolve");
 
-      const contexts = await synapse.storage.createContexts({
-        count: copies,
-        metadata: { ...APP_METADATA, withIPFSIndexing: "" },
-      });
+      const datasetTags = job ? job.datasetMetadata : tags?.dataset;
+      const contextMetadata = datasetMetadataFor("pin", datasetTags);
+      const contexts = job
+        ? await resumeContexts(synapse, job, { metadata: contextMetadata })
+        : await createUploadContexts(synapse, {
+            copies,
+            providerIds,
+            dataSetId,
+            metadata: contextMetadata,
+          });
+      throwIfCancelled(signal);
 
-      phase.advance("resolve", "calculate", "Calculating storage...");
-      const datasetsToCreate = contexts.filter((c) => c.dataSetId === undefined).length;
+      if (job) {
+        // Funds were checked before the interrupted session started storing
+        phase.complete("resolve");
+        phase.skip("calculate");
+        phase.skip("deposit");
+        phase.restoreProviders(job.progress);
+      } else {
+        phase.advance("resolve", "calculate", "Calculating storage...");
+        const datasetsToCreate = contexts.filter((c) => c.dataSetId === undefined).length;
 
-      // Storage metrics
-      const { isSufficient, depositNeeded } = await fetchStorageMetrics(
-        walletClient,
-        address,
-        config,
-        carBytes.length * copies,
-        { count: datasetsToCreate, withCDN: false },
-      );
+        // Storage metrics
+        const { isSufficient, depositNeeded } = await fetchStorageMetrics(
+          walletClient,
+          address,
+          config,
+          carFile.size * copies,
+          { count: datasetsToCreate, withCDN: false },
+        );
 
-      phase.complete("calculate");
+        phase.complete("calculate");
 
-      if (!isSufficient) {
-        phase.activate("deposit", "Depositing funds...");
-        await depositAndApprove({ amount: depositNeeded });
-        phase.complete("deposit");
-      } else {
-        phase.skip("deposit");
-      }
+        if (!isSufficient) {
+          phase.activate("deposit", "Depositing funds...");
+          await depositAndApprove({ amount: depositNeeded });
+          phase.complete("deposit");
+          throwIfCancelled(signal);
+        } else {
+          phase.skip("deposit");
+        }
 
-      // Resolve contexts
-      const carBlob = new Blob([carBytes.buffer as ArrayBuffer]);
-      const carFile = new File([carBlob], `${rootCid}.car`);
+        activateProviderUploadSteps(phase, contexts.length);
+      }
 
-      activateProviderUploadSteps(phase, contexts.length);
+      // Pre-built CARs have no known import profile
+      // A resumed commit must sign the tags the first session journaled
+      const metadata: Record<string, string> = {
+        ...(job ? readCustomMetadata(job.metadata) : tags?.piece),
+        ipfsRootCid: rootCid,
+      };
+      if (!carInput && profile) metadata[UNIXFS_METADATA_KEY] = encodeUnixFsProfile(profile);
+      const journal = job
+        ? createUploadJournal(job, reportJournalError)
+        : await startUploadJob({
+            scope: scopeKey(address, chainId),
+            mode: "pin",
+            copies,
+            inputs: files,
+            uploads: [carFile],
+            contexts,
+            progress: createProviderProgress(contexts.length),
+            metadata,
+            datasetMetadata: datasetTags,
+            ipfsRootCid: rootCid,
+            onPersistError: reportJournalError,
+          });
 
-      const { pieces, failures } = await uploadToContexts(contexts, [carFile], phase, {
-        metadata: { ipfsRootCid: rootCid },
+      const stored = await uploadToContexts(contexts, [carFile], phase, {
+        metadata,
+        journal,
+        signal,
+        replaceProvider: (excludeProviderIds) =>
+          createReplacementContext(synapse, excludeProviderIds, { metadata: contextMetadata }),
         onProviderError: (provider, msg) => {
           toast.error(`Provider ${provider.name} failed: ${msg}`);
         },
       });
+      const { pieces, failures } = stored;
 
-      // IPNI verification
-      toast.loading("Verifying IPNI advertisement...", { id: "pin-upload" });
-      const ipniSuccess = await waitForIpniProviderResults(CID.parse(rootCid));
-      if (!ipniSuccess) {
-        throw new Error("IPNI advertisement verification failed");
+      // Everything is committed — only IPNI verification is left, and a journal that cannot be
+      // cleared must not fail the pin
+      await deleteUploadJob(journal.job.id).catch(reportJournalError);
+      await releaseCar();
+
+      // IPNI verification — the pieces are committed, so a miss no longer fails the upload,
+      // and Cancel only stops the checks
+      // Every provider that committed the CAR should advertise it
+      const expectedProviders = stored.contexts.flatMap((ctx): IpniExpectedProvider[] => {
+        const providerId = ctx.provider.id.toString();
+        if (!pieces.some((p) => p.providers.some((u) => u.providerId === providerId))) return [];
+        const { serviceURL, ipniPeerId } = ctx.provider.pdp;
+        return [{ providerId, providerName: ctx.provider.name, serviceURL, peerId: ipniPeerId }];
+      });
+      let ipniStatus: IpniStatus = "pending";
+      let retrieval: RetrievalResult[] | undefined;
+      let checksCancelled = false;
+      try {
+        if (ipniSettings.background) {
+          runIpniVerification(rootCid, ipniSettings, expectedProviders)
+            .then((status) => notifyIpniResult(rootCid, status))
+            .catch((error) =>
+              toast.error(
+                `IPNI verification for ${truncate(rootCid)} stopped: ${getErrorMessage(error)}`,
+              ),
+            );
+        } else {
+          toast.loading("Verifying IPNI advertisement...", { id: "pin-upload" });
+          phase.activate("ipni", "Waiting for the indexers to list the root CID...");
+          ipniStatus = await runIpniVerification(rootCid, ipniSettings, expectedProviders, signal);
+          if (ipniStatus === "verified") phase.complete("ipni", "Listed by every indexer");
+          else phase.failStep("ipni", "The indexers do not list it yet — see Files for details");
+        }
+
+        // Retrieval check — the root fetched back as a CAR must be complete and match its CIDs
+        if (ipniSettings.retrievalCheck) {
+          retrieval = await runRetrievalCheck(
+            rootCid,
+            ipniSettings.gatewayUrl,
+            expectedProviders,
+            signal,
+          );
+        }
+      } catch (error) {
+        // Both checks record their own failures; the pin is committed whatever happens here
+        if (!isUploadCancelled(error, signal)) {
+          toast.error(`Checks after commit stopped: ${getErrorMessage(error)}`);
+        } else {
+          checksCancelled = true;
+          phase.cancelStep("ipni");
+          phase.cancelStep("retrieve");
+        }
       }
 
       return {
@@ -100,20 +411,42 @@ export const useFilecoinPinUpload = () => {
         copies,
         totalSize,
         ipfsRootCid: rootCid,
+        datasetMetadata: contextMetadata,
+        retrieval,
         hasFailures: failures.length > 0,
+        ipniStatus,
+        checksCancelled,
       };
     },
-    onSuccess: (data) => {
-      phase.finish({ kind: "pin", ...data });
-      if (data.hasFailures) {
+    onSuccess: (data, params) => {
+      phase.finish({ kind: "pin", ...data }, receiptDetailsFor("pin", params));
+      if (data.checksCancelled) {
+        toast.info("Pinned — the checks after commit were cancelled", { id: "pin-upload" });
+      } else if (data.hasFailures) {
         toast.warning("Pinned with some failures", { id: "pin-upload" });
+      } else if (data.ipniStatus === "failed") {
+        toast.warning("Pinned, but the IPNI indexers do not list it yet", { id: "pin-upload" });
+      } else if (data.retrieval?.some((r) => !r.ok)) {
+        toast.warning("Pinned, but the CAR could not be retrieved", { id: "pin-upload" });
       } else {
         toast.success("Pinned to Filecoin!", { id: "pin-upload" });
       }
       phase.invalidateAfterUpload();
     },
-    onError: (err) => {
-      phase.fail(getErrorMessage(err));
+    onError: (err, params) => {
+      void releaseCar();
+      phase.invalidateUploadJobs();
+      if (isUploadCancelled(err, abortRef.current?.signal)) {
+        const cancelled = err instanceof UploadCancelledError ? err : undefined;
+        phase.cancel(
+          cancelled?.uncommitted ?? [],
+          receiptDetailsFor("pin", params),
+          cancelled?.committed,
+        );
+        toast.info("Upload cancelled", { id: "pin-upload" });
+        return;
+      }
+      phase.fail(getErrorMessage(err), receiptDetailsFor("pin", params));
       toast.error(getErrorMessage(err), { id: "pin-upload" });
     },
   });
@@ -122,6 +455,8 @@ export const useFilecoinPinUpload = () => {
     upload: (params: UploadParams) => mutation.mutate(params),
     phase: phase.phase,
     isPending: mutation.isPending,
+    cancel: () => abortRef.current?.abort(),
+    updateResult: phase.updateResult,
     reset: () => {
       phase.reset();
       mutation.reset();
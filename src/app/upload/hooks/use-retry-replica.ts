@@ -0,0 +1,47 @@
+"use client";
+
+import { retryReplica, type RetryTarget } from "@/app/upload/lib";
+import type { ProviderFailure, ResultData } from "@/app/upload/types";
+import { getErrorMessage } from "@/lib";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useConnection } from "wagmi";
+import { queryKeys } from "@/lib/query-keys";
+import { getSynapseClient } from "@/lib/synapse-client";
+import { useStorageConfig } from "@/providers/storage-config";
+
+// ─── Retry a failed replica ──────────────────────────────────────────────────
+
+type RetryParams = {
+  result: ResultData;
+  failure: ProviderFailure;
+  target: RetryTarget;
+};
+
+export const useRetryReplica = () => {
+  const { address, chainId } = useConnection();
+  const queryClient = useQueryClient();
+  const { config } = useStorageConfig();
+
+  return useMutation({
+    mutationKey: queryKeys.retryReplica(address, chainId),
+    mutationFn: async ({ result, failure, target }: RetryParams) => {
+      const synapse = await getSynapseClient();
+      toast.loading(
+        target === "same"
+          ? `Retrying ${failure.providerName}...`
+          : "Replicating to a new provider...",
+        { id: "retry-replica" },
+      );
+      return retryReplica(synapse, result, failure, target);
+    },
+    onSuccess: (upload) => {
+      toast.success(`Replica committed on ${upload.providerName}`, { id: "retry-replica" });
+      queryClient.invalidateQueries({ queryKey: queryKeys.datasets(address, chainId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.balances(address, config, chainId) });
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), { id: "retry-replica" });
+    },
+  });
+};
@@ -0,0 +1,94 @@
+"use client";
+
+import { useMemo } from "react";
+import { addReplicas, computeLocalPieceCid } from "@/app/upload/lib";
+import { getErrorMessage, needsChunking } from "@/lib";
+import { useDataSets } from "@filoz/synapse-react";
+import { useMutation, useQueries, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useConnection } from "wagmi";
+import { computeUniquePieces, transformDatasets, type UniquePiece } from "@/lib/datasets";
+import { pluralize } from "@/lib/format";
+import { queryKeys } from "@/lib/query-keys";
+import { getSynapseClient } from "@/lib/synapse-client";
+import { useStorageConfig } from "@/providers/storage-config";
+
+// ─── Local dedup ─────────────────────────────────────────────────────────────
+
+export type StoredFileStatus = {
+  isChecking: boolean;
+  /** Set when the account already stores the file's PieceCID */
+  stored?: UniquePiece;
+};
+
+/**
+ * Hashes the selected files locally and matches their PieceCIDs against the
+ * account's datasets. Only meaningful when files are stored byte-for-byte —
+ * encrypted, compressed and chunked uploads produce other pieces.
+ */
+export const useStoredFiles = (files: File[], enabled: boolean): StoredFileStatus[] => {
+  const { address, chainId } = useConnection();
+  const { data: raw } = useDataSets({ address });
+
+  const storedPieces = useMemo(() => {
+    if (!chainId) return new Map<string, UniquePiece>();
+    return new Map(computeUniquePieces(transformDatasets(raw)).map((p) => [p.pieceCid, p]));
+  }, [raw, chainId]);
+
+  const pieceCids = useQueries({
+    queries: files.map((file) => ({
+      queryKey: queryKeys.localPieceCid(
+        file.name,
+        file.size,
+        file.lastModified,
+        file.webkitRelativePath,
+      ),
+      queryFn: () => computeLocalPieceCid(file),
+      enabled: enabled && !!address && !needsChunking(file.size),
+      // A file's PieceCID never changes
+      staleTime: Infinity,
+    })),
+  });
+
+  return files.map((_, i) => {
+    const pieceCid = enabled ? pieceCids[i]?.data : undefined;
+    return {
+      isChecking: enabled && !!pieceCids[i]?.isFetching,
+      stored: pieceCid ? storedPieces.get(pieceCid) : undefined,
+    };
+  });
+};
+
+// ─── Missing replicas of a stored file ───────────────────────────────────────
+
+type AddReplicasParams = { stored: UniquePiece; count: number };
+
+export const useAddReplicas = () => {
+  const { address, chainId } = useConnection();
+  const queryClient = useQueryClient();
+  const { config } = useStorageConfig();
+
+  return useMutation({
+    mutationKey: queryKeys.addReplicas(address, chainId),
+    mutationFn: async ({ stored, count }: AddReplicasParams) => {
+      const synapse = await getSynapseClient();
+      toast.loading(`Adding ${count} ${pluralize(count, "replica")}...`, {
+        id: `add-replicas-${stored.pieceCid}`,
+      });
+      return addReplicas(synapse, stored, count);
+    },
+    onSuccess: (uploads, { stored }) => {
+      toast.success(`Replicated to ${uploads.map((u) => u.providerName).join(", ")}`, {
+        id: `add-replicas-${stored.pieceCid}`,
+      });
+    },
+    onError: (error, { stored }) => {
+      toast.error(getErrorMessage(error), { id: `add-replicas-${stored.pieceCid}` });
+    },
+    // Some replicas may have committed before another one failed
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.datasets(address, chainId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.balances(address, config, chainId) });
+    },
+  });
+};
@@ -0,0 +1,70 @@
+"use client";
+
+import { useServicePrice } from "@filoz/synapse-react";
+import { useQuery } from "@tanstack/react-query";
+import { useConnection, usePublicClient } from "wagmi";
+import { queryKeys } from "@/lib/query-keys";
+import {
+  computeCompressionSavings,
+  computeUploadCostPreview,
+  fetchStorageMetrics,
+} from "@/lib/storage-metrics";
+import { useStorageConfig } from "@/providers/storage-config";
+
+/**
+ * Live cost and funding estimate for the uploader. Fed the bytes each copy
+ * takes once prepared (encrypted, bundled or packed into a CAR), so the
+ * funding check runs on the same total as the "calculate" step and the
+ * deposit prompt is expected.
+ */
+export const useUploadEstimate = (params: {
+  /** Bytes providers store for one copy */
+  bytesPerCopy: number;
+  copies: number;
+  newDatasets: number;
+  withCDN: boolean;
+  /** One copy before and after compression, when compression is on */
+  compression?: { originalBytes: number; compressedBytes: number };
+}) => {
+  const { bytesPerCopy, copies, newDatasets, withCDN, compression } = params;
+  const storedBytes = bytesPerCopy * copies;
+  const { config } = useStorageConfig();
+  const { address, chainId } = useConnection();
+  const publicClient = usePublicClient();
+  const { data: pricing } = useServicePrice();
+
+  const funding = useQuery({
+    enabled: !!address && storedBytes > 0,
+    queryKey: queryKeys.uploadEstimate(address, config, chainId, storedBytes, newDatasets, withCDN),
+    queryFn: () => {
+      if (!publicClient) throw new Error("Public client not found");
+      if (!address) throw new Error("Address not found");
+      return fetchStorageMetrics(publicClient, address, config, storedBytes, {
+        count: newDatasets,
+        withCDN,
+      });
+    },
+  });
+
+  return {
+    // Each copy lands in a dataset of its own
+    cost: pricing
+      ? computeUploadCostPreview(
+          Array.from({ length: copies }, () => bytesPerCopy),
+          newDatasets,
+          withCDN,
+          pricing,
+        )
+      : undefined,
+    savings:
+      compression &&
+      computeCompressionSavings(
+        compression.originalBytes,
+        compression.compressedBytes,
+        copies,
+        pricing,
+      ),
+    funding: funding.data,
+    isLoading: !pricing || funding.isLoading,
+  };
+};
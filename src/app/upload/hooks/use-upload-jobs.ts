@@ -0,0 +1,44 @@
+"use client";
+
+import { deleteUploadJob, listUploadJobs } from "@/app/upload/lib";
+import type { UploadJob } from "@/app/upload/types";
+import { getErrorMessage, scopeKey } from "@/lib";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useConnection } from "wagmi";
+import { queryKeys } from "@/lib/query-keys";
+
+// ─── Interrupted upload jobs ─────────────────────────────────────────────────
+
+export const useUploadJobs = () => {
+  const { address, chainId } = useConnection();
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.uploadJobs(address, chainId);
+
+  const query = useQuery<UploadJob[]>({
+    enabled: !!address && !!chainId,
+    queryKey,
+    queryFn: () => {
+      if (!address || !chainId) throw new Error("Address or chain ID not found");
+      return listUploadJobs(scopeKey(address, chainId));
+    },
+  });
+
+  const discard = useMutation({
+    mutationFn: (job: UploadJob) => deleteUploadJob(job.id),
+    onSuccess: () => {
+      toast.success("Interrupted upload discarded");
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  return {
+    jobs: query.data ?? [],
+    isLoading: query.isLoading,
+    discard: discard.mutate,
+    isDiscarding: discard.isPending,
+  };
+};
@@ -1,31 +1,92 @@
 "use client";
 
-import { useState } from "react";
-import type { ProviderProgress, StepId, UploadPhase, UploadStep } from "@/app/upload/types";
-import { config } from "@/lib";
+import { useRef, useState } from "react";
+import { nextTransfer, transferFraction } from "@/app/upload/lib";
+import type {
+  PieceResult,
+  ProviderProgress,
+  ResultData,
+  StepId,
+  TransferSample,
+  UncommittedWork,
+  UploadJob,
+  UploadMode,
+  UploadPhase,
+  UploadStep,
+} from "@/app/upload/types";
+import {
+  computeUploadCostPreview,
+  config,
+  getErrorMessage,
+  receiptDatasetSizes,
+  receiptStatus,
+  receiptStoredSize,
+  toReceiptFailures,
+  toReceiptPieces,
+  type ContentEncoding,
+  type CustomMetadata,
+  type EncryptionKeyInput,
+  type UnixFsProfile,
+  type UploadReceipt,
+} from "@/lib";
+import { useServicePrice } from "@filoz/synapse-react";
 import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { useConnection } from "wagmi";
 import { queryKeys } from "@/lib/query-keys";
 import { useStorageConfig } from "@/providers/storage-config";
+import { useUploadHistoryStore } from "@/providers/upload-history";
 
 // ─── Step templates ──────────────────────────────────────────────────────────
 
 type StepTemplate = Pick<UploadStep, "id" | "label">;
 
-export const UPLOAD_STEPS: StepTemplate[] = [
-  { id: "session", label: "Session key" },
-  { id: "resolve", label: "Resolve providers" },
-  { id: "calculate", label: "Calculate storage" },
-  { id: "deposit", label: "Deposit funds" },
-];
+/**
+ * Steps of a standard/CDN/encrypted upload. Compression runs first, the key
+ * is unlocked once the session exists, and large files are split (and their
+ * chunks hashed) before storage is calculated for the resulting pieces.
+ * With retrieval verification on, the committed pieces are read back last.
+ */
+export function buildUploadSteps(options: {
+  compress?: boolean;
+  encrypt?: boolean;
+  chunk?: boolean;
+  verify?: boolean;
+}): StepTemplate[] {
+  return [
+    ...(options.compress ? [{ id: "compress", label: "Compress files" } as const] : []),
+    { id: "session", label: "Session key" },
+    ...(options.encrypt ? [{ id: "encrypt", label: "Unlock encryption key" } as const] : []),
+    ...(options.chunk ? [{ id: "chunk", label: "Split large files" } as const] : []),
+    { id: "resolve", label: "Resolve providers" },
+    { id: "calculate", label: "Calculate storage" },
+    { id: "deposit", label: "Deposit funds" },
+    ...(options.verify ? [{ id: "verify", label: "Verify retrieval" } as const] : []),
+  ];
+}
 
-export const PIN_STEPS: StepTemplate[] = [
-  { id: "car", label: "Build CAR file" },
-  { id: "session", label: "Session key" },
-  { id: "resolve", label: "Resolve providers" },
-  { id: "calculate", label: "Calculate storage" },
-  { id: "deposit", label: "Deposit funds" },
-];
+/**
+ * Pin mode builds a CAR from the files, or verifies a pre-built `.car` input.
+ * Once committed, the IPNI wait (unless it runs in the background) and the
+ * retrieval check follow.
+ */
+export function buildPinSteps(options: {
+  importCar?: boolean;
+  /** IPNI verification blocks the upload */
+  ipni?: boolean;
+  retrieve?: boolean;
+}): StepTemplate[] {
+  return [
+    { id: "car", label: options.importCar ? "Verify CAR file" : "Build CAR file" },
+    { id: "hash", label: "Calculate PieceCID" },
+    { id: "session", label: "Session key" },
+    { id: "resolve", label: "Resolve providers" },
+    { id: "calculate", label: "Calculate storage" },
+    { id: "deposit", label: "Deposit funds" },
+    ...(options.ipni ? [{ id: "ipni", label: "Verify IPNI advertisement" } as const] : []),
+    ...(options.retrieve ? [{ id: "retrieve", label: "Check retrieval" } as const] : []),
+  ];
+}
 
 const PRIMARY_PROVIDER_STEPS: StepTemplate[] = [
   { id: "upload", label: "Upload pieces" },
@@ -39,14 +100,75 @@ const SECONDARY_PROVIDER_STEPS: StepTemplate[] = [
 
 export const APP_METADATA = { DAPPID: config.dappId } as const;
 
+/** Dataset metadata of an upload; the SDK only reuses a dataset whose metadata matches exactly. */
+export function datasetMetadataFor(
+  mode: UploadMode,
+  tags?: Record<string, string>,
+): Record<string, string> {
+  return {
+    ...tags,
+    ...APP_METADATA,
+    ...(mode === "cdn" && { withCDN: "" }),
+    ...(mode === "pin" && { withIPFSIndexing: "" }),
+  };
+}
+
 export type UploadParams = {
   copies: number;
   files: File[];
+  /** Per copy: a pinned provider ID, or null to let the SDK choose */
+  providerIds?: (string | null)[];
+  /** Existing dataset the primary copy is added to */
+  dataSetId?: string;
   withCDN?: boolean;
+  /** Compress files before storing (standard, CDN and encrypted modes) */
+  compression?: ContentEncoding;
+  /** Standard mode: pack small files into bundle pieces */
+  bundle?: boolean;
+  /** Standard, CDN and encrypted modes: read the pieces back from each provider once committed */
+  verifyRetrieval?: boolean;
+  /** Encrypted mode: how the AES key is obtained */
+  encryption?: EncryptionKeyInput;
+  /** Custom tags; dataset tags also steer which existing dataset is reused */
+  metadata?: CustomMetadata;
+  /** Pin mode: UnixFS import settings for the CAR */
+  unixfs?: UnixFsProfile;
+  /** Continue a job saved in IndexedDB instead of starting a new upload */
+  job?: UploadJob;
 };
 
 type UploadPhaseController = ReturnType<typeof useUploadPhase>;
 
+/** What the history receipt of an upload records besides its result */
+export interface ReceiptDetails {
+  mode: UploadMode;
+  copies: number;
+  files: { name: string; size: number }[];
+}
+
+type ReceiptFields = Omit<
+  UploadReceipt,
+  keyof ReceiptDetails | "id" | "address" | "chainId" | "createdAt"
+>;
+
+export function receiptDetailsFor(kind: ResultData["kind"], params: UploadParams): ReceiptDetails {
+  const { job, files, copies, withCDN, encryption } = params;
+  return {
+    mode:
+      job?.mode ??
+      (kind === "pin" ? "pin" : withCDN ? "cdn" : encryption ? "encrypted" : "standard"),
+    copies: job?.copies ?? copies,
+    files: (job ? job.inputs : files).map(({ name, size }) => ({ name, size })),
+  };
+}
+
+/** A journal write failed — the upload goes on, but may not resume from its latest checkpoint. */
+export function reportJournalError(error: unknown) {
+  toast.error(`Upload progress could not be saved: ${getErrorMessage(error)}`, {
+    id: "upload-journal",
+  });
+}
+
 export function activateProviderUploadSteps(
   phase: Pick<UploadPhaseController, "initProviders" | "updateProvider">,
   providerCount: number,
@@ -63,14 +185,30 @@ function toStep(template: StepTemplate, status: UploadStep["status"] = "pending"
   return { ...template, status };
 }
 
+export function createProviderProgress(count: number): ProviderProgress[] {
+  return Array.from({ length: count }, (_, i) => ({
+    label: `Provider ${i + 1}`,
+    steps: (i === 0 ? PRIMARY_PROVIDER_STEPS : SECONDARY_PROVIDER_STEPS).map((t) => toStep(t)),
+  }));
+}
+
 function calculateProgress(steps: UploadStep[], providers: ProviderProgress[]): number {
   const allSteps = [...steps, ...providers.flatMap((p) => p.steps)];
   const total = allSteps.length;
   if (total === 0) return 0;
-  const done = allSteps.filter((s) => s.status === "done" || s.status === "skipped").length;
+  // Steps moving bytes count fractionally, so long transfers don't sit at one percentage
+  const done = allSteps.reduce((acc, s) => {
+    if (s.status === "done" || s.status === "skipped") return acc + 1;
+    if (s.status === "active" && s.transfer) return acc + transferFraction(s.transfer);
+    return acc;
+  }, 0);
   return Math.round((done / total) * 100);
 }
 
+function withTransfer(step: UploadStep, sample: TransferSample, now: number): UploadStep {
+  return { ...step, transfer: nextTransfer(step.transfer, sample, now) };
+}
+
 function withActive(
   phase: UploadPhase,
   fn: (p: Extract<UploadPhase, { phase: "active" }>) => UploadPhase,
@@ -85,6 +223,12 @@ export function useUploadPhase() {
   const queryClient = useQueryClient();
   const { address, chainId } = useConnection();
   const { config } = useStorageConfig();
+  const { data: pricing } = useServicePrice();
+  const addReceipt = useUploadHistoryStore((s) => s.add);
+  const updateReceipt = useUploadHistoryStore((s) => s.update);
+  // The receipt follows the result shown on screen, retried replicas included
+  const receiptRef = useRef<UploadReceipt | null>(null);
+  const resultRef = useRef<ResultData | null>(null);
 
   const start = (templates: StepTemplate[]) =>
     setPhase({
@@ -106,11 +250,11 @@ export function useUploadPhase() {
       }),
     );
 
-  const complete = (stepId: StepId) =>
+  const complete = (stepId: StepId, detail?: string) =>
     setPhase((p) =>
       withActive(p, (a) => {
         const steps = a.steps.map((s) =>
-          s.id === stepId ? { ...s, status: "done" as const, detail: undefined } : s,
+          s.id === stepId ? { ...s, status: "done" as const, detail } : s,
         );
         return { ...a, steps, progress: calculateProgress(steps, a.providers) };
       }),
@@ -126,6 +270,30 @@ export function useUploadPhase() {
       }),
     );
 
+  // A failed check that does not stop the upload, e.g. the retrieval check
+  const failStep = (stepId: StepId, error: string) =>
+    setPhase((p) =>
+      withActive(p, (a) => {
+        const steps = a.steps.map((s) =>
+          s.id === stepId ? { ...s, status: "failed" as const, detail: undefined, error } : s,
+        );
+        return { ...a, steps, progress: calculateProgress(steps, a.providers) };
+      }),
+    );
+
+  // Cancel after commit: the upload stands, only this check is stopped
+  const cancelStep = (stepId: StepId) =>
+    setPhase((p) =>
+      withActive(p, (a) => {
+        const steps = a.steps.map((s) =>
+          s.id === stepId && (s.status === "active" || s.status === "pending")
+            ? { ...s, status: "cancelled" as const, detail: undefined }
+            : s,
+        );
+        return { ...a, steps, progress: calculateProgress(steps, a.providers) };
+      }),
+    );
+
   const activate = (stepId: StepId, detail?: string) =>
     setPhase((p) =>
       withActive(p, (a) => ({
@@ -135,16 +303,20 @@ export function useUploadPhase() {
     );
 
   const initProviders = (count: number) =>
+    setPhase((p) => withActive(p, (a) => ({ ...a, providers: createProviderProgress(count) })));
+
+  // Resumed jobs: anything left "active" by the crashed session is pending again
+  const restoreProviders = (providers: ProviderProgress[]) =>
     setPhase((p) =>
-      withActive(p, (a) => ({
-        ...a,
-        providers: Array.from({ length: count }, (_, i) => ({
-          label: `Provider ${i + 1}`,
-          steps: (i === 0 ? PRIMARY_PROVIDER_STEPS : SECONDARY_PROVIDER_STEPS).map((t) =>
-            toStep(t),
+      withActive(p, (a) => {
+        const restored = providers.map((prov) => ({
+          ...prov,
+          steps: prov.steps.map((s) =>
+            s.status === "active" ? { ...s, status: "pending" as const } : s,
           ),
-        })),
-      })),
+        }));
+        return { ...a, providers: restored, progress: calculateProgress(a.steps, restored) };
+      }),
     );
 
   const updateProvider = (idx: number, stepId: StepId, update: Partial<UploadStep>) =>
@@ -159,13 +331,127 @@ export function useUploadPhase() {
       }),
     );
 
-  const finish = (result: Extract<UploadPhase, { phase: "done" }>["result"]) =>
+  // Failover: a secondary takes over the primary role, so its timeline switches templates
+  const promoteProvider = (idx: number): UploadStep[] => {
+    const steps = PRIMARY_PROVIDER_STEPS.map((t) =>
+      toStep(t, t.id === "upload" ? "active" : "pending"),
+    );
+    setPhase((p) =>
+      withActive(p, (a) => {
+        const providers = a.providers.map((prov, i) =>
+          i === idx ? { label: `${prov.label} (promoted to primary)`, steps } : prov,
+        );
+        return { ...a, providers, progress: calculateProgress(a.steps, providers) };
+      }),
+    );
+    return steps;
+  };
+
+  // Failover replacement: a new secondary joins after the existing providers
+  const addProvider = (label: string): ProviderProgress => {
+    const progress = { label, steps: SECONDARY_PROVIDER_STEPS.map((t) => toStep(t)) };
+    setPhase((p) =>
+      withActive(p, (a) => {
+        const providers = [...a.providers, progress];
+        return { ...a, providers, progress: calculateProgress(a.steps, providers) };
+      }),
+    );
+    return progress;
+  };
+
+  // Byte-level progress — kept apart from `updateProvider` so journals don't persist every chunk
+  const updateTransfer = (stepId: StepId, sample: TransferSample) => {
+    const now = Date.now();
+    setPhase((p) =>
+      withActive(p, (a) => {
+        const steps = a.steps.map((s) => (s.id === stepId ? withTransfer(s, sample, now) : s));
+        return { ...a, steps, progress: calculateProgress(steps, a.providers) };
+      }),
+    );
+  };
+
+  const updateProviderTransfer = (idx: number, stepId: StepId, sample: TransferSample) => {
+    const now = Date.now();
+    setPhase((p) =>
+      withActive(p, (a) => {
+        const providers = a.providers.map((prov, i) =>
+          i === idx
+            ? {
+                ...prov,
+                steps: prov.steps.map((s) => (s.id === stepId ? withTransfer(s, sample, now) : s)),
+              }
+            : prov,
+        );
+        return { ...a, providers, progress: calculateProgress(a.steps, providers) };
+      }),
+    );
+  };
+
+  const receiptFields = (result: ResultData, mode: UploadMode): ReceiptFields => {
+    const pieces = toReceiptPieces(result.pieces);
+    const failures = toReceiptFailures(result.failures);
+    const storedSize = receiptStoredSize(pieces);
+    return {
+      // Cancel after commit only stops the checks, so the pieces are kept
+      status: result.checksCancelled ? "cancelled" : receiptStatus(pieces, failures),
+      totalSize: result.totalSize,
+      storedSize,
+      monthlyCost:
+        pricing &&
+        computeUploadCostPreview(receiptDatasetSizes(pieces), 0, mode === "cdn", pricing)
+          .monthlyRateStr,
+      ipfsRootCid: result.ipfsRootCid,
+      pieces,
+      failures,
+    };
+  };
+
+  const record = (details: ReceiptDetails, fields: ReceiptFields) => {
+    if (!address || !chainId) return;
+    const receipt = {
+      id: crypto.randomUUID(),
+      address,
+      chainId,
+      createdAt: Date.now(),
+      ...details,
+      ...fields,
+    };
+    addReceipt(receipt);
+    receiptRef.current = receipt;
+  };
+
+  const finish = (
+    result: Extract<UploadPhase, { phase: "done" }>["result"],
+    details: ReceiptDetails,
+  ) => {
     setPhase((p) => {
       if (p.phase !== "active") return p;
       return { phase: "done", steps: p.steps, providers: p.providers, result };
     });
+    resultRef.current = result;
+    record(details, receiptFields(result, details.mode));
+  };
 
-  const fail = (error: string) =>
+  // Results stay editable after the upload — e.g. when a failed replica is retried
+  const updateResult = (fn: (result: ResultData) => ResultData) => {
+    if (!resultRef.current) return;
+    const result = fn(resultRef.current);
+    resultRef.current = result;
+    setPhase((p) => (p.phase === "done" ? { ...p, result } : p));
+    if (receiptRef.current) {
+      updateReceipt(receiptRef.current, receiptFields(result, receiptRef.current.mode));
+    }
+  };
+
+  const fail = (error: string, details: ReceiptDetails) => {
+    record(details, {
+      status: "failed",
+      totalSize: details.files.reduce((sum, f) => sum + f.size, 0),
+      storedSize: 0,
+      pieces: [],
+      failures: [],
+      error,
+    });
     setPhase((p) => {
       const base =
         p.phase === "active" || p.phase === "done" || p.phase === "failed"
@@ -173,26 +459,81 @@ export function useUploadPhase() {
           : { steps: [] as UploadStep[], providers: [] as ProviderProgress[] };
       return { phase: "failed", steps: base.steps, providers: base.providers, error };
     });
+  };
+
+  // Interrupted steps show as "cancelled"; finished and pending ones keep their status
+  const cancel = (
+    uncommitted: UncommittedWork[],
+    details: ReceiptDetails,
+    committed: PieceResult[] = [],
+  ) => {
+    const pieces = toReceiptPieces(committed);
+    record(details, {
+      status: "cancelled",
+      totalSize: details.files.reduce((sum, f) => sum + f.size, 0),
+      storedSize: receiptStoredSize(pieces),
+      monthlyCost:
+        pricing && pieces.length > 0
+          ? computeUploadCostPreview(
+              receiptDatasetSizes(pieces),
+              0,
+              details.mode === "cdn",
+              pricing,
+            ).monthlyRateStr
+          : undefined,
+      pieces,
+      failures: [],
+    });
+    setPhase((p) => {
+      if (p.phase !== "active") return p;
+      const interrupt = (s: UploadStep): UploadStep =>
+        s.status === "active" ? { ...s, status: "cancelled", detail: undefined } : s;
+      return {
+        phase: "cancelled",
+        steps: p.steps.map(interrupt),
+        providers: p.providers.map((prov) => ({ ...prov, steps: prov.steps.map(interrupt) })),
+        uncommitted,
+      };
+    });
+  };
 
-  const reset = () => setPhase({ phase: "idle" });
+  const reset = () => {
+    receiptRef.current = null;
+    resultRef.current = null;
+    setPhase({ phase: "idle" });
+  };
 
   const invalidateAfterUpload = () => {
     queryClient.invalidateQueries({ queryKey: queryKeys.balances(address, config, chainId) });
     queryClient.invalidateQueries({ queryKey: queryKeys.datasets(address, chainId) });
+    invalidateUploadJobs();
   };
 
+  const invalidateUploadJobs = () =>
+    queryClient.invalidateQueries({ queryKey: queryKeys.uploadJobs(address, chainId) });
+
   return {
     phase,
     start,
     advance,
     complete,
     skip,
+    failStep,
+    cancelStep,
     activate,
     initProviders,
+    restoreProviders,
     updateProvider,
+    promoteProvider,
+    addProvider,
+    updateTransfer,
+    updateProviderTransfer,
     finish,
+    updateResult,
     fail,
+    cancel,
     reset,
     invalidateAfterUpload,
+    invalidateUploadJobs,
   };
 }
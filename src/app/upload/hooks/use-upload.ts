@@ -1,103 +1,345 @@
 "use client";
 
-import { uploadToContexts } from "@/app/upload/lib";
-import { getErrorMessage } from "@/lib";
-import { useDepositAndApprove } from "@filoz/synapse-react";
-import { useMutation } from "@tanstack/react-query";
+import { useRef } from "react";
+import {
+  compressFiles,
+  createReplacementContext,
+  createUploadContexts,
+  createUploadJournal,
+  deleteUploadJob,
+  isUploadCancelled,
+  prepareUploads,
+  resumeContexts,
+  startUploadJob,
+  throwIfCancelled,
+  UploadCancelledError,
+  uploadToContexts,
+  verifyPieceRetrieval,
+  type UploadCompression,
+  type UploadEncryption,
+} from "@/app/upload/lib";
+import type { ResultData, StepId, UploadJob } from "@/app/upload/types";
+import {
+  createEncryptionParams,
+  getErrorMessage,
+  needsChunking,
+  scopeKey,
+  type EncryptionKeyInput,
+} from "@/lib";
+import { useDepositAndApprove, useServicePrice } from "@filoz/synapse-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { useConnection, useWalletClient } from "wagmi";
+import { formatFileSize, pluralize } from "@/lib/format";
 import { queryKeys } from "@/lib/query-keys";
-import { fetchStorageMetrics } from "@/lib/storage-metrics";
+import { computeCompressionSavings, fetchStorageMetrics } from "@/lib/storage-metrics";
 import { getSynapseClient } from "@/lib/synapse-client";
+import { useEncryptionKey } from "@/hooks/use-encryption-key";
 import { useStorageConfig } from "@/providers/storage-config";
+import { compressedSizeKey } from "./use-compressed-sizes";
 import {
   activateProviderUploadSteps,
-  APP_METADATA,
-  UPLOAD_STEPS,
+  buildUploadSteps,
+  createProviderProgress,
+  datasetMetadataFor,
+  receiptDetailsFor,
+  reportJournalError,
   UploadParams,
   useUploadPhase,
 } from "./use-upload-phase";
 
-// ─── Standard / CDN upload ───────────────────────────────────────────────────
+// ─── Standard / CDN / encrypted upload ───────────────────────────────────────
+
+/** The upload key, with the verifier the journal keeps to check it on resume */
+type UnlockedEncryption = UploadEncryption & { verifier: string };
 
 export const useUpload = () => {
   const { address, chainId } = useConnection();
   const { data: walletClient } = useWalletClient();
   const { config } = useStorageConfig();
   const { mutateAsync: depositAndApprove } = useDepositAndApprove();
+  const { data: pricing } = useServicePrice();
+  const { deriveKeyWithVerifier } = useEncryptionKey();
   const phase = useUploadPhase();
+  const queryClient = useQueryClient();
+  const abortRef = useRef<AbortController | null>(null);
+
+  /** Derives the upload key; a resumed job must be unlocked with the key it started with. */
+  const unlockEncryption = async (
+    input: EncryptionKeyInput,
+    job?: UploadJob,
+  ): Promise<UnlockedEncryption> => {
+    const params = createEncryptionParams(input.kdf);
+    if (job?.encryption) params.salt = job.encryption.salt;
+    const { key, verifier } = await deriveKeyWithVerifier(input, params);
+    if (job?.encryption && verifier !== job.encryption.verifier) {
+      throw new Error("This key does not match the one the interrupted upload was started with");
+    }
+    return { key, params, verifier };
+  };
 
   const mutation = useMutation({
     mutationKey: queryKeys.upload(address, chainId),
-    mutationFn: async ({ copies, files, withCDN }: UploadParams) => {
+    mutationFn: async ({
+      copies,
+      files,
+      withCDN,
+      compression,
+      bundle,
+      verifyRetrieval,
+      encryption,
+      job,
+      providerIds,
+      dataSetId,
+      metadata: tags,
+    }: UploadParams) => {
       if (!walletClient || !address || !chainId)
         throw new Error("Invalid wallet client or address or chain ID");
 
-      phase.start(UPLOAD_STEPS);
+      const { signal } = (abortRef.current = new AbortController());
+
+      // Resumed jobs compress on the fly and reuse the journaled chunks
+      const shouldCompress = !!compression && !job;
+      const shouldChunk = !job && files.some((f) => needsChunking(f.size));
+      phase.start(
+        buildUploadSteps({
+          compress: shouldCompress,
+          encrypt: !!encryption,
+          chunk: shouldChunk,
+          verify: verifyRetrieval,
+        }),
+      );
+
+      let uploadCompression: UploadCompression | undefined;
+      let compressionResult: ResultData["compression"];
+      if (shouldCompress) {
+        const sizes = await compressFiles(files, compression, {
+          signal,
+          onProgress: (sample) => phase.updateTransfer("compress", sample),
+          knownSizes: files.map((f) =>
+            queryClient.getQueryData<number>(compressedSizeKey(f, compression)),
+          ),
+        });
+        uploadCompression = { encoding: compression, sizes };
+        const originalSize = files.reduce((acc, f) => acc + f.size, 0);
+        const compressedSize = files.reduce((acc, f, i) => acc + (sizes[i] ?? f.size), 0);
+        const { savedPercent, perMonthSavedStr } = computeCompressionSavings(
+          originalSize,
+          compressedSize,
+          copies,
+          pricing,
+        );
+        compressionResult = { originalSize, storedSize: compressedSize };
+        phase.advance("compress", "session");
+        // Keeps the savings visible in the timeline once the step is done
+        phase.complete(
+          "compress",
+          `${formatFileSize(originalSize)} → ${formatFileSize(compressedSize)} (−${savedPercent.toFixed(0)}%)` +
+            (perMonthSavedStr ? ` · saves ~${perMonthSavedStr} USDFC/month` : ""),
+        );
+      }
 
       const synapse = await getSynapseClient();
+      throwIfCancelled(signal);
 
-      phase.advance("session", "resolve");
+      let current: StepId = "session";
+      let uploadEncryption: UnlockedEncryption | undefined;
+      if (encryption) {
+        phase.advance(
+          current,
+          "encrypt",
+          encryption.kdf === "wallet" ? "Sign the message in your wallet..." : "Deriving key...",
+        );
+        uploadEncryption = await unlockEncryption(encryption, job);
+        throwIfCancelled(signal);
+        current = "encrypt";
+      }
 
-      const contexts = await synapse.storage.createContexts({
-        count: copies,
-        metadata: withCDN ? { ...APP_METADATA, withCDN: "" } : APP_METADATA,
-        withCDN,
+      if (shouldChunk) {
+        phase.advance(current, "chunk", "Hashing chunks...");
+        current = "chunk";
+      }
+      const uploads = await prepareUploads(files, {
+        job,
+        encryption: uploadEncryption,
+        compression: uploadCompression,
+        bundle,
+        metadata: tags?.piece,
+        signal,
+        onChunkProgress: (sample) => phase.updateTransfer("chunk", sample),
       });
+      throwIfCancelled(signal);
+      phase.advance(current, "resolve");
 
-      phase.advance("resolve", "calculate", "Calculating storage...");
-      const datasetsToCreate = contexts.filter((c) => c.dataSetId === undefined).length;
+      const datasetTags = job ? job.datasetMetadata : tags?.dataset;
+      const contextMetadata = datasetMetadataFor(withCDN ? "cdn" : "standard", datasetTags);
+      const contexts = job
+        ? await resumeContexts(synapse, job, { metadata: contextMetadata, withCDN })
+        : await createUploadContexts(synapse, {
+            copies,
+            providerIds,
+            dataSetId,
+            metadata: contextMetadata,
+            withCDN,
+          });
+      throwIfCancelled(signal);
 
-      const totalSize = files.reduce((acc, file) => acc + file.size, 0);
+      const totalSize = job
+        ? job.inputs.reduce((acc, file) => acc + file.size, 0)
+        : files.reduce((acc, file) => acc + file.size, 0);
+      // What providers store: compressed, encrypted and chunked bytes, manifests included
+      const storedSize = uploads.reduce((acc, u) => acc + u.size, 0);
 
-      // Storage metrics
-      const { isSufficient, depositNeeded } = await fetchStorageMetrics(
-        walletClient,
-        address,
-        config,
-        totalSize * copies,
-        { count: datasetsToCreate, withCDN: !!withCDN },
-      );
+      if (job) {
+        // Funds were checked before the interrupted session started storing
+        phase.complete("resolve");
+        phase.skip("calculate");
+        phase.skip("deposit");
+        phase.restoreProviders(job.progress);
+      } else {
+        phase.advance("resolve", "calculate", "Calculating storage...");
+        const datasetsToCreate = contexts.filter((c) => c.dataSetId === undefined).length;
 
-      phase.complete("calculate");
+        // Storage metrics
+        const { isSufficient, depositNeeded } = await fetchStorageMetrics(
+          walletClient,
+          address,
+          config,
+          storedSize * copies,
+          { count: datasetsToCreate, withCDN: !!withCDN },
+        );
 
-      if (!isSufficient) {
-        phase.activate("deposit", "Depositing funds...");
-        await depositAndApprove({ amount: depositNeeded });
-        phase.complete("deposit");
-      } else {
-        phase.skip("deposit");
+        phase.complete("calculate");
+
+        if (!isSufficient) {
+          phase.activate("deposit", "Depositing funds...");
+          await depositAndApprove({ amount: depositNeeded });
+          phase.complete("deposit");
+          throwIfCancelled(signal);
+        } else {
+          phase.skip("deposit");
+        }
+
+        activateProviderUploadSteps(phase, contexts.length);
       }
 
-      activateProviderUploadSteps(phase, contexts.length);
+      const journal = job
+        ? createUploadJournal(job, reportJournalError)
+        : await startUploadJob({
+            scope: scopeKey(address, chainId),
+            mode: withCDN ? "cdn" : encryption ? "encrypted" : "standard",
+            copies,
+            inputs: files,
+            uploads,
+            contexts,
+            progress: createProviderProgress(contexts.length),
+            datasetMetadata: datasetTags,
+            encryption: uploadEncryption && {
+              kdf: uploadEncryption.params.kdf,
+              salt: uploadEncryption.params.salt,
+              verifier: uploadEncryption.verifier,
+            },
+            onPersistError: reportJournalError,
+          });
 
-      const { pieces, failures } = await uploadToContexts(contexts, files, phase, {
+      const stored = await uploadToContexts(contexts, uploads, phase, {
+        journal,
+        signal,
+        replaceProvider: (excludeProviderIds) =>
+          createReplacementContext(synapse, excludeProviderIds, {
+            metadata: contextMetadata,
+            withCDN,
+          }),
         onProviderError: (provider, msg) => {
           toast.error(`Provider ${provider.name} failed: ${msg}`);
         },
       });
 
+      // The pieces are committed, so a journal that cannot be cleared must not fail the upload
+      await deleteUploadJob(journal.job.id).catch(reportJournalError);
+
+      // Retrieval verification — everything is committed, so a miss is a failure, not an error,
+      // and Cancel only stops the verification
+      let { pieces, failures } = stored;
+      let checksCancelled = false;
+      if (verifyRetrieval) {
+        const verifying = new Set(pieces.flatMap((p) => p.providers.map((u) => u.providerName)));
+        const verified: string[] = [];
+        const describe = () => `Reading pieces back (${verified.length}/${verifying.size})...`;
+        phase.activate("verify", describe());
+        try {
+          const retrieval = await verifyPieceRetrieval(stored.contexts, pieces, {
+            signal,
+            onProviderVerified: (providerName) => {
+              verified.push(providerName);
+              phase.activate("verify", describe());
+            },
+          });
+          pieces = retrieval.pieces;
+          failures = [...failures, ...retrieval.failures];
+          if (retrieval.failures.length > 0) {
+            phase.failStep(
+              "verify",
+              retrieval.failures.map((f) => `${f.providerName}: ${f.error}`).join(" · "),
+            );
+          } else {
+            // Pieces above FULL_RETRIEVAL_MAX_SIZE are only sampled, so they are not verified
+            const sampled = pieces.filter((p) =>
+              p.providers.some((u) => u.retrieval?.method === "sample"),
+            ).length;
+            phase.complete(
+              "verify",
+              sampled > 0
+                ? `Read back from ${verified.join(", ")} · ${sampled} large ${pluralize(sampled, "piece")} only sampled, unverified`
+                : `Verified on ${verified.join(", ")}`,
+            );
+          }
+        } catch (error) {
+          if (!isUploadCancelled(error, signal)) throw error;
+          checksCancelled = true;
+          phase.cancelStep("verify");
+        }
+      }
+
       return {
         pieces,
         failures,
-        fileCount: files.length,
+        fileCount: job ? job.inputs.length : files.length,
         copies,
         totalSize,
+        datasetMetadata: contextMetadata,
+        compression: compressionResult,
         hasFailures: failures.length > 0,
+        checksCancelled,
       };
     },
-    onSuccess: (data) => {
-      phase.finish({ kind: "standard", ...data });
-      if (data.hasFailures) {
+    onSuccess: (data, params) => {
+      phase.finish({ kind: "standard", ...data }, receiptDetailsFor("standard", params));
+      if (data.checksCancelled) {
+        toast.info("Stored — retrieval verification was cancelled");
+      } else if (data.failures.length > 0 && data.failures.every((f) => f.kind === "retrieval")) {
+        toast.warning("Stored, but not every provider served the pieces back");
+      } else if (data.hasFailures) {
         toast.warning("Stored with some failures");
       } else {
         toast.success("Stored on Filecoin!");
       }
       phase.invalidateAfterUpload();
     },
-    onError: (err) => {
+    onError: (err, params) => {
+      phase.invalidateUploadJobs();
+      if (isUploadCancelled(err, abortRef.current?.signal)) {
+        const cancelled = err instanceof UploadCancelledError ? err : undefined;
+        phase.cancel(
+          cancelled?.uncommitted ?? [],
+          receiptDetailsFor("standard", params),
+          cancelled?.committed,
+        );
+        toast.info("Upload cancelled", { id: "upload" });
+        return;
+      }
       const errorMessage = getErrorMessage(err);
-      phase.fail(errorMessage);
+      phase.fail(errorMessage, receiptDetailsFor("standard", params));
       toast.error(errorMessage, { id: "upload" });
     },
   });
@@ -106,6 +348,8 @@ export const useUpload = () => {
     upload: (params: UploadParams) => mutation.mutate(params),
     phase: phase.phase,
     isPending: mutation.isPending,
+    cancel: () => abortRef.current?.abort(),
+    updateResult: phase.updateResult,
     reset: () => {
       phase.reset();
       mutation.reset();
@@ -0,0 +1,74 @@
+import type { ProviderUpload } from "@/app/upload/types";
+import { getErrorMessage } from "@/lib";
+import { asPieceCID } from "@filoz/synapse-core/piece";
+import type { Synapse } from "@filoz/synapse-sdk";
+import type { UniquePiece } from "@/lib/datasets";
+
+/** Distinct providers that already hold a piece. */
+export function storedProviderIds(stored: UniquePiece): string[] {
+  return [...new Set(stored.datasets.map(({ dataset }) => dataset.provider.id.toString()))];
+}
+
+/**
+ * Adds `count` copies of a piece the account already stores, on providers
+ * that do not hold it yet. New providers pull the piece from an existing
+ * copy, so nothing is uploaded from the browser.
+ */
+export async function addReplicas(
+  synapse: Synapse,
+  stored: UniquePiece,
+  count: number,
+): Promise<ProviderUpload[]> {
+  const pieceCid = asPieceCID(stored.pieceCid);
+  if (!pieceCid) throw new Error(`Invalid PieceCID ${stored.pieceCid}`);
+
+  // Dataset metadata decides which datasets the new copies land in, so copy the source's
+  const [{ dataset, pieceIndex }] = stored.datasets;
+  const metadata = dataset.metadata;
+  const withCDN = dataset.cdn;
+
+  const sourceCtx = await synapse.storage.createContext({
+    providerId: dataset.provider.id,
+    dataSetId: dataset.dataSetId,
+    metadata,
+    withCDN,
+  });
+  const contexts = await synapse.storage.createContexts({
+    count,
+    metadata,
+    withCDN,
+    excludeProviderIds: storedProviderIds(stored).map((id) => BigInt(id)),
+  });
+
+  const pieces = [{ pieceCid, pieceMetadata: dataset.pieces[pieceIndex].metadata }];
+  // Every provider runs to the end, so replicas that did commit are known when another fails
+  const results: PromiseSettledResult<ProviderUpload>[] = await Promise.allSettled(
+    contexts.map(async (ctx): Promise<ProviderUpload> => {
+      const extraData = await ctx.presignForCommit(pieces);
+      const pull = await ctx.pull({
+        pieces: [pieceCid],
+        from: (cid) => sourceCtx.getPieceUrl(cid),
+        extraData,
+      });
+      if (pull.status !== "complete") {
+        throw new Error(`${ctx.provider.name} failed to pull the piece`);
+      }
+      const { txHash, dataSetId } = await ctx.commit({ pieces, extraData });
+      return {
+        providerId: ctx.provider.id.toString(),
+        providerName: ctx.provider.name,
+        dataSetId: dataSetId.toString(),
+        txHash,
+      };
+    }),
+  );
+
+  const uploads = results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+  const errors = results.flatMap((r) =>
+    r.status === "rejected" ? [getErrorMessage(r.reason)] : [],
+  );
+  if (errors.length > 0) {
+    throw new Error(`Added ${uploads.length} of ${count} replicas — ${errors.join("; ")}`);
+  }
+  return uploads;
+}
@@ -0,0 +1,85 @@
+import type { TransferSample } from "@/app/upload/types";
+import { compressStream, needsChunking, type ContentEncoding } from "@/lib";
+import { meterStream, throttleReports } from "./transfer-progress";
+
+/**
+ * Size of `file` once compressed. The compressed bytes are counted and
+ * dropped — the upload compresses the file again while streaming it.
+ */
+export async function measureCompressedSize(
+  file: Blob,
+  encoding: ContentEncoding,
+  options?: { signal?: AbortSignal; onBytes?: (bytesRead: number) => void },
+): Promise<number> {
+  const input = options?.onBytes ? meterStream(file.stream(), options.onBytes) : file.stream();
+  const reader = compressStream(input, encoding).getReader();
+  let size = 0;
+  try {
+    for (;;) {
+      options?.signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) return size;
+      size += value.length;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * The size a file is stored at compressed, or null to store it as-is: when it
+ * does not shrink (media, archives), or when it would still be split into
+ * chunks — each chunk would have to compress the file again from its start.
+ */
+export function storedCompressedSize(
+  fileSize: number,
+  compressedSize: number | null | undefined,
+): number | null {
+  if (compressedSize == null || compressedSize >= fileSize) return null;
+  return needsChunking(compressedSize) ? null : compressedSize;
+}
+
+/**
+ * Compressed size of each file, measured before anything is stored so the
+ * real stored size is known for the cost estimate. Files stored as-is (see
+ * `storedCompressedSize`) map to null. `knownSizes` (e.g. measured for the
+ * uploader's estimate) are not measured again.
+ */
+export async function compressFiles(
+  files: File[],
+  encoding: ContentEncoding,
+  options?: {
+    signal?: AbortSignal;
+    onProgress?: (sample: TransferSample) => void;
+    knownSizes?: (number | undefined)[];
+  },
+): Promise<(number | null)[]> {
+  const totalBytes = files.reduce((acc, f) => acc + f.size, 0);
+  const fileTransfers = files.map((f) => ({ name: f.name, bytes: 0, totalBytes: f.size }));
+  const progress = throttleReports(() =>
+    options?.onProgress?.({
+      bytes: fileTransfers.reduce((acc, f) => acc + f.bytes, 0),
+      totalBytes,
+      files: fileTransfers.map((f) => ({ ...f })),
+    }),
+  );
+
+  const results: (number | null)[] = [];
+  for (const [i, file] of files.entries()) {
+    options?.signal?.throwIfAborted();
+    const size =
+      options?.knownSizes?.[i] ??
+      (await measureCompressedSize(file, encoding, {
+        signal: options?.signal,
+        onBytes: (bytesRead) => {
+          fileTransfers[i].bytes = bytesRead;
+          progress.emit();
+        },
+      }));
+    fileTransfers[i].bytes = file.size;
+    progress.emit();
+    results.push(storedCompressedSize(file.size, size));
+  }
+  progress.flush();
+  return results;
+}
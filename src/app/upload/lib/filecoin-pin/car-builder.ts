@@ -1,16 +1,35 @@
+import type { TransferSample } from "@/app/upload/types";
 import { CarWriter } from "@ipld/car/writer";
-import { importer, WritableStorage } from "ipfs-unixfs-importer";
-import { CID } from "multiformats/cid";
+import { importer, WritableStorage, type ImporterOptions } from "ipfs-unixfs-importer";
+import { fixedSize, rabin } from "ipfs-unixfs-importer/chunker";
+import { balanced, trickle } from "ipfs-unixfs-importer/layout";
+import { varint } from "multiformats";
+import type { CID } from "multiformats/cid";
+import {
+  DEFAULT_UNIXFS_PROFILE,
+  MAX_UNIXFS_CHUNK_SIZE,
+  type UnixFsProfile,
+} from "@/lib/unixfs-profile";
+import { throttleReports } from "../transfer-progress";
+import { throwIfCancelled } from "../upload-cancelled";
 
 /**
  * Browser-compatible CAR builder that creates a CAR file from File objects.
  * Used for Filecoin Pin uploads in the browser.
+ *
+ * Blocks are appended to a CAR body in the Origin Private File System as the
+ * importer emits them, so memory stays bounded by the size of a block. The
+ * header — which needs the root CID — is only encoded once the import is
+ * done and is prepended to the body as a Blob part.
  */
-interface BrowserCarBuildResult {
+export interface BrowserCarBuildResult {
   rootCid: string;
-  carBytes: Uint8Array;
+  /** The CAR, backed by OPFS where available */
+  car: Blob;
   totalFiles: number;
   totalSize: number;
+  /** Deletes the CAR body from OPFS; call once the CAR has been stored */
+  dispose: () => Promise<void>;
 }
 
 function isAsyncIterable<T>(input: unknown): input is AsyncIterable<T> {
@@ -49,34 +68,127 @@ async function collectBytes(
   return buffer;
 }
 
-class MemoryBlockstore {
-  private readonly blocks = new Map<string, Uint8Array>();
+// ─── CAR body storage ────────────────────────────────────────────────────────
 
-  async put(cid: CID, bytes: Uint8Array | AsyncIterable<Uint8Array> | Iterable<Uint8Array>) {
-    const normalized = await collectBytes(bytes);
-    this.blocks.set(cid.toString(), normalized);
-  }
+const OPFS_DIRECTORY = "car-builds";
 
-  async get(cid: CID) {
-    const block = this.blocks.get(cid.toString());
-    if (!block) {
-      throw new Error(`Missing block for CID ${cid.toString()}`);
-    }
-    return block;
+/** Writes are batched — OPFS handles a few large writes much better than many tiny ones. */
+const WRITE_BATCH_SIZE = 4 * 1024 * 1024;
+
+/** Append-only storage for the encoded blocks of a CAR body. */
+interface CarBodySink {
+  append(bytes: Uint8Array): Promise<void>;
+  /** Flushes pending writes and returns the body */
+  finish(): Promise<Blob>;
+  dispose(): Promise<void>;
+}
+
+function createMemorySink(): CarBodySink {
+  let parts: Uint8Array[] = [];
+  return {
+    async append(bytes) {
+      parts.push(bytes);
+    },
+    async finish() {
+      return new Blob(parts as BlobPart[]);
+    },
+    async dispose() {
+      parts = [];
+    },
+  };
+}
+
+async function createOpfsSink(): Promise<CarBodySink> {
+  const root = await navigator.storage.getDirectory();
+  const directory = await root.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+  await removeStaleCarBuilds(directory).catch(() => undefined);
+  const name = `${Date.now()}-${crypto.randomUUID()}.car`;
+  const handle = await directory.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+
+  let batch: Uint8Array[] = [];
+  let batchSize = 0;
+  const flush = async () => {
+    if (batchSize === 0) return;
+    await writable.write(new Blob(batch as BlobPart[]));
+    batch = [];
+    batchSize = 0;
+  };
+
+  return {
+    async append(bytes) {
+      batch.push(bytes);
+      batchSize += bytes.byteLength;
+      if (batchSize >= WRITE_BATCH_SIZE) await flush();
+    },
+    async finish() {
+      await flush();
+      await writable.close();
+      return handle.getFile();
+    },
+    async dispose() {
+      await writable.abort().catch(() => undefined);
+      await directory.removeEntry(name).catch(() => undefined);
+    },
+  };
+}
+
+/** OPFS when the browser supports writable file handles, memory otherwise. */
+async function createCarBodySink(): Promise<CarBodySink> {
+  const supportsOpfs =
+    typeof navigator !== "undefined" &&
+    typeof navigator.storage?.getDirectory === "function" &&
+    typeof FileSystemFileHandle !== "undefined" &&
+    "createWritable" in FileSystemFileHandle.prototype;
+  if (!supportsOpfs) return createMemorySink();
+  try {
+    return await createOpfsSink();
+  } catch {
+    // e.g. private browsing, where OPFS is unavailable or has no quota
+    return createMemorySink();
   }
+}
 
-  async *entries() {
-    for (const [key, bytes] of this.blocks.entries()) {
-      yield { cid: CID.parse(key), bytes };
-    }
+/** Removes CAR bodies left behind by tabs that closed mid-build (older than a day). */
+async function removeStaleCarBuilds(directory: FileSystemDirectoryHandle): Promise<void> {
+  const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+  const names: string[] = [];
+  // Async iteration of directory handles is missing from the bundled DOM typings
+  for await (const name of (directory as unknown as { keys(): AsyncIterable<string> }).keys()) {
+    if (Number(name.split("-")[0]) < cutoff) names.push(name);
   }
+  await Promise.all(names.map((name) => directory.removeEntry(name).catch(() => undefined)));
+}
+
+// ─── Streaming blockstore ────────────────────────────────────────────────────
+
+/**
+ * Write-only blockstore for the importer: each block is encoded as a CAR
+ * section (`varint(length) | CID | bytes`) and appended to the body. Only the
+ * CIDs are kept in memory, to skip duplicate blocks.
+ */
+class CarStreamBlockstore {
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly sink: CarBodySink) {}
 
-  async has(cid: CID) {
-    return this.blocks.has(cid.toString());
+  async put(cid: CID, bytes: Uint8Array | AsyncIterable<Uint8Array> | Iterable<Uint8Array>) {
+    const key = cid.toString();
+    if (this.seen.has(key)) return cid;
+    this.seen.add(key);
+
+    const block = await collectBytes(bytes);
+    const length = cid.bytes.byteLength + block.byteLength;
+    const section = new Uint8Array(varint.encodingLength(length) + length);
+    varint.encodeTo(length, section);
+    section.set(cid.bytes, section.length - length);
+    section.set(block, section.length - block.byteLength);
+    await this.sink.append(section);
+    return cid;
   }
 
-  clear() {
-    this.blocks.clear();
+  get size() {
+    return this.seen.size;
   }
 }
 
@@ -84,11 +196,7 @@ class MemoryBlockstore {
  * Detects if all files share a common root folder prefix.
  * Returns the common prefix to strip, or empty string if no common prefix.
  */
-function detectCommonRootFolder(files: File[]): string {
-  const paths = files.map(
-    (file) => (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name,
-  );
-
+function detectCommonRootFolder(paths: string[]): string {
   if (paths.length === 0) return "";
 
   // Get the first path segment of each file
@@ -107,13 +215,34 @@ function detectCommonRootFolder(files: File[]): string {
   return commonRoot;
 }
 
+async function* readChunks(
+  chunks: AsyncIterable<Uint8Array>,
+  signal?: AbortSignal,
+  onChunk?: (byteLength: number) => void,
+): AsyncGenerator<Uint8Array> {
+  for await (const chunk of chunks) {
+    throwIfCancelled(signal);
+    onChunk?.(chunk.byteLength);
+    yield chunk;
+  }
+}
+
+/** Use webkitRelativePath for directory uploads, fallback to name for single files */
+function relativePathOf(file: File): string {
+  return (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+}
+
 async function* iterateBrowserFiles(
   files: File[],
+  paths: string[],
   stripPrefix: string = "",
+  signal?: AbortSignal,
+  onChunk?: (byteLength: number) => void,
 ): AsyncGenerator<{ path: string; content: AsyncIterable<Uint8Array> }> {
-  for (const file of files) {
-    // Use webkitRelativePath for directory uploads, fallback to name for single files
-    let filePath = (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+  for (const [i, file] of files.entries()) {
+    throwIfCancelled(signal);
+
+    let filePath = paths[i];
 
     // Strip the common root folder prefix if provided
     // e.g., "my-folder/subdir/file.txt" -> "subdir/file.txt"
@@ -123,76 +252,164 @@ async function* iterateBrowserFiles(
 
     yield {
       path: filePath,
-      content: file.stream() as unknown as AsyncIterable<Uint8Array>,
+      content: readChunks(file.stream() as unknown as AsyncIterable<Uint8Array>, signal, onChunk),
     };
   }
 }
 
-async function buildCarBytes(blockstore: MemoryBlockstore, rootCid: CID): Promise<Uint8Array> {
+/** CAR v1 header naming `rootCid` — encoded last, once the root is known. */
+async function encodeCarHeader(rootCid: CID): Promise<Uint8Array> {
   const { writer, out } = await CarWriter.create([rootCid]);
   const chunks: Uint8Array[] = [];
-
   const collectOutput = (async () => {
     for await (const chunk of out) {
       chunks.push(chunk);
     }
   })();
-
-  for await (const { cid, bytes } of blockstore.entries()) {
-    await writer.put({ cid, bytes });
-  }
   await writer.close();
   await collectOutput;
+  return collectBytes(chunks);
+}
 
-  const totalSize = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
-  const result = new Uint8Array(totalSize);
-  let offset = 0;
-  for (const chunk of chunks) {
-    result.set(chunk, offset);
-    offset += chunk.byteLength;
+/**
+ * Rabin chunker around `avgChunkSize`, with Kubo's avg/3 and avg*1.5 bounds
+ * rounded to whole bytes. The maximum is capped at `MAX_UNIXFS_CHUNK_SIZE`
+ * so no block is too large to fetch over Bitswap.
+ */
+function rabinChunker(avgChunkSize: number) {
+  return rabin({
+    avgChunkSize,
+    minChunkSize: Math.floor(avgChunkSize / 3),
+    maxChunkSize: Math.min(Math.floor(avgChunkSize * 1.5), MAX_UNIXFS_CHUNK_SIZE),
+  });
+}
+
+/** Importer options reproducing `profile`. */
+function importerOptions(profile: UnixFsProfile): ImporterOptions {
+  const { chunkSize, maxChildren: maxChildrenPerNode } = profile;
+  return {
+    cidVersion: profile.cidVersion,
+    rawLeaves: profile.rawLeaves,
+    chunker: profile.chunker === "rabin" ? rabinChunker(chunkSize) : fixedSize({ chunkSize }),
+    layout:
+      profile.layout === "trickle"
+        ? trickle({ maxChildrenPerNode })
+        : balanced({ maxChildrenPerNode }),
+    shardSplitThresholdBytes: profile.shardSplitThreshold,
+  };
+}
+
+// Every block is written as a length varint, a CIDv1 (sha2-256) and the block
+const CAR_BLOCK_OVERHEAD = 4 + 36;
+// A dag-pb link: the child's CID plus its name and size fields
+const DAG_LINK_SIZE = 36 + 16;
+// dag-pb node and UnixFS header around the links or data
+const DAG_NODE_OVERHEAD = 16;
+
+/**
+ * Close estimate of the CAR `buildCarFromFiles` writes, before any file is
+ * read: the file bytes, each block's framing, the nodes linking the chunks
+ * and the folders linking the files. Rabin's uneven chunks and HAMT-sharded
+ * folders move it by a few bytes per block.
+ */
+export function estimateCarSize(
+  files: File[],
+  profile: UnixFsProfile = DEFAULT_UNIXFS_PROFILE,
+): number {
+  const leafOverhead = CAR_BLOCK_OVERHEAD + (profile.rawLeaves ? 0 : DAG_NODE_OVERHEAD);
+  const nodeOverhead = CAR_BLOCK_OVERHEAD + DAG_NODE_OVERHEAD;
+  const folders = new Set<string>();
+  // The header naming the root
+  let size = 64;
+  for (const file of files) {
+    const leaves = Math.max(1, Math.ceil(file.size / profile.chunkSize));
+    size += file.size + leaves * leafOverhead;
+    for (let nodes = leaves; nodes > 1;) {
+      const parents = Math.ceil(nodes / profile.maxChildren);
+      size += parents * nodeOverhead + nodes * DAG_LINK_SIZE;
+      nodes = parents;
+    }
+
+    const segments = relativePathOf(file).split("/");
+    size += DAG_LINK_SIZE + segments[segments.length - 1].length;
+    for (let depth = 1; depth < segments.length; depth++) {
+      const folder = segments.slice(0, depth).join("/");
+      if (folders.has(folder)) continue;
+      folders.add(folder);
+      size += nodeOverhead + DAG_LINK_SIZE + segments[depth - 1].length;
+    }
   }
-  return result;
+  // Several files are wrapped in a root folder
+  return files.length > 1 ? size + nodeOverhead : size;
 }
 
-export async function buildCarFromFiles(files: File[]): Promise<BrowserCarBuildResult> {
+export async function buildCarFromFiles(
+  files: File[],
+  options?: {
+    /** UnixFS import settings; defaults to `DEFAULT_UNIXFS_PROFILE` */
+    profile?: UnixFsProfile;
+    /** Paths aligned with `files` — `webkitRelativePath` is lost when files are sent to a worker */
+    paths?: string[];
+    signal?: AbortSignal;
+    /** Bytes read from the files and blocks imported so far */
+    onProgress?: (sample: TransferSample) => void;
+  },
+): Promise<BrowserCarBuildResult> {
+  const signal = options?.signal;
+  const paths = options?.paths ?? files.map(relativePathOf);
+
   // Detect if uploading a folder - if all files share a common root folder,
   // strip it so the root CID becomes the folder itself, not a wrapper around it.
   // e.g., "my-folder/file.txt" -> "file.txt" so root CID = my-folder
-  const commonRootFolder = detectCommonRootFolder(files);
+  const commonRootFolder = detectCommonRootFolder(paths);
 
   // Check if this is a single file (no folder structure)
   // Single file = 1 file with no "/" in path (after stripping common root)
   const isSingleFile = files.length === 1 && !commonRootFolder;
 
-  const blockstore = new MemoryBlockstore();
+  const sink = await createCarBodySink();
+  const blockstore = new CarStreamBlockstore(sink);
   let rootCid: CID | null = null;
 
-  for await (const entry of importer(
-    iterateBrowserFiles(files, commonRootFolder),
-    blockstore as unknown as WritableStorage,
-    {
-      cidVersion: 1,
-      // Don't wrap single files in a directory - root CID should be the file itself
-      wrapWithDirectory: !isSingleFile,
-      rawLeaves: true,
-    },
-  )) {
-    rootCid = entry.cid;
-  }
-
-  if (!rootCid) {
-    throw new Error("Failed to determine CAR root CID");
-  }
-
-  const carBytes = await buildCarBytes(blockstore, rootCid);
   const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  let bytesRead = 0;
+  const report = () =>
+    options?.onProgress?.({ bytes: bytesRead, totalBytes: totalSize, blocks: blockstore.size });
+  const progress = throttleReports(report);
+
+  try {
+    for await (const entry of importer(
+      iterateBrowserFiles(files, paths, commonRootFolder, signal, (byteLength) => {
+        bytesRead += byteLength;
+        progress.emit();
+      }),
+      blockstore as unknown as WritableStorage,
+      {
+        ...importerOptions(options?.profile ?? DEFAULT_UNIXFS_PROFILE),
+        // Don't wrap single files in a directory - root CID should be the file itself
+        wrapWithDirectory: !isSingleFile,
+      },
+    )) {
+      rootCid = entry.cid;
+    }
+    report();
 
-  blockstore.clear();
+    if (!rootCid) {
+      throw new Error("Failed to determine CAR root CID");
+    }
 
-  return {
-    rootCid: rootCid.toString(),
-    carBytes,
-    totalFiles: files.length,
-    totalSize,
-  };
+    const body = await sink.finish();
+    const header = await encodeCarHeader(rootCid);
+
+    return {
+      rootCid: rootCid.toString(),
+      car: new Blob([header as BlobPart, body]),
+      totalFiles: files.length,
+      totalSize,
+      dispose: () => sink.dispose(),
+    };
+  } catch (error) {
+    await sink.dispose();
+    throw error;
+  }
 }
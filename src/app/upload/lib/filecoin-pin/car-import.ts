@@ -0,0 +1,162 @@
+import type { TransferSample } from "@/app/upload/types";
+import { CarBlockIterator } from "@ipld/car/iterator";
+import { varint } from "multiformats";
+import { equals } from "multiformats/bytes";
+import { CID } from "multiformats/cid";
+import { identity } from "multiformats/hashes/identity";
+import type { MultihashHasher } from "multiformats/hashes/interface";
+import { sha256, sha512 } from "multiformats/hashes/sha2";
+import { meterStream, throttleReports } from "../transfer-progress";
+import { throwIfCancelled } from "../upload-cancelled";
+
+/**
+ * Pre-built CARs (e.g. from a build pipeline) are pinned as-is: the header
+ * root becomes `ipfsRootCid`, after every block is checked against its CID
+ * and the DAG below the root is found complete.
+ */
+
+const RAW_CODE = 0x55;
+const DAG_PB_CODE = 0x70;
+
+const HASHERS: Record<number, MultihashHasher> = {
+  [sha256.code]: sha256,
+  [sha512.code]: sha512,
+  [identity.code]: identity,
+};
+
+export function isCarFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(".car") || file.type === "application/vnd.ipld.car";
+}
+
+function streamChunks(stream: ReadableStream<Uint8Array>): AsyncIterable<Uint8Array> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      const reader = stream.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    },
+  };
+}
+
+/** The single root of a CAR — multiple roots have no `ipfsRootCid` to pin under. */
+function singleRoot(roots: CID[], fileName: string): CID {
+  if (roots.length === 0) throw new Error(`${fileName} has no root CID in its header`);
+  if (roots.length > 1) {
+    throw new Error(
+      `${fileName} has ${roots.length} roots (${roots.map(String).join(", ")}). ` +
+        "Only single-root CARs can be pinned — re-export it with one root.",
+    );
+  }
+  return roots[0];
+}
+
+/** Reads only the CAR header. */
+export async function readCarRoot(file: File): Promise<string> {
+  const iterator = await CarBlockIterator.fromIterable(streamChunks(file.stream()));
+  return singleRoot((await iterator.getRoots()) as unknown as CID[], file.name).toString();
+}
+
+// ─── Block checks ────────────────────────────────────────────────────────────
+
+/** Length-delimited and varint fields of a protobuf message. */
+function* protobufFields(bytes: Uint8Array): Generator<{ field: number; value?: Uint8Array }> {
+  let pos = 0;
+  while (pos < bytes.length) {
+    const [key, keyLength] = varint.decode(bytes, pos);
+    pos += keyLength;
+    const wireType = key & 7;
+    if (wireType === 0) {
+      pos += varint.decode(bytes, pos)[1];
+      yield { field: key >> 3 };
+    } else if (wireType === 2) {
+      const [length, lengthLength] = varint.decode(bytes, pos);
+      pos += lengthLength;
+      yield { field: key >> 3, value: bytes.subarray(pos, pos + length) };
+      pos += length;
+    } else {
+      throw new Error("Malformed dag-pb block");
+    }
+  }
+}
+
+/** CIDs linked from a dag-pb node (`PBNode.Links[].Hash`). */
+function dagPbLinks(bytes: Uint8Array): CID[] {
+  const links: CID[] = [];
+  for (const { field, value } of protobufFields(bytes)) {
+    if (field !== 2 || !value) continue;
+    for (const link of protobufFields(value)) {
+      if (link.field === 1 && link.value) links.push(CID.decode(link.value));
+    }
+  }
+  return links;
+}
+
+async function verifyBlock(cid: CID, bytes: Uint8Array): Promise<CID[]> {
+  const hasher = HASHERS[cid.multihash.code];
+  if (!hasher) {
+    throw new Error(
+      `Block ${cid} uses an unsupported hash function (0x${cid.multihash.code.toString(16)})`,
+    );
+  }
+  const { digest } = await hasher.digest(bytes);
+  if (!equals(digest, cid.multihash.digest)) {
+    throw new Error(`Block ${cid} does not match its CID`);
+  }
+  if (cid.code === RAW_CODE) return [];
+  if (cid.code === DAG_PB_CODE) return dagPbLinks(bytes);
+  throw new Error(
+    `Block ${cid} uses codec 0x${cid.code.toString(16)} — only UnixFS CARs can be pinned`,
+  );
+}
+
+// ─── Full verification ───────────────────────────────────────────────────────
+
+/**
+ * Streams the CAR once: each block's multihash is recomputed, then the DAG
+ * is walked from the root to make sure no linked block is missing.
+ */
+export async function verifyCarFile(
+  file: File,
+  options?: { signal?: AbortSignal; onProgress?: (sample: TransferSample) => void },
+): Promise<{ rootCid: string; blockCount: number }> {
+  let bytesRead = 0;
+  let blockCount = 0;
+  const progress = throttleReports(() =>
+    options?.onProgress?.({ bytes: bytesRead, totalBytes: file.size, blocks: blockCount }),
+  );
+  const metered = meterStream(file.stream(), (bytes) => {
+    bytesRead = bytes;
+    progress.emit();
+  });
+
+  const iterator = await CarBlockIterator.fromIterable(streamChunks(metered));
+  const root = singleRoot((await iterator.getRoots()) as unknown as CID[], file.name);
+
+  // Only CIDs are kept — the blocks themselves are dropped once checked
+  const links = new Map<string, string[]>();
+  for await (const block of iterator) {
+    throwIfCancelled(options?.signal);
+    const cid = block.cid as unknown as CID;
+    links.set(cid.toString(), (await verifyBlock(cid, block.bytes)).map(String));
+    blockCount++;
+  }
+  progress.flush();
+
+  const pending = [root.toString()];
+  const visited = new Set<string>();
+  while (pending.length > 0) {
+    const cid = pending.pop()!;
+    if (visited.has(cid)) continue;
+    visited.add(cid);
+    const children = links.get(cid);
+    // Identity CIDs carry their data inline and need no block
+    if (!children && CID.parse(cid).multihash.code === identity.code) continue;
+    if (!children) throw new Error(`${file.name} is incomplete: block ${cid} is missing`);
+    pending.push(...children);
+  }
+
+  return { rootCid: root.toString(), blockCount };
+}
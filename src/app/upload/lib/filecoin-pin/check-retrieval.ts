@@ -0,0 +1,50 @@
+import type { RetrievalResult } from "@/app/upload/types";
+import { isUploadCancelled } from "../upload-cancelled";
+import { verifyCarFile } from "./car-import";
+
+/**
+ * IPNI only says who claims to have the content. Fetching the root as a CAR
+ * from a trustless gateway (the provider's own `/ipfs/` endpoint, or a public
+ * one) and walking it proves it can actually be retrieved.
+ */
+
+export function trustlessCarUrl(baseUrl: string, rootCid: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}/ipfs/${rootCid}?format=car`;
+}
+
+/** Fetches `url` and checks every block against its CID and the DAG for completeness. */
+export async function checkCarRetrieval(
+  rootCid: string,
+  source: { name: string; url: string },
+  options?: { signal?: AbortSignal },
+): Promise<RetrievalResult> {
+  const signal = options?.signal;
+  const startedAt = performance.now();
+  const result = (fields: Pick<RetrievalResult, "ok" | "blockCount" | "error">) => ({
+    source: source.name,
+    url: source.url,
+    durationMs: Math.round(performance.now() - startedAt),
+    ...fields,
+  });
+
+  try {
+    const response = await fetch(source.url, {
+      headers: { Accept: "application/vnd.ipld.car" },
+      signal,
+    });
+    if (!response.ok) {
+      return result({ ok: false, error: `Request failed with status ${response.status}` });
+    }
+    const car = new File([await response.blob()], `${rootCid}.car`, {
+      type: "application/vnd.ipld.car",
+    });
+    const verified = await verifyCarFile(car, { signal });
+    if (verified.rootCid !== rootCid) {
+      return result({ ok: false, error: `CAR root is ${verified.rootCid}, expected ${rootCid}` });
+    }
+    return result({ ok: true, blockCount: verified.blockCount });
+  } catch (error) {
+    if (isUploadCancelled(error, signal)) throw error;
+    return result({ ok: false, error: error instanceof Error ? error.message : String(error) });
+  }
+}
@@ -1,2 +1,4 @@
-export { buildCarFromFiles } from "./car-builder";
-export { waitForIpniProviderResults } from "./wait-ipni-advertisement";
+export { buildCarFromFiles, estimateCarSize } from "./car-builder";
+export { checkCarRetrieval, trustlessCarUrl } from "./check-retrieval";
+export { isCarFile, readCarRoot, verifyCarFile } from "./car-import";
+export { verifyIpniAdvertisement, waitForIpniProviderResults } from "./wait-ipni-advertisement";
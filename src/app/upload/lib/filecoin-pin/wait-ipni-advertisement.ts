@@ -1,4 +1,11 @@
+import {
+  ipniDelay,
+  type IpniExpectedProvider,
+  type IpniIndexerCheck,
+  type IpniSettings,
+} from "@/lib";
 import type { CID } from "multiformats/cid";
+import { abortableDelay, isUploadCancelled, throwIfCancelled } from "../upload-cancelled";
 
 /**
  * Response structure from an IPNI indexer.
@@ -32,6 +39,50 @@ interface ProviderResult {
   };
 }
 
+// ─── Provider matching ───────────────────────────────────────────────────────
+
+/** Registry peer IDs are multibase-encoded ("z12D3Koo..."); IPNI lists them bare. */
+function samePeerId(a: string, b: string): boolean {
+  const bare = (id: string) => (id.startsWith("z") ? id.slice(1) : id);
+  return bare(a) === bare(b);
+}
+
+/**
+ * Whether a multiaddr such as `/dns/sp.example.com/tcp/443/https` points at
+ * the PDP service URL: same host and, when the multiaddr has one, same port.
+ */
+function multiaddrMatchesUrl(multiaddr: string, serviceURL: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(serviceURL);
+  } catch {
+    return false;
+  }
+  const parts = multiaddr.split("/");
+  const host = parts.find((_, i) => /^(dns|dns4|dns6|ip4|ip6)$/.test(parts[i - 1] ?? ""));
+  if (host?.toLowerCase() !== url.hostname.replace(/^\[|\]$/g, "").toLowerCase()) return false;
+  const tcp = parts.indexOf("tcp");
+  if (tcp === -1) return true;
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+  return parts[tcp + 1] === port;
+}
+
+/** Expected providers listed in the indexer's records, by peer ID or by service URL. */
+function findExpectedProviders(
+  results: ProviderResult[],
+  expected: IpniExpectedProvider[],
+): IpniExpectedProvider[] {
+  return expected.filter((provider) =>
+    results.some(
+      ({ Provider }) =>
+        (!!provider.peerId && !!Provider?.ID && samePeerId(provider.peerId, Provider.ID)) ||
+        (Provider?.Addrs ?? []).some((addr) => multiaddrMatchesUrl(addr, provider.serviceURL)),
+    ),
+  );
+}
+
+// ─── Polling ─────────────────────────────────────────────────────────────────
+
 /**
  * Check if the IPNI Indexer has the provided ProviderResults for the provided ipfsRootCid.
  * This effectively verifies the entire SP<->IPNI flow, including:
@@ -45,12 +96,27 @@ interface ProviderResult {
  * This should not be called until you receive confirmation from the SP that the piece has been parked, i.e. `onPieceAdded` in the `synapse.storage.upload` callbacks.
  *
  * @param ipfsRootCid - The IPFS root CID to check
+ * @param options.indexerUrl - The IPNI indexer to query
+ * @param options.maxAttempts - Queries before giving up
+ * @param options.expectedProviders - Providers the pieces were committed to; every one must be
+ *   listed. When empty, any provider record with a multiaddr is accepted.
+ * @param options.signal - Stops polling (rejects with `UploadCancelledError`)
+ * @param options.onAttempt - Called after each query that did not verify, with the expected
+ *   providers the indexer did list
  * @returns True if the IPNI announce succeeded, false otherwise
  */
-export async function waitForIpniProviderResults(ipfsRootCid: CID): Promise<boolean> {
-  const delayMs = 5000;
-  const maxAttempts = 20;
-  const ipniIndexerUrl = "https://filecoinpin.contact";
+export async function waitForIpniProviderResults(
+  ipfsRootCid: CID,
+  options: Pick<IpniSettings, "maxAttempts" | "delayMs" | "backoff"> & {
+    indexerUrl: string;
+    expectedProviders?: IpniExpectedProvider[];
+    signal?: AbortSignal;
+    onAttempt?: (attempt: number, reason: string | undefined, foundProviderIds: string[]) => void;
+  },
+): Promise<boolean> {
+  const { signal, maxAttempts, indexerUrl } = options;
+  const expected = options.expectedProviders ?? [];
+  const ipniIndexerUrl = indexerUrl.replace(/\/+$/, "");
 
   return new Promise<boolean>((resolve, reject) => {
     let retryCount = 0;
@@ -58,18 +124,23 @@ export async function waitForIpniProviderResults(ipfsRootCid: CID): Promise<bool
     let lastFailureReason: string | undefined;
     // Tracks the actual multiaddrs found in the last IPNI response for error reporting
     let lastActualMultiaddrs: Set<string> = new Set();
+    // Expected providers listed in the last IPNI response
+    let lastFound: IpniExpectedProvider[] = [];
 
     const check = async (): Promise<void> => {
       // Fetch IPNI provider records
       const fetchOptions: RequestInit = {
         headers: { Accept: "application/json" },
+        signal,
       };
 
       let response: Response | undefined;
       try {
         response = await fetch(`${ipniIndexerUrl}/cid/${ipfsRootCid}`, fetchOptions);
       } catch (fetchError) {
+        throwIfCancelled(signal);
         lastActualMultiaddrs = new Set();
+        lastFound = [];
         lastFailureReason = `Failed to query IPNI indexer: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`;
         console.error(lastFailureReason);
       }
@@ -87,17 +158,28 @@ export async function waitForIpniProviderResults(ipfsRootCid: CID): Promise<bool
         } catch (parseError) {
           // Clear actual multiaddrs on parse error
           lastActualMultiaddrs = new Set();
+          lastFound = [];
           lastFailureReason = `Failed to parse IPNI response body: ${parseError instanceof Error ? parseError.message : String(parseError)}`;
           console.error(lastFailureReason);
         }
 
+        lastFound = findExpectedProviders(providerResults, expected);
+
         // Check if we have provider results to validate
         if (providerResults.length > 0) {
-          if (lastActualMultiaddrs.size > 0) {
+          if (
+            expected.length === 0
+              ? lastActualMultiaddrs.size > 0
+              : lastFound.length === expected.length
+          ) {
             // Validation succeeded!
             resolve(true);
             return;
           }
+          if (expected.length > 0 && lastFailureReason == null) {
+            const missing = expected.filter((p) => !lastFound.includes(p));
+            lastFailureReason = `IPNI results do not list ${missing.map((p) => p.providerName).join(", ")}`;
+          }
         } else if (lastFailureReason == null) {
           // Only set generic message if we don't already have a more specific reason (e.g., parse error)
           lastFailureReason = "IPNI response did not include any provider results";
@@ -106,12 +188,18 @@ export async function waitForIpniProviderResults(ipfsRootCid: CID): Promise<bool
         }
       } else if (response != null) {
         lastActualMultiaddrs = new Set();
+        lastFound = [];
         lastFailureReason = `IPNI indexer request failed with status ${response.status}`;
       }
 
       // Retry or fail
-      if (++retryCount < maxAttempts) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      options.onAttempt?.(
+        ++retryCount,
+        lastFailureReason,
+        lastFound.map((p) => p.providerId),
+      );
+      if (retryCount < maxAttempts) {
+        await abortableDelay(ipniDelay(options, retryCount), signal);
         await check();
       } else {
         // Max attempts reached - validation failed
@@ -121,6 +209,9 @@ export async function waitForIpniProviderResults(ipfsRootCid: CID): Promise<bool
           msg = `${msgBase}. Last observation: ${lastFailureReason}`;
         }
         // Include expected and actual multiaddrs for debugging
+        if (expected.length > 0) {
+          msg = `${msg}. Expected service URLs: [${expected.map((p) => p.serviceURL).join(", ")}]`;
+        }
         msg = `${msg}. Actual multiaddrs in response: [${Array.from(lastActualMultiaddrs).join(", ")}]`;
         const error = new Error(msg);
         console.error(error);
@@ -134,3 +225,64 @@ export async function waitForIpniProviderResults(ipfsRootCid: CID): Promise<bool
     });
   });
 }
+
+/**
+ * Polls every configured indexer at once. An indexer that never lists a
+ * provider is reported as failed rather than thrown — the pieces are already
+ * committed on-chain. Only cancellation rejects.
+ */
+export async function verifyIpniAdvertisement(
+  ipfsRootCid: CID,
+  settings: IpniSettings,
+  options?: {
+    expectedProviders?: IpniExpectedProvider[];
+    signal?: AbortSignal;
+    onIndexerUpdate?: (indexerUrl: string, check: IpniIndexerCheck) => void;
+  },
+): Promise<Record<string, IpniIndexerCheck>> {
+  const signal = options?.signal;
+  const check = async (indexerUrl: string): Promise<IpniIndexerCheck> => {
+    let attempts = 0;
+    let foundProviderIds: string[] = [];
+    try {
+      await waitForIpniProviderResults(ipfsRootCid, {
+        ...settings,
+        indexerUrl,
+        expectedProviders: options?.expectedProviders,
+        signal,
+        onAttempt: (attempt, reason, found) => {
+          attempts = attempt;
+          foundProviderIds = found;
+          options?.onIndexerUpdate?.(indexerUrl, {
+            status: "pending",
+            attempts,
+            error: reason,
+            foundProviderIds,
+          });
+        },
+      });
+      return {
+        status: "verified",
+        attempts: attempts + 1,
+        foundProviderIds: options?.expectedProviders?.map((p) => p.providerId) ?? [],
+      };
+    } catch (error) {
+      if (isUploadCancelled(error, signal)) throw error;
+      return {
+        status: "failed",
+        attempts,
+        error: error instanceof Error ? error.message : String(error),
+        foundProviderIds,
+      };
+    }
+  };
+
+  const checks = await Promise.all(
+    settings.indexerUrls.map(async (indexerUrl) => {
+      const result = await check(indexerUrl);
+      options?.onIndexerUpdate?.(indexerUrl, result);
+      return [indexerUrl, result] as const;
+    }),
+  );
+  return Object.fromEntries(checks);
+}
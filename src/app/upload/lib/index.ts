@@ -1,2 +1,46 @@
-export { buildCarFromFiles, waitForIpniProviderResults } from "./filecoin-pin";
+export {
+  buildCarFromFiles,
+  checkCarRetrieval,
+  estimateCarSize,
+  isCarFile,
+  readCarRoot,
+  trustlessCarUrl,
+  verifyCarFile,
+  verifyIpniAdvertisement,
+  waitForIpniProviderResults,
+} from "./filecoin-pin";
 export { uploadToContexts } from "./upload-to-contexts";
+export {
+  createReplacementContext,
+  createUploadContexts,
+  datasetUploadModes,
+  estimateNewDatasets,
+} from "./upload-contexts";
+export { mergeRetriedReplica, retryReplica } from "./retry-replica";
+export type { RetryTarget } from "./retry-replica";
+export { addReplicas, storedProviderIds } from "./add-replicas";
+export { FULL_RETRIEVAL_MAX_SIZE, verifyPieceRetrieval } from "./verify-retrieval";
+export { buildCarInWorker, computeLocalPieceCid } from "./upload-worker";
+export type { UploadableFile } from "./upload-to-contexts";
+export { compressFiles, measureCompressedSize, storedCompressedSize } from "./compress-uploads";
+export { estimatePreparedSize, prepareUploads, reservedPieceKeyCount } from "./prepare-uploads";
+export type { UploadCompression, UploadEncryption } from "./prepare-uploads";
+export { meterStream, nextTransfer, throttleReports, transferFraction } from "./transfer-progress";
+export {
+  abortableDelay,
+  isUploadCancelled,
+  throwIfCancelled,
+  UploadCancelledError,
+} from "./upload-cancelled";
+export {
+  createUploadJournal,
+  deleteUploadJob,
+  describeJobProgress,
+  getMissingInputs,
+  listUploadJobs,
+  matchInputs,
+  resumeContexts,
+  startUploadJob,
+  storedUploadPlaceholder,
+} from "./upload-journal";
+export type { UploadJournal } from "./upload-journal";
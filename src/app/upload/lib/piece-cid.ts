@@ -0,0 +1,33 @@
+import type { TransferSample } from "@/app/upload/types";
+import { calculateFromIterable } from "@filoz/synapse-core/piece";
+import { meterStream, throttleReports } from "./transfer-progress";
+import { throwIfCancelled } from "./upload-cancelled";
+
+async function* streamChunks(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncIterable<Uint8Array> {
+  const reader = stream.getReader();
+  for (;;) {
+    throwIfCancelled(signal);
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+}
+
+/** PieceCID (CommP) of `blob`, hashed as it streams. */
+export async function calculatePieceCid(
+  blob: Blob,
+  options?: { signal?: AbortSignal; onProgress?: (sample: TransferSample) => void },
+): Promise<string> {
+  let bytes = 0;
+  const progress = throttleReports(() => options?.onProgress?.({ bytes, totalBytes: blob.size }));
+  const metered = meterStream(blob.stream(), (read) => {
+    bytes = read;
+    progress.emit();
+  });
+  const pieceCid = await calculateFromIterable(streamChunks(metered, options?.signal));
+  progress.flush();
+  return pieceCid.toString();
+}
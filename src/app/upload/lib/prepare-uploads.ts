@@ -0,0 +1,504 @@
+import type { JobUpload, TransferSample, UploadJob, UploadMode } from "@/app/upload/types";
+import {
+  assertValidMetadata,
+  buildFileMetadata,
+  BUNDLE_INDEX_METADATA_KEY,
+  BUNDLE_METADATA_KEY,
+  CHUNK_METADATA_KEY,
+  chunkRanges,
+  compressStream,
+  CONTENT_ENCODING_METADATA_KEY,
+  encodeBundleInfo,
+  encodeChunkedFileInfo,
+  encodeEncryptionParams,
+  encryptedSize,
+  ENCRYPTION_CHUNK_SIZE,
+  ENCRYPTION_METADATA_KEY,
+  encryptStream,
+  FILE_METADATA_KEYS,
+  MANIFEST_METADATA_KEY,
+  needsChunking,
+  planBundles,
+  readEncryptionParams,
+  serializeBundleIndex,
+  serializeChunkManifest,
+  sha256Hex,
+  truncateMetadataValue,
+  withFreshIv,
+  type BundleEntry,
+  type ContentEncoding,
+  type EncryptionParams,
+  type ManifestChunk,
+} from "@/lib";
+import { calculate } from "@filoz/synapse-core/piece";
+import { storedCompressedSize } from "./compress-uploads";
+import { throttleReports } from "./transfer-progress";
+import { storedUploadPlaceholder } from "./upload-journal";
+import type { UploadableFile } from "./upload-to-contexts";
+import { computeLocalPieceCid } from "./upload-worker";
+
+export type UploadEncryption = { key: CryptoKey; params: EncryptionParams };
+
+/** Output of `compressFiles`, aligned with the selected files */
+export type UploadCompression = { encoding: ContentEncoding; sizes: (number | null)[] };
+
+interface PreparedSource {
+  file: File;
+  input: number;
+  /** Bytes the source streams: the file's size, or its compressed size */
+  size: number;
+  encoding?: ContentEncoding;
+}
+
+// ─── Streams ─────────────────────────────────────────────────────────────────
+
+/**
+ * Bytes `[offset, offset + length)` of the input as stored — compressed on
+ * the fly when `encoding` is set, so no compressed copy is ever buffered.
+ * Compressed inputs are never split into chunks (see `storedCompressedSize`),
+ * so only plain ones are read by range.
+ */
+function sourceStream(
+  file: Blob,
+  encoding: ContentEncoding | undefined,
+  range?: { offset: number; length: number },
+): ReadableStream<Uint8Array> {
+  if (encoding) {
+    if (range) throw new Error("A compressed input cannot be read by range");
+    return compressStream(file.stream(), encoding);
+  }
+  return (range ? file.slice(range.offset, range.offset + range.length) : file).stream();
+}
+
+/** Reads `stream` once, yielding consecutive parts of the given lengths. */
+async function* readParts(
+  stream: ReadableStream<Uint8Array>,
+  lengths: number[],
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let pending: Uint8Array = new Uint8Array();
+  try {
+    for (const length of lengths) {
+      const part = new Uint8Array(length);
+      let filled = 0;
+      while (filled < length) {
+        if (pending.length === 0) {
+          const { done, value } = await reader.read();
+          if (done) throw new Error("The file ended before its last chunk");
+          pending = value;
+          continue;
+        }
+        const n = Math.min(pending.length, length - filled);
+        part.set(pending.subarray(0, n), filled);
+        filled += n;
+        pending = pending.subarray(n);
+      }
+      yield part;
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
+
+// Compression runs first — ciphertext does not compress
+function sealed(
+  stream: () => ReadableStream<Uint8Array>,
+  encryption: UploadEncryption | undefined,
+): { stream: () => ReadableStream<Uint8Array>; params?: EncryptionParams } {
+  if (!encryption) return { stream };
+  // Every piece gets its own IV; the salt (and so the key) is shared by the upload
+  const params = withFreshIv(encryption.params);
+  return { stream: () => encryptStream(stream(), encryption.key, params), params };
+}
+
+function reservedMetadata(
+  source: PreparedSource,
+  encryption: UploadEncryption | undefined,
+): Record<string, string> {
+  if (!source.encoding) return {};
+  return {
+    [CONTENT_ENCODING_METADATA_KEY]: source.encoding,
+    ...(!encryption && { [FILE_METADATA_KEYS.originalSize]: String(source.file.size) }),
+  };
+}
+
+/**
+ * Piece metadata is public, so encrypted pieces carry no file attributes —
+ * name, path, type, size and mtime would leak what the ciphertext hides.
+ * Plain pieces keep their name and path ahead of `tags`.
+ */
+function pieceMetadata(
+  file: File,
+  reserved: Record<string, string>,
+  tags: Record<string, string>,
+  encryption: UploadEncryption | undefined,
+): Record<string, string> {
+  if (!encryption) return buildFileMetadata(file, reserved, tags);
+  const metadata = { ...reserved, ...tags };
+  assertValidMetadata(metadata, "piece");
+  return metadata;
+}
+
+/**
+ * Most piece metadata keys the pipeline writes next to custom tags: the
+ * encoding and (unless encrypted) original size of compressed files, the
+ * encryption parameters or chunk manifest, and the name and folder path of
+ * plain files; bundles spend two keys and pins keep their root CID and
+ * UnixFS profile.
+ */
+export function reservedPieceKeyCount(options: {
+  mode: UploadMode;
+  compressed?: boolean;
+  chunked?: boolean;
+  bundle?: boolean;
+  /** Some file was picked from a folder, so its path is stored */
+  withPath?: boolean;
+}): number {
+  if (options.mode === "pin") return 2;
+  if (options.mode === "encrypted") return (options.compressed ? 1 : 0) + 1;
+  const file =
+    (options.compressed ? 2 : 0) + (options.chunked ? 1 : 0) + 1 + (options.withPath ? 1 : 0);
+  return Math.max(file, options.bundle ? 2 : 0);
+}
+
+// ─── Single-piece files ──────────────────────────────────────────────────────
+
+function fileUpload(
+  source: PreparedSource,
+  tags: Record<string, string>,
+  encryption?: UploadEncryption,
+): UploadableFile {
+  const { file, size } = source;
+  const { stream, params } = sealed(() => sourceStream(file, source.encoding), encryption);
+  const reserved = reservedMetadata(source, encryption);
+  if (params) reserved[ENCRYPTION_METADATA_KEY] = encodeEncryptionParams(params);
+  return {
+    name: file.name,
+    size: params ? encryptedSize(size, params.chunkSize) : size,
+    stream,
+    metadata: pieceMetadata(file, reserved, tags, encryption),
+    source: { input: source.input, encoding: source.encoding },
+  };
+}
+
+// ─── Chunked files ───────────────────────────────────────────────────────────
+
+/**
+ * Splits a file above the provider's piece size limit into fixed-size chunk
+ * pieces plus a JSON manifest piece. PieceCIDs are computed up front, so the
+ * manifest (and the chunks' back-reference to it) is known before anything
+ * is stored and everything goes through a single commit. Chunks are hashed in
+ * the upload worker; the small manifest is hashed inline.
+ */
+async function chunkedUploads(
+  source: PreparedSource,
+  tags: Record<string, string>,
+  encryption: UploadEncryption | undefined,
+  onBytes: (bytes: number) => void,
+  signal?: AbortSignal,
+): Promise<UploadableFile[]> {
+  const { file, size } = source;
+  const ranges = chunkRanges(size);
+  const chunks: (ManifestChunk & { upload: UploadableFile })[] = [];
+
+  // One pass over the source; each chunk is read again from the file when stored
+  const parts = readParts(
+    sourceStream(file, source.encoding),
+    ranges.map((r) => r.length),
+  );
+  for (const [i, range] of ranges.entries()) {
+    signal?.throwIfAborted();
+    const { value: part } = await parts.next();
+    const { stream, params } = sealed(() => sourceStream(file, source.encoding, range), encryption);
+    const bytes = params
+      ? new Uint8Array(
+          await new Response(
+            encryptStream(new Blob([part as BlobPart]).stream(), encryption!.key, params),
+          ).arrayBuffer(),
+        )
+      : (part as Uint8Array);
+    const pieceCid = await computeLocalPieceCid(new Blob([bytes as BlobPart]), { signal });
+    const enc = params && encodeEncryptionParams(params);
+    chunks.push({
+      pieceCid,
+      size: bytes.length,
+      sha256: await sha256Hex(bytes),
+      enc,
+      upload: {
+        name: `${file.name} (part ${i + 1}/${ranges.length})`,
+        size: bytes.length,
+        pieceCid,
+        stream,
+        source: { input: source.input, encoding: source.encoding, ...range },
+        metadata: enc ? { [ENCRYPTION_METADATA_KEY]: enc } : {},
+      },
+    });
+    onBytes(range.length);
+  }
+
+  const manifestBytes = serializeChunkManifest({
+    version: 1,
+    name: encryption ? undefined : file.name,
+    size,
+    chunks: chunks.map(({ upload: _, ...chunk }) => chunk),
+  });
+  const manifestCid = calculate(manifestBytes).toString();
+
+  const chunkUploads = chunks.map(({ upload }, i) => ({
+    ...upload,
+    metadata: {
+      ...upload.metadata,
+      ...(!encryption && { [FILE_METADATA_KEYS.name]: truncateMetadataValue(upload.name) }),
+      [CHUNK_METADATA_KEY]: `${manifestCid}/${i}`,
+    },
+  }));
+
+  const manifest: UploadableFile = {
+    name: file.name,
+    size: manifestBytes.length,
+    pieceCid: manifestCid,
+    content: new TextDecoder().decode(manifestBytes),
+    stream: () => new Blob([manifestBytes as BlobPart]).stream(),
+    source: { input: source.input },
+    metadata: pieceMetadata(
+      file,
+      {
+        [MANIFEST_METADATA_KEY]: encodeChunkedFileInfo({
+          chunkCount: chunks.length,
+          kdf: encryption?.params.kdf,
+        }),
+        ...reservedMetadata(source, encryption),
+      },
+      tags,
+      encryption,
+    ),
+  };
+
+  return [...chunkUploads, manifest];
+}
+
+// ─── Bundled small files ─────────────────────────────────────────────────────
+
+function bundleEntry(file: File, offset: number, sha256: string): BundleEntry {
+  return {
+    name: file.name,
+    path: file.webkitRelativePath || undefined,
+    type: file.type || undefined,
+    lastModified: file.lastModified,
+    offset,
+    length: file.size,
+    sha256,
+  };
+}
+
+/**
+ * Packs small files into one bundle piece plus a sidecar index piece with
+ * each file's byte range, so thousands of thumbnails cost two pieces.
+ */
+async function bundleUploads(
+  sources: PreparedSource[],
+  tags: Record<string, string>,
+): Promise<UploadableFile[]> {
+  const blob = new Blob(sources.map((s) => s.file));
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const bundleCid = await computeLocalPieceCid(blob);
+
+  const files: BundleEntry[] = [];
+  let offset = 0;
+  for (const { file } of sources) {
+    files.push(
+      bundleEntry(file, offset, await sha256Hex(bytes.subarray(offset, offset + file.size))),
+    );
+    offset += file.size;
+  }
+  const indexBytes = serializeBundleIndex({ version: 1, files });
+  const indexCid = calculate(indexBytes).toString();
+
+  const name = `Bundle of ${sources.length} files`;
+  return [
+    {
+      name,
+      size: bytes.length,
+      pieceCid: bundleCid,
+      stream: () => blob.stream(),
+      bundle: sources.map((s) => s.input),
+      metadata: {
+        [FILE_METADATA_KEYS.name]: name,
+        [BUNDLE_METADATA_KEY]: encodeBundleInfo({ fileCount: files.length, indexCid }),
+        ...tags,
+      },
+    },
+    {
+      name: `${name} (index)`,
+      size: indexBytes.length,
+      pieceCid: indexCid,
+      content: new TextDecoder().decode(indexBytes),
+      stream: () => new Blob([indexBytes as BlobPart]).stream(),
+      metadata: { [BUNDLE_INDEX_METADATA_KEY]: bundleCid },
+    },
+  ];
+}
+
+// ─── Estimate ────────────────────────────────────────────────────────────────
+
+/** Stands in for a SHA-256 not computed yet; hex digests all have this length. */
+const PLACEHOLDER_SHA256 = "0".repeat(64);
+
+/**
+ * Bytes one copy of `files` takes once `prepareUploads` has run, worked out
+ * without reading them: measured compressed sizes that shrink, the GCM tags
+ * of every encrypted piece and chunk, and each bundle's index. A chunked
+ * file's manifest is left out — it stays well under a kilobyte.
+ */
+export function estimatePreparedSize(
+  files: File[],
+  options: {
+    /** Measured compressed sizes; missing ones count as uncompressed */
+    compressedSizes?: (number | null | undefined)[];
+    encrypted?: boolean;
+    bundle?: boolean;
+  },
+): number {
+  const sizes = files.map(
+    (file, i) => storedCompressedSize(file.size, options.compressedSizes?.[i]) ?? file.size,
+  );
+  const isCompressed = (i: number) => sizes[i] < files[i].size;
+
+  const bundles =
+    options.bundle && !options.encrypted
+      ? planBundles(sizes.map((size, i) => (isCompressed(i) ? Infinity : size)))
+      : [];
+  const bundled = new Set(bundles.flat());
+
+  let total = 0;
+  for (const bundle of bundles) {
+    const entries: BundleEntry[] = [];
+    let offset = 0;
+    for (const i of bundle) {
+      entries.push(bundleEntry(files[i], offset, PLACEHOLDER_SHA256));
+      offset += files[i].size;
+    }
+    total += offset + serializeBundleIndex({ version: 1, files: entries }).length;
+  }
+  for (const [i, size] of sizes.entries()) {
+    if (bundled.has(i)) continue;
+    const pieces = needsChunking(size) ? chunkRanges(size).map((r) => r.length) : [size];
+    for (const piece of pieces) {
+      total += options.encrypted ? encryptedSize(piece, ENCRYPTION_CHUNK_SIZE) : piece;
+    }
+  }
+  return total;
+}
+
+// ─── Resume ──────────────────────────────────────────────────────────────────
+
+/** Resumed uploads keep the journaled metadata — including the IV — so the signed commit matches. */
+function resumedUpload(
+  upload: JobUpload,
+  index: number,
+  files: File[],
+  key?: CryptoKey,
+): UploadableFile {
+  if (upload.content !== undefined) {
+    return { ...upload, stream: () => new Blob([upload.content!]).stream() };
+  }
+  if (upload.bundle) {
+    const inputs = upload.bundle.map((i) => files[i]);
+    return { ...upload, stream: () => new Blob(inputs).stream() };
+  }
+
+  const file = files[upload.source?.input ?? index];
+  const { offset = 0, length, encoding } = upload.source ?? {};
+  const params = readEncryptionParams(upload.metadata);
+  if (params && !key)
+    throw new Error(`${upload.name} is encrypted — the key is required to resume`);
+
+  const plain = () =>
+    sourceStream(file, encoding, length === undefined ? undefined : { offset, length });
+  return {
+    ...upload,
+    stream: () => (params ? encryptStream(plain(), key!, params) : plain()),
+  };
+}
+
+// ─── Entry point ─────────────────────────────────────────────────────────────
+
+/**
+ * Pieces for a standard/CDN/encrypted upload: one per file, chunks plus a
+ * manifest for files above the piece size limit, and — when `bundle` is set —
+ * bundles of small plaintext files. Resumed jobs only need the bytes of
+ * pieces that never reached the primary, but read every selected file back
+ * in, since a failover makes the next primary store all pieces again.
+ */
+export async function prepareUploads(
+  files: File[],
+  options: {
+    job?: UploadJob;
+    encryption?: UploadEncryption;
+    compression?: UploadCompression;
+    /** Pack files under `BUNDLE_FILE_THRESHOLD` into bundle pieces (unencrypted uploads) */
+    bundle?: boolean;
+    /** Custom piece metadata for each file's own piece — not for chunks or bundle indexes */
+    metadata?: Record<string, string>;
+    signal?: AbortSignal;
+    /** Progress of hashing the files that are split into chunks */
+    onChunkProgress?: (sample: TransferSample) => void;
+  },
+): Promise<UploadableFile[]> {
+  const { job, encryption, compression, metadata: tags = {} } = options;
+  if (job) {
+    const allInputs = files.length === job.inputs.length;
+    return job.uploads.map((u, i) =>
+      job.stored[i] && !allInputs
+        ? storedUploadPlaceholder(u)
+        : resumedUpload(u, i, files, encryption?.key),
+    );
+  }
+
+  const sources: PreparedSource[] = files.map((file, input) => {
+    const compressedSize = compression?.sizes[input];
+    return compressedSize != null
+      ? { file, input, size: compressedSize, encoding: compression!.encoding }
+      : { file, input, size: file.size };
+  });
+
+  const totalBytes = sources
+    .filter((s) => needsChunking(s.size))
+    .reduce((acc, s) => acc + s.size, 0);
+  let hashedBytes = 0;
+  const progress = throttleReports(() =>
+    options.onChunkProgress?.({ bytes: hashedBytes, totalBytes }),
+  );
+
+  // Compressed files keep their own pieces — the index records plain byte ranges
+  const bundles =
+    options.bundle && !encryption
+      ? planBundles(sources.map((s) => (s.encoding ? Infinity : s.file.size)))
+      : [];
+  const bundled = new Set(bundles.flat());
+
+  const uploads: UploadableFile[] = [];
+  for (const bundle of bundles) {
+    options.signal?.throwIfAborted();
+    uploads.push(
+      ...(await bundleUploads(
+        bundle.map((i) => sources[i]),
+        tags,
+      )),
+    );
+  }
+  for (const source of sources) {
+    if (bundled.has(source.input)) continue;
+    if (!needsChunking(source.size)) {
+      uploads.push(fileUpload(source, tags, encryption));
+      continue;
+    }
+    const onBytes = (bytes: number) => {
+      hashedBytes += bytes;
+      progress.emit();
+    };
+    uploads.push(...(await chunkedUploads(source, tags, encryption, onBytes, options.signal)));
+  }
+  progress.flush();
+  return uploads;
+}
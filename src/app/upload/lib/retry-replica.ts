@@ -0,0 +1,103 @@
+import type { PieceResult, ProviderFailure, ProviderUpload, ResultData } from "@/app/upload/types";
+import { asPieceCID, type PieceCID } from "@filoz/synapse-core/piece";
+import type { Synapse } from "@filoz/synapse-sdk";
+
+export type RetryTarget = "same" | "new";
+
+/**
+ * Re-runs pull + commit for the pieces of a finished upload on one provider.
+ *
+ * The pieces are pulled from a provider that already committed them, so
+ * nothing is uploaded from the browser again. `target: "new"` lets the SDK
+ * pick a provider that holds none of the existing copies.
+ */
+export async function retryReplica(
+  synapse: Synapse,
+  result: ResultData,
+  failure: ProviderFailure,
+  target: RetryTarget,
+): Promise<ProviderUpload> {
+  // A provider that failed a later step (e.g. serving the pieces back) is a poor source
+  const failed = new Set(result.failures.map((f) => f.providerId));
+  const source = result.pieces[0]?.providers.find((u) => !failed.has(u.providerId));
+  if (!source) throw new Error("No healthy committed copy to pull the pieces from");
+
+  const metadata = result.datasetMetadata;
+  const withCDN = "withCDN" in metadata;
+
+  const sourceCtx = await synapse.storage.createContext({
+    providerId: BigInt(source.providerId),
+    dataSetId: BigInt(source.dataSetId),
+    metadata,
+    withCDN,
+  });
+
+  const knownProviders = new Set([
+    ...result.pieces.flatMap((p) => p.providers.map((u) => u.providerId)),
+    ...result.failures.map((f) => f.providerId),
+  ]);
+  const [ctx] =
+    target === "same"
+      ? [
+          await synapse.storage.createContext({
+            providerId: BigInt(failure.providerId),
+            metadata,
+            withCDN,
+          }),
+        ]
+      : await synapse.storage.createContexts({
+          count: 1,
+          metadata,
+          withCDN,
+          excludeProviderIds: [...knownProviders].map((id) => BigInt(id)),
+        });
+
+  const pieces = result.pieces.map((p) => ({
+    pieceCid: toPieceCid(p),
+    pieceMetadata: p.metadata,
+  }));
+  const extraData = await ctx.presignForCommit(pieces);
+
+  const pull = await ctx.pull({
+    pieces: pieces.map((p) => p.pieceCid),
+    from: (cid) => sourceCtx.getPieceUrl(cid),
+    extraData,
+  });
+  if (pull.status !== "complete") {
+    throw new Error(`${ctx.provider.name} failed to pull the pieces`);
+  }
+
+  const { txHash, dataSetId } = await ctx.commit({ pieces, extraData });
+
+  return {
+    providerId: ctx.provider.id.toString(),
+    providerName: ctx.provider.name,
+    dataSetId: dataSetId.toString(),
+    txHash,
+    ipfsRootCid: result.ipfsRootCid,
+  };
+}
+
+/** Adds a retried replica to every piece and drops the failure it replaces. */
+export function mergeRetriedReplica(
+  result: ResultData,
+  failure: ProviderFailure,
+  upload: ProviderUpload,
+): ResultData {
+  return {
+    ...result,
+    pieces: result.pieces.map((p) => ({
+      ...p,
+      providers: [...p.providers.filter((u) => u.providerId !== upload.providerId), upload],
+    })),
+    failures: result.failures.filter(
+      (f) => f.providerIndex !== failure.providerIndex || f.providerId !== failure.providerId,
+    ),
+  };
+}
+
+function toPieceCid(piece: PieceResult): PieceCID {
+  const cid = asPieceCID(piece.pieceCid);
+  if (!cid) throw new Error(`Invalid PieceCID ${piece.pieceCid}`);
+  return cid;
+}
@@ -0,0 +1,70 @@
+import type { StepTransfer, TransferSample } from "@/app/upload/types";
+
+/** Default interval between progress reports — keeps re-renders bounded on multi-GB uploads. */
+const REPORT_INTERVAL_MS = 250;
+
+/**
+ * Wraps a stream so every chunk pulled through it is counted.
+ * `onBytes` receives the running total read so far.
+ */
+export function meterStream(
+  stream: ReadableStream<Uint8Array>,
+  onBytes: (bytesRead: number) => void,
+): ReadableStream<Uint8Array> {
+  let bytesRead = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength;
+        onBytes(bytesRead);
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+}
+
+/**
+ * Rate-limits `report` to one call per interval. A report skipped by the
+ * throttle is delivered by `flush()`, so callers should flush once the transfer ends.
+ */
+export function throttleReports(report: () => void, intervalMs = REPORT_INTERVAL_MS) {
+  let last = 0;
+  let pending = false;
+
+  const emit = () => {
+    pending = true;
+    const now = Date.now();
+    if (now - last < intervalMs) return;
+    last = now;
+    pending = false;
+    report();
+  };
+
+  const flush = () => {
+    if (!pending) return;
+    pending = false;
+    report();
+  };
+
+  return { emit, flush };
+}
+
+/** Derives throughput and ETA, averaged since the first sample so the ETA doesn't jump around. */
+export function nextTransfer(
+  prev: StepTransfer | undefined,
+  sample: TransferSample,
+  now: number,
+): StepTransfer {
+  const startedAt = prev?.startedAt ?? now;
+  const elapsed = (now - startedAt) / 1000;
+  const throughput = elapsed > 0 ? sample.bytes / elapsed : 0;
+  const remaining = Math.max(sample.totalBytes - sample.bytes, 0);
+  const eta = throughput > 0 ? remaining / throughput : undefined;
+  return { ...sample, startedAt, throughput, eta };
+}
+
+/** Fraction of the transfer completed, in [0, 1] */
+export function transferFraction(transfer: TransferSample): number {
+  if (transfer.totalBytes <= 0) return 0;
+  return Math.min(transfer.bytes / transfer.totalBytes, 1);
+}
@@ -0,0 +1,45 @@
+import type { PieceResult, UncommittedWork } from "@/app/upload/types";
+
+/**
+ * Thrown when an upload is aborted through its AbortSignal.
+ * Carries whatever reached providers without being committed on-chain, and
+ * the pieces an earlier session of a resumed upload already committed.
+ */
+export class UploadCancelledError extends Error {
+  constructor(
+    readonly uncommitted: UncommittedWork[] = [],
+    readonly committed: PieceResult[] = [],
+  ) {
+    super("Upload cancelled");
+    this.name = "UploadCancelledError";
+  }
+}
+
+export function isUploadCancelled(error: unknown, signal?: AbortSignal): boolean {
+  return error instanceof UploadCancelledError || !!signal?.aborted;
+}
+
+/** `signal.throwIfAborted()` that surfaces as an `UploadCancelledError` */
+export function throwIfCancelled(
+  signal?: AbortSignal,
+  uncommitted?: () => UncommittedWork[],
+  committed?: () => PieceResult[],
+) {
+  if (signal?.aborted) throw new UploadCancelledError(uncommitted?.(), committed?.());
+}
+
+/** Resolves after `ms`, or rejects early when `signal` aborts */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new UploadCancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
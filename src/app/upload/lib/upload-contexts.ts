@@ -0,0 +1,143 @@
+import type { UploadMode } from "@/app/upload/types";
+import type { Synapse } from "@filoz/synapse-sdk";
+import type { StorageContext } from "@filoz/synapse-sdk/storage";
+import type { DataSet } from "@/lib/datasets";
+import { isIpfsIndexed } from "@/lib/piece";
+
+/**
+ * Storage contexts for a new upload, in copy order — the first is the
+ * primary. With `dataSetId` the primary is added to that dataset (on its
+ * provider, whatever `providerIds[0]` says). Copies pinned to a provider
+ * (`providerIds[i]`) go to it; the SDK picks providers for the rest, never
+ * one that is already used.
+ */
+export async function createUploadContexts(
+  synapse: Synapse,
+  options: {
+    copies: number;
+    /** Per copy: a provider ID, or null for automatic selection */
+    providerIds?: (string | null)[];
+    /** Existing dataset for the primary copy */
+    dataSetId?: string;
+    metadata: Record<string, string>;
+    withCDN?: boolean;
+  },
+): Promise<StorageContext[]> {
+  const { copies, dataSetId, metadata, withCDN } = options;
+  // The SDK cannot mix `dataSetIds` with `providerIds`, so the target dataset is resolved first
+  const primary = dataSetId
+    ? await synapse.storage.createContext({ dataSetId: BigInt(dataSetId), metadata, withCDN })
+    : undefined;
+
+  const slots = Array.from({ length: copies }, (_, i) =>
+    i === 0 && primary ? primary.provider.id.toString() : (options.providerIds?.[i] ?? null),
+  );
+  const used = slots.filter((id): id is string => id !== null).map((id) => BigInt(id));
+  if (new Set(used).size !== used.length) {
+    throw new Error("Each copy must go to a different provider");
+  }
+  if (used.length === 0) {
+    return synapse.storage.createContexts({ count: copies, metadata, withCDN });
+  }
+
+  const pinned = slots
+    .slice(primary ? 1 : 0)
+    .filter((id): id is string => id !== null)
+    .map((id) => BigInt(id));
+  const [pinnedContexts, autoContexts] = await Promise.all([
+    pinned.length > 0
+      ? synapse.storage.createContexts({
+          providerIds: pinned,
+          count: pinned.length,
+          metadata,
+          withCDN,
+        })
+      : Promise.resolve([]),
+    used.length < copies
+      ? synapse.storage.createContexts({
+          count: copies - used.length,
+          metadata,
+          withCDN,
+          excludeProviderIds: used,
+        })
+      : Promise.resolve([]),
+  ]);
+  return slots.map((id, i) => {
+    if (i === 0 && primary) return primary;
+    return (id === null ? autoContexts.shift() : pinnedContexts.shift())!;
+  });
+}
+
+/**
+ * Context on a provider outside `excludeProviderIds`, standing in for a
+ * primary that failed to store the pieces.
+ */
+export async function createReplacementContext(
+  synapse: Synapse,
+  excludeProviderIds: bigint[],
+  options: { metadata: Record<string, string>; withCDN?: boolean },
+): Promise<StorageContext> {
+  const [ctx] = await synapse.storage.createContexts({
+    count: 1,
+    metadata: options.metadata,
+    withCDN: options.withCDN,
+    excludeProviderIds,
+  });
+  return ctx;
+}
+
+/**
+ * Upload modes whose pieces belong in an existing dataset: CDN datasets take
+ * only CDN uploads and IPFS-indexed ones only pins; both kinds of plain
+ * upload share the rest.
+ */
+export function datasetUploadModes(dataset: DataSet): UploadMode[] {
+  if (dataset.cdn) return ["cdn"];
+  if (isIpfsIndexed(dataset.metadata)) return ["pin"];
+  return ["standard", "encrypted"];
+}
+
+const sameMetadata = (a: Record<string, string>, b: Record<string, string>) =>
+  Object.keys(a).length === Object.keys(b).length &&
+  Object.entries(b).every(([key, value]) => a[key] === value);
+
+/**
+ * How many datasets `createUploadContexts` will likely create: a copy only
+ * lands in an existing dataset on a provider that already holds one with
+ * exactly `metadata`. Automatic selection prefers such providers, but may
+ * still pick a new one — hence an estimate.
+ */
+export function estimateNewDatasets(
+  datasets: DataSet[],
+  options: {
+    copies: number;
+    providerIds?: (string | null)[];
+    dataSetId?: string;
+    metadata: Record<string, string>;
+  },
+): number {
+  const matching = new Set(
+    datasets
+      .filter((d) => sameMetadata(d.metadata, options.metadata))
+      .map((d) => d.provider.id.toString()),
+  );
+  const used = new Set<string>();
+  let created = 0;
+  let automatic = 0;
+  for (let i = 0; i < options.copies; i++) {
+    if (i === 0 && options.dataSetId) {
+      const target = datasets.find((d) => d.dataSetId.toString() === options.dataSetId);
+      if (target) used.add(target.provider.id.toString());
+      continue;
+    }
+    const providerId = options.providerIds?.[i] ?? null;
+    if (providerId === null) {
+      automatic++;
+      continue;
+    }
+    used.add(providerId);
+    if (!matching.has(providerId)) created++;
+  }
+  const reusable = Array.from(matching).filter((id) => !used.has(id)).length;
+  return created + Math.max(0, automatic - reusable);
+}
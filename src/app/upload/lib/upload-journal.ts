@@ -0,0 +1,371 @@
+import type {
+  FileDescriptor,
+  JobUpload,
+  ProviderProgress,
+  StepId,
+  StoredPiece,
+  UploadJob,
+  UploadStep,
+} from "@/app/upload/types";
+import { asPieceCID, type PieceCID } from "@filoz/synapse-core/piece";
+import type { Synapse } from "@filoz/synapse-sdk";
+import type { StorageContext } from "@filoz/synapse-sdk/storage";
+import type { UploadableFile } from "./upload-to-contexts";
+
+/**
+ * IndexedDB-backed journal of in-flight uploads.
+ *
+ * `uploadToContexts` records every checkpoint (stored PieceCIDs, presigned
+ * extraData, pull and commit results) so that a reload or crash after
+ * `primary.store()` does not force the user to pay for the upload again.
+ */
+
+const DB_NAME = "fs-upload-dapp";
+const DB_VERSION = 1;
+const JOBS_STORE = "upload-jobs";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(JOBS_STORE)) {
+        db.createObjectStore(JOBS_STORE, { keyPath: "id" }).createIndex("scope", "scope");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction(JOBS_STORE, mode).objectStore(JOBS_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// ─── Job CRUD ────────────────────────────────────────────────────────────────
+
+export async function listUploadJobs(scope: string): Promise<UploadJob[]> {
+  const jobs = await withStore<UploadJob[]>("readonly", (store) =>
+    store.index("scope").getAll(scope),
+  );
+  return jobs.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function saveUploadJob(job: UploadJob): Promise<IDBValidKey> {
+  return withStore("readwrite", (store) => store.put(job));
+}
+
+// Journal writes of a job go through one chain, so they land in order and a delete runs last
+const writeChains = new Map<string, Promise<void>>();
+/** Jobs with a write queued but not started — it saves their latest state */
+const queuedWrites = new Set<string>();
+const deletedJobs = new Set<string>();
+
+function queueJobWrite(job: UploadJob, onError: (error: unknown) => void) {
+  if (queuedWrites.has(job.id) || deletedJobs.has(job.id)) return;
+  queuedWrites.add(job.id);
+  const previous = writeChains.get(job.id) ?? Promise.resolve();
+  const write = previous.then(async () => {
+    queuedWrites.delete(job.id);
+    if (deletedJobs.has(job.id)) return;
+    try {
+      await saveUploadJob(job);
+    } catch (error) {
+      onError(error);
+    }
+  });
+  writeChains.set(job.id, write);
+}
+
+/** Waits for the job's pending journal writes, so none of them brings it back. */
+export async function deleteUploadJob(id: string): Promise<undefined> {
+  deletedJobs.add(id);
+  await writeChains.get(id);
+  writeChains.delete(id);
+  return withStore("readwrite", (store) => store.delete(id));
+}
+
+// ─── Pure helpers ────────────────────────────────────────────────────────────
+
+export function describeFile(file: File): FileDescriptor {
+  return {
+    key: `${file.name}-${file.size}-${file.lastModified}`,
+    name: file.name,
+    size: file.size,
+    lastModified: file.lastModified,
+  };
+}
+
+/** Upload indexes whose piece has not reached the primary yet. */
+export function getPendingUploads(job: UploadJob): number[] {
+  return job.stored.flatMap((piece, i) => (piece ? [] : [i]));
+}
+
+/** Input files the user has to select again before the job can resume. */
+export function getMissingInputs(job: UploadJob, selected: File[]): FileDescriptor[] {
+  if (getPendingUploads(job).length === 0) return [];
+  const available = new Set(selected.map((f) => describeFile(f).key));
+  return job.inputs.filter((d) => !available.has(d.key));
+}
+
+/** Orders `selected` like `job.inputs`. Assumes `getMissingInputs` returned nothing. */
+export function matchInputs(job: UploadJob, selected: File[]): File[] {
+  const byKey = new Map(selected.map((f) => [describeFile(f).key, f]));
+  return job.inputs.flatMap((d) => byKey.get(d.key) ?? []);
+}
+
+export function describeJobProgress(job: UploadJob): string {
+  const stored = job.stored.filter(Boolean).length;
+  const committed = job.providers.filter((p) => p.commit).length;
+  if (stored < job.stored.length) {
+    return `${stored}/${job.stored.length} pieces stored on primary`;
+  }
+  return `Stored on primary · ${committed}/${job.providers.length} providers committed`;
+}
+
+/**
+ * Stand-in for an upload already stored on the primary when its input files
+ * were not selected again. Its bytes are only read if the primary is demoted
+ * and the next one has to store everything.
+ */
+export function storedUploadPlaceholder(upload: JobUpload): UploadableFile {
+  return {
+    ...upload,
+    stream: () => {
+      throw new Error(
+        `${upload.name} has to be stored on a new primary — select its files again and resume`,
+      );
+    },
+  };
+}
+
+/**
+ * Recreates the job's contexts on the same providers, in the same order.
+ * A dataset created by an earlier commit is reused rather than created twice.
+ */
+export function resumeContexts(
+  synapse: Synapse,
+  job: UploadJob,
+  options: { metadata: Record<string, string>; withCDN?: boolean },
+): Promise<StorageContext[]> {
+  return Promise.all(
+    job.providers.map((p) => {
+      const dataSetId = p.commit?.dataSetId ?? p.dataSetId;
+      return synapse.storage.createContext({
+        providerId: BigInt(p.providerId),
+        dataSetId: dataSetId ? BigInt(dataSetId) : undefined,
+        metadata: options.metadata,
+        withCDN: options.withCDN,
+      });
+    }),
+  );
+}
+
+// ─── Journal ─────────────────────────────────────────────────────────────────
+
+type ProviderPhaseUpdater = {
+  updateProvider: (providerIdx: number, stepId: StepId, update: Partial<UploadStep>) => void;
+  promoteProvider?: (providerIdx: number) => UploadStep[];
+  addProvider?: (label: string) => ProviderProgress;
+};
+
+export interface UploadJournal {
+  job: UploadJob;
+  storedPiece: (uploadIdx: number) => { pieceCid: PieceCID; size: number } | undefined;
+  recordStored: (uploadIdx: number, piece: { pieceCid: PieceCID; size: number }) => void;
+  presigned: (ctx: StorageContext) => `0x${string}` | undefined;
+  recordPresigned: (ctx: StorageContext, extraData: `0x${string}`) => void;
+  isPulled: (ctx: StorageContext) => boolean;
+  recordPulled: (ctx: StorageContext) => void;
+  demoted: (ctx: StorageContext) => string | undefined;
+  recordDemoted: (ctx: StorageContext, error: string) => void;
+  /** A provider added to stand in for a demoted one; resumed jobs recreate it like the others. */
+  recordReplacement: (ctx: StorageContext) => void;
+  committed: (ctx: StorageContext) => { txHash: string; dataSetId: string } | undefined;
+  recordCommitted: (ctx: StorageContext, commit: { txHash: string; dataSetId: bigint }) => void;
+  /** Wraps a phase updater so the per-provider timeline is mirrored into the job. */
+  trackPhase: <T extends ProviderPhaseUpdater>(phase: T) => T;
+}
+
+/**
+ * `onPersistError` hears about failed writes; the upload itself goes on, it
+ * just may not be resumable from the latest checkpoint.
+ */
+export function createUploadJournal(
+  job: UploadJob,
+  onPersistError: (error: unknown) => void,
+): UploadJournal {
+  const persist = () => {
+    job.updatedAt = Date.now();
+    queueJobWrite(job, onPersistError);
+  };
+
+  const providerOf = (ctx: StorageContext) =>
+    job.providers.find((p) => p.providerId === ctx.provider.id.toString());
+
+  return {
+    job,
+
+    storedPiece: (uploadIdx) => {
+      const piece = job.stored[uploadIdx];
+      const pieceCid = piece ? asPieceCID(piece.pieceCid) : null;
+      return piece && pieceCid ? { pieceCid, size: piece.size } : undefined;
+    },
+
+    recordStored: (uploadIdx, { pieceCid, size }) => {
+      job.stored[uploadIdx] = { pieceCid: pieceCid.toString(), size } satisfies StoredPiece;
+      persist();
+    },
+
+    presigned: (ctx) => {
+      const provider = providerOf(ctx);
+      // extraData is only valid for the dataset state it was signed against
+      if (!provider?.extraData || provider.dataSetId !== ctx.dataSetId?.toString()) return;
+      return provider.extraData;
+    },
+
+    recordPresigned: (ctx, extraData) => {
+      const provider = providerOf(ctx);
+      if (!provider) return;
+      provider.extraData = extraData;
+      provider.dataSetId = ctx.dataSetId?.toString();
+      persist();
+    },
+
+    isPulled: (ctx) => providerOf(ctx)?.pulled ?? false,
+
+    recordPulled: (ctx) => {
+      const provider = providerOf(ctx);
+      if (!provider) return;
+      provider.pulled = true;
+      persist();
+    },
+
+    demoted: (ctx) => providerOf(ctx)?.demoted,
+
+    recordDemoted: (ctx, error) => {
+      const provider = providerOf(ctx);
+      if (!provider) return;
+      provider.demoted = error;
+      // Pieces stored so far live on the demoted provider; the next primary stores them again
+      job.stored = job.stored.map(() => null);
+      persist();
+    },
+
+    recordReplacement: (ctx) => {
+      job.providers.push({
+        providerId: ctx.provider.id.toString(),
+        providerName: ctx.provider.name,
+        dataSetId: ctx.dataSetId?.toString(),
+        pulled: false,
+      });
+      persist();
+    },
+
+    committed: (ctx) => providerOf(ctx)?.commit,
+
+    recordCommitted: (ctx, { txHash, dataSetId }) => {
+      const provider = providerOf(ctx);
+      if (!provider) return;
+      provider.commit = { txHash, dataSetId: dataSetId.toString() };
+      persist();
+    },
+
+    trackPhase: (phase) => ({
+      ...phase,
+      updateProvider: (idx, stepId, update) => {
+        phase.updateProvider(idx, stepId, update);
+        const progress: ProviderProgress | undefined = job.progress[idx];
+        if (!progress) return;
+        progress.steps = progress.steps.map((s) => (s.id === stepId ? { ...s, ...update } : s));
+        persist();
+      },
+      ...(phase.promoteProvider && {
+        // The label is left as it was: replaying the failover on resume marks it again
+        promoteProvider: (idx: number) => {
+          const steps = phase.promoteProvider!(idx);
+          const progress: ProviderProgress | undefined = job.progress[idx];
+          if (progress) {
+            progress.steps = steps.map((s) => ({ ...s }));
+            persist();
+          }
+          return steps;
+        },
+      }),
+      ...(phase.addProvider && {
+        addProvider: (label: string) => {
+          const progress = phase.addProvider!(label);
+          job.progress.push({ ...progress });
+          persist();
+          return progress;
+        },
+      }),
+    }),
+  };
+}
+
+/**
+ * Creates and persists a fresh job right before the store step.
+ * Provider order matches `contexts`, so index 0 is the primary.
+ */
+export async function startUploadJob(params: {
+  scope: string;
+  mode: UploadJob["mode"];
+  copies: number;
+  inputs: File[];
+  uploads: JobUpload[];
+  contexts: StorageContext[];
+  progress: ProviderProgress[];
+  metadata?: Record<string, string>;
+  datasetMetadata?: Record<string, string>;
+  ipfsRootCid?: string;
+  encryption?: UploadJob["encryption"];
+  onPersistError: (error: unknown) => void;
+}): Promise<UploadJournal> {
+  const now = Date.now();
+  const job: UploadJob = {
+    id: crypto.randomUUID(),
+    scope: params.scope,
+    mode: params.mode,
+    copies: params.copies,
+    createdAt: now,
+    updatedAt: now,
+    inputs: params.inputs.map(describeFile),
+    // Metadata is kept so a resumed commit signs exactly what the first session stored
+    uploads: params.uploads.map((upload) => ({
+      name: upload.name,
+      size: upload.size,
+      metadata: upload.metadata,
+      pieceCid: upload.pieceCid,
+      source: upload.source,
+      content: upload.content,
+      bundle: upload.bundle,
+    })),
+    stored: params.uploads.map(() => null),
+    providers: params.contexts.map((ctx) => ({
+      providerId: ctx.provider.id.toString(),
+      providerName: ctx.provider.name,
+      dataSetId: ctx.dataSetId?.toString(),
+      pulled: false,
+    })),
+    progress: params.progress,
+    metadata: params.metadata,
+    datasetMetadata: params.datasetMetadata,
+    ipfsRootCid: params.ipfsRootCid,
+    encryption: params.encryption,
+  };
+  await saveUploadJob(job);
+  return createUploadJournal(job, params.onPersistError);
+}
@@ -1,20 +1,40 @@
-import type { PieceResult, ProviderFailure, StepId, UploadStep } from "@/app/upload/types";
+import type {
+  JobUpload,
+  PieceResult,
+  ProviderFailure,
+  ProviderProgress,
+  StepId,
+  TransferSample,
+  UncommittedWork,
+  UploadStep,
+} from "@/app/upload/types";
+import { assertValidMetadata, getErrorMessage } from "@/lib";
+import { asPieceCID, type PieceCID } from "@filoz/synapse-core/piece";
 import { PDPProvider } from "@filoz/synapse-sdk";
 import type { StorageContext } from "@filoz/synapse-sdk/storage";
+import { meterStream, throttleReports } from "./transfer-progress";
+import { throwIfCancelled } from "./upload-cancelled";
+import type { UploadJournal } from "./upload-journal";
 
-type UploadableFile = {
-  name: string;
-  size: number;
+/** `metadata` is merged over `options.metadata`; a precomputed `pieceCid` skips hashing in `store`. */
+export type UploadableFile = JobUpload & {
   stream: () => ReadableStream<Uint8Array>;
 };
 
 type ProviderPhaseUpdater = {
   updateProvider: (providerIdx: number, stepId: StepId, update: Partial<UploadStep>) => void;
+  updateProviderTransfer?: (providerIdx: number, stepId: StepId, sample: TransferSample) => void;
+  /** Failover: the provider takes over the primary role and its timeline switches to primary steps */
+  promoteProvider?: (providerIdx: number) => UploadStep[];
+  /** Failover: a replacement secondary joins with its own timeline */
+  addProvider?: (label: string) => ProviderProgress;
 };
 
 interface UploadToContextsResult {
   pieces: PieceResult[];
   failures: ProviderFailure[];
+  /** The contexts in provider order, replacements for demoted primaries included */
+  contexts: StorageContext[];
 }
 
 export async function uploadToContexts(
@@ -24,57 +44,280 @@ export async function uploadToContexts(
   options?: {
     metadata?: Record<string, string>;
     onProviderError?: (provider: PDPProvider, error: string) => void;
+    /** Checkpoints every step; steps already recorded in the journal are skipped. */
+    journal?: UploadJournal;
+    /** Aborts pending store/pull calls; commits already submitted still land on-chain. */
+    signal?: AbortSignal;
+    /**
+     * Context on a provider none of the upload uses, to keep the copy count
+     * when a primary is demoted. Without it the upload ends one copy short.
+     */
+    replaceProvider?: (excludeProviderIds: bigint[]) => Promise<StorageContext>;
   },
 ): Promise<UploadToContextsResult> {
+  const journal = options?.journal;
+  if (journal) phase = journal.trackPhase(phase);
+  // Replacements for demoted providers are appended
+  contexts = [...contexts];
+
   const idxOf = new Map<bigint, number>();
   contexts.forEach((ctx, i) => idxOf.set(ctx.provider.id, i));
 
-  const [primary, ...secondaries] = contexts;
   const ipfsRootCid = options?.metadata?.ipfsRootCid;
+  const signal = options?.signal;
+
+  // Validated up front: presignForCommit signs this metadata, so it must not change later
+  const pieceMetadata = files.map((f) => {
+    const metadata = { ...options?.metadata, ...f.metadata };
+    assertValidMetadata(metadata, "piece");
+    return Object.keys(metadata).length > 0 ? metadata : undefined;
+  });
 
-  // ── 1. Store files on primary ──────────────────────────────────────────────
+  const failures: ProviderFailure[] = [];
+  const recordFailure = (ctx: StorageContext, kind: ProviderFailure["kind"], error: string) => {
+    options?.onProviderError?.(ctx.provider, error);
+    failures.push({
+      kind,
+      providerIndex: idxOf.get(ctx.provider.id) ?? 0,
+      providerId: ctx.provider.id.toString(),
+      providerName: ctx.provider.name,
+      error,
+    });
+  };
 
-  const storeResults = await Promise.all(files.map((f) => primary.store(f.stream())));
+  // contexts[0] starts as primary; if its store fails the next context is promoted
+  let primaryPos = 0;
+  let primary = contexts[0];
 
-  phase.updateProvider(idxOf.get(primary.provider.id)!, "upload", {
-    status: "done",
-    detail: "Stored on primary",
-  });
+  // What providers hold so far — reported if the upload is cancelled before commit
+  const storedCids: string[] = [];
+  const pulledBy: StorageContext[] = [];
+  const uncommitted = (): UncommittedWork[] => {
+    if (storedCids.length === 0) return [];
+    return [
+      { providerName: primary.provider.name, role: "primary", pieceCids: [...storedCids] },
+      ...pulledBy.map((ctx) => ({
+        providerName: ctx.provider.name,
+        role: "secondary" as const,
+        pieceCids: [...storedCids],
+      })),
+    ];
+  };
+  // Commits an earlier session made stay on-chain, whatever happens to this one
+  const committed = (): PieceResult[] => {
+    const commits = contexts.flatMap((ctx) => {
+      const commit = journal?.committed(ctx);
+      return commit ? [{ ctx, commit }] : [];
+    });
+    if (commits.length === 0) return [];
+    return files.flatMap((_, i): PieceResult[] => {
+      const stored = journal?.storedPiece(i);
+      if (!stored) return [];
+      return [
+        {
+          pieceCid: stored.pieceCid.toString(),
+          size: stored.size,
+          metadata: pieceMetadata[i],
+          providers: commits.map(({ ctx, commit }) => ({
+            providerId: ctx.provider.id.toString(),
+            providerName: ctx.provider.name,
+            dataSetId: commit.dataSetId,
+            txHash: commit.txHash,
+            ipfsRootCid,
+          })),
+        },
+      ];
+    });
+  };
+  const rethrowIfCancelled = (error: unknown): never => {
+    throwIfCancelled(signal, uncommitted, committed);
+    throw error;
+  };
+
+  // ── 1. Store files on primary (with failover) ──────────────────────────────
+
+  const totalBytes = files.reduce((acc, f) => acc + f.size, 0);
+
+  const storeOn = async (ctx: StorageContext) => {
+    const provIdx = idxOf.get(ctx.provider.id)!;
+    const fileTransfers = files.map((f) => ({ name: f.name, bytes: 0, totalBytes: f.size }));
+    const storeProgress = throttleReports(() =>
+      phase.updateProviderTransfer?.(provIdx, "upload", {
+        bytes: fileTransfers.reduce((acc, f) => acc + f.bytes, 0),
+        totalBytes,
+        files: fileTransfers.map((f) => ({ ...f })),
+      }),
+    );
+
+    // One failed file stops the rest of this attempt, so nothing lands on a demoted primary
+    const attempt = new AbortController();
+    const attemptSignal = signal ? AbortSignal.any([signal, attempt.signal]) : attempt.signal;
+
+    let restoredCount = 0;
+    const results = await Promise.all(
+      files.map(async (f, i): Promise<{ pieceCid: PieceCID; size: number }> => {
+        const restored = journal?.storedPiece(i);
+        if (restored) {
+          restoredCount++;
+          storedCids.push(restored.pieceCid.toString());
+          fileTransfers[i].bytes = f.size;
+          return restored;
+        }
+        const stream = meterStream(f.stream(), (bytesRead) => {
+          fileTransfers[i].bytes = bytesRead;
+          storeProgress.emit();
+        });
+        const result = await ctx.store(stream, {
+          signal: attemptSignal,
+          pieceCid: asPieceCID(f.pieceCid) ?? undefined,
+        });
+        attemptSignal.throwIfAborted();
+        storedCids.push(result.pieceCid.toString());
+        journal?.recordStored(i, result);
+        return result;
+      }),
+    ).catch((error) => {
+      attempt.abort();
+      throw error;
+    });
+    storeProgress.flush();
+
+    phase.updateProvider(provIdx, "upload", {
+      status: "done",
+      detail:
+        restoredCount === files.length
+          ? "Stored on primary (previous session)"
+          : "Stored on primary",
+    });
+    return results;
+  };
+
+  // Stops this provider from acting as primary; its partial uploads are abandoned
+  const demote = (ctx: StorageContext, error: string) => {
+    const provIdx = idxOf.get(ctx.provider.id)!;
+    phase.updateProvider(provIdx, "upload", { status: "failed", error });
+    phase.updateProvider(provIdx, "confirm", { status: "skipped" });
+    journal?.recordDemoted(ctx, error);
+    storedCids.length = 0;
+  };
+
+  // A replacement pulls from the new primary like any other secondary
+  const replace = async (ctx: StorageContext, error: string) => {
+    if (!options?.replaceProvider) {
+      recordFailure(ctx, "store", error);
+      return;
+    }
+    let replacement: StorageContext;
+    try {
+      replacement = await options.replaceProvider(contexts.map((c) => c.provider.id));
+    } catch (replaceError) {
+      throwIfCancelled(signal, uncommitted, committed);
+      const reason = getErrorMessage(replaceError);
+      recordFailure(ctx, "store", `${error} (no replacement provider: ${reason} — one copy short)`);
+      return;
+    }
+    recordFailure(ctx, "store", error);
+    idxOf.set(replacement.provider.id, contexts.length);
+    contexts.push(replacement);
+    phase.addProvider?.(`Provider ${contexts.length} (replacement)`);
+    journal?.recordReplacement(replacement);
+  };
+
+  let storeResults: { pieceCid: PieceCID; size: number }[] | undefined;
+  while (!storeResults) {
+    const demotedError = journal?.demoted(primary);
+    if (demotedError) {
+      // Demoted in a previous session — replay the failover; its replacement is already a context
+      demote(primary, demotedError);
+      recordFailure(primary, "store", demotedError);
+    } else {
+      try {
+        storeResults = await storeOn(primary);
+        break;
+      } catch (error) {
+        throwIfCancelled(signal, uncommitted, committed);
+        if (primaryPos === contexts.length - 1) throw error;
+        demote(primary, getErrorMessage(error));
+        await replace(primary, getErrorMessage(error));
+      }
+    }
+    if (primaryPos === contexts.length - 1) {
+      throw new Error(`All ${contexts.length} providers failed to store the pieces`);
+    }
+    primary = contexts[++primaryPos];
+    phase.promoteProvider?.(idxOf.get(primary.provider.id)!);
+  }
+
+  // Demoted providers drop out of the rest of the pipeline
+  const activeContexts = contexts.slice(primaryPos);
+  const secondaries = activeContexts.slice(1);
 
   // ── 2. Presign commits (avoids wallet prompts during commit phase) ─────────
 
-  const commitPieces = storeResults.map((r) => ({
+  const commitPieces = storeResults.map((r, i) => ({
     pieceCid: r.pieceCid,
-    pieceMetadata: options?.metadata,
+    pieceMetadata: pieceMetadata[i],
   }));
 
-  const extraData = await Promise.all(contexts.map((ctx) => ctx.presignForCommit(commitPieces)));
+  throwIfCancelled(signal, uncommitted, committed);
+
+  const extraData = await Promise.all(
+    activeContexts.map(async (ctx) => {
+      const restored = journal?.presigned(ctx);
+      if (restored) return restored;
+      const signed = await ctx.presignForCommit(commitPieces);
+      journal?.recordPresigned(ctx, signed);
+      return signed;
+    }),
+  ).catch(rethrowIfCancelled);
   const secondaryExtraData = extraData.slice(1);
 
   // ── 3. Pull pieces to secondaries ──────────────────────────────────────────
 
   const pieceCids = storeResults.map((r) => r.pieceCid);
+  const pieceSizes = new Map<string, number>(
+    storeResults.map((r) => [r.pieceCid.toString(), r.size]),
+  );
+  const totalPieceBytes = [...pieceSizes.values()].reduce((acc, size) => acc + size, 0);
   const pullSucceeded = new Set<bigint>([primary.provider.id]);
 
   const pullResults = await Promise.allSettled(
-    secondaries.map((ctx, i) =>
-      ctx.pull({
+    secondaries.map(async (ctx, i) => {
+      if (journal?.isPulled(ctx)) {
+        pulledBy.push(ctx);
+        return { status: "complete" as const };
+      }
+      const pulled = new Set<string>();
+      const result = await ctx.pull({
         pieces: pieceCids,
+        signal,
         from: (cid) => primary.getPieceUrl(cid),
         extraData: secondaryExtraData[i],
-        onProgress: (_, status) => {
+        onProgress: (cid, status) => {
           const i = idxOf.get(ctx.provider.id);
           if (i == null) return;
           phase.updateProvider(i, "pull", {
             status: status === "failed" ? "failed" : "active",
             detail: `Pull ${status}`,
           });
+          if (status !== "complete") return;
+          pulled.add(cid.toString());
+          phase.updateProviderTransfer?.(i, "pull", {
+            bytes: [...pulled].reduce((acc, c) => acc + (pieceSizes.get(c) ?? 0), 0),
+            totalBytes: totalPieceBytes,
+          });
         },
-      }),
-    ),
+      });
+      if (result.status === "complete") {
+        pulledBy.push(ctx);
+        journal?.recordPulled(ctx);
+      }
+      return result;
+    }),
   );
 
-  const failures: ProviderFailure[] = [];
+  // Last chance to stop — nothing below can be undone once submitted
+  throwIfCancelled(signal, uncommitted, committed);
 
   pullResults.forEach((result, i) => {
     const ctx = secondaries[i];
@@ -90,19 +333,20 @@ export async function uploadToContexts(
           ? (result.reason?.message ?? "Pull failed")
           : "Some pieces failed to pull";
       phase.updateProvider(provIdx, "pull", { status: "failed", error });
-      options?.onProviderError?.(ctx.provider, error);
-      failures.push({ providerIndex: provIdx, providerName: ctx.provider.name, error });
+      recordFailure(ctx, "pull", error);
     }
   });
 
   // ── 4. Commit (only providers that have the data) ──────────────────────────
 
   const commitResults = await Promise.allSettled(
-    contexts.map((ctx, i) => {
+    activeContexts.map(async (ctx, i) => {
       if (!pullSucceeded.has(ctx.provider.id)) {
-        return Promise.reject(new Error("Skipped: pull did not complete"));
+        throw new Error("Skipped: pull did not complete");
       }
-      return ctx.commit({
+      const restored = journal?.committed(ctx);
+      if (restored) return { txHash: restored.txHash, dataSetId: BigInt(restored.dataSetId) };
+      const result = await ctx.commit({
         pieces: commitPieces,
         extraData: extraData[i],
         onSubmitted: () => {
@@ -115,6 +359,8 @@ export async function uploadToContexts(
           }
         },
       });
+      journal?.recordCommitted(ctx, result);
+      return result;
     }),
   );
 
@@ -122,14 +368,19 @@ export async function uploadToContexts(
 
   // Initialize pieces from storeResults
   const pieceMap = new Map<string, PieceResult>();
-  for (const r of storeResults) {
+  storeResults.forEach((r, i) => {
     const cid = r.pieceCid.toString();
-    pieceMap.set(cid, { pieceCid: cid, size: r.size, providers: [] });
-  }
+    pieceMap.set(cid, {
+      pieceCid: cid,
+      size: r.size,
+      providers: [],
+      metadata: pieceMetadata[i],
+    });
+  });
 
   // Collect successful commits into pieces, failed commits into failures
-  for (let ctxIdx = 0; ctxIdx < contexts.length; ctxIdx++) {
-    const ctx = contexts[ctxIdx];
+  for (let ctxIdx = 0; ctxIdx < activeContexts.length; ctxIdx++) {
+    const ctx = activeContexts[ctxIdx];
     const commit = commitResults[ctxIdx];
     const provIdx = idxOf.get(ctx.provider.id) ?? 0;
 
@@ -137,8 +388,7 @@ export async function uploadToContexts(
       const error: string = commit.reason?.message ?? "Commit failed";
       phase.updateProvider(provIdx, "confirm", { status: "failed", error });
       if (pullSucceeded.has(ctx.provider.id)) {
-        options?.onProviderError?.(ctx.provider, error);
-        failures.push({ providerIndex: provIdx, providerName: ctx.provider.name, error });
+        recordFailure(ctx, "commit", error);
       }
       continue;
     }
@@ -167,5 +417,5 @@ export async function uploadToContexts(
     throw new Error(`All ${contexts.length} provider uploads failed`);
   }
 
-  return { pieces, failures };
+  return { pieces, failures, contexts };
 }
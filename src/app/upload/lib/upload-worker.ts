@@ -0,0 +1,131 @@
+import type { TransferSample } from "@/app/upload/types";
+import type { UnixFsProfile } from "@/lib/unixfs-profile";
+import { buildCarFromFiles, type BrowserCarBuildResult } from "./filecoin-pin/car-builder";
+import { calculatePieceCid } from "./piece-cid";
+import { UploadCancelledError } from "./upload-cancelled";
+import type { UploadWorkerRequest, UploadWorkerResponse } from "./upload.worker";
+
+/**
+ * Main-thread side of `upload.worker.ts`. Each call has the same signature
+ * as the function it offloads and runs it on the main thread when workers
+ * are unavailable (or the worker failed to load).
+ */
+
+type WorkOptions = { signal?: AbortSignal; onProgress?: (sample: TransferSample) => void };
+
+type WorkRequest = Exclude<UploadWorkerRequest, { type: "cancel" | "dispose" }>;
+type WorkResult = Exclude<UploadWorkerResponse, { type: "progress" | "error" }>;
+
+interface PendingRequest {
+  resolve: (result: WorkResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (sample: TransferSample) => void;
+}
+
+/** `null` once workers turned out to be unavailable */
+let worker: Worker | null | undefined;
+let nextId = 0;
+const pending = new Map<number, PendingRequest>();
+
+function onMessage(event: MessageEvent<UploadWorkerResponse>) {
+  const response = event.data;
+  const request = pending.get(response.id);
+  if (!request) return;
+  if (response.type === "progress") return request.onProgress?.(response.sample);
+  pending.delete(response.id);
+  if (response.type !== "error") return request.resolve(response);
+  request.reject(response.cancelled ? new UploadCancelledError() : new Error(response.error));
+}
+
+/** The worker script failed to load or crashed; its requests are redone on the main thread. */
+class WorkerUnavailableError extends Error {}
+
+function onError() {
+  worker = null;
+  for (const request of pending.values()) request.reject(new WorkerUnavailableError());
+  pending.clear();
+}
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  try {
+    worker =
+      typeof Worker === "undefined"
+        ? null
+        : new Worker(new URL("./upload.worker.ts", import.meta.url), { type: "module" });
+  } catch {
+    worker = null;
+  }
+  worker?.addEventListener("message", onMessage);
+  worker?.addEventListener("error", onError);
+  return worker;
+}
+
+function run<T extends WorkResult["type"]>(
+  target: Worker,
+  request: WorkRequest,
+  options?: WorkOptions,
+): Promise<Extract<WorkResult, { type: T }>> {
+  const { id } = request;
+  const onAbort = () => target.postMessage({ id, type: "cancel" } satisfies UploadWorkerRequest);
+  options?.signal?.addEventListener("abort", onAbort, { once: true });
+  return new Promise<WorkResult>((resolve, reject) => {
+    if (options?.signal?.aborted) return reject(new UploadCancelledError());
+    pending.set(id, { resolve, reject, onProgress: options?.onProgress });
+    target.postMessage(request);
+  }).finally(() => options?.signal?.removeEventListener("abort", onAbort)) as Promise<
+    Extract<WorkResult, { type: T }>
+  >;
+}
+
+async function offload<T>(
+  work: (target: Worker, id: number) => Promise<T>,
+  fallback: () => Promise<T>,
+): Promise<T> {
+  const target = getWorker();
+  if (!target) return fallback();
+  try {
+    return await work(target, nextId++);
+  } catch (error) {
+    if (error instanceof WorkerUnavailableError) return fallback();
+    throw error;
+  }
+}
+
+// ─── Offloaded work ──────────────────────────────────────────────────────────
+
+/** PieceCID of a file as it would be stored by a plain upload (see `calculatePieceCid`). */
+export function computeLocalPieceCid(blob: Blob, options?: WorkOptions): Promise<string> {
+  return offload(
+    async (target, id) => {
+      const result = await run<"pieceCid">(target, { id, type: "pieceCid", blob }, options);
+      return result.pieceCid;
+    },
+    () => calculatePieceCid(blob, options),
+  );
+}
+
+/** `buildCarFromFiles` in the worker; `dispose` asks the worker to release the CAR. */
+export function buildCarInWorker(
+  files: File[],
+  options?: WorkOptions & { profile?: UnixFsProfile },
+): Promise<BrowserCarBuildResult> {
+  // `webkitRelativePath` does not survive structured cloning
+  const paths = files.map(
+    (file) => (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name,
+  );
+  return offload(
+    async (target, id) => {
+      const { rootCid, car, totalFiles, totalSize } = await run<"car">(
+        target,
+        { id, type: "buildCar", files, paths, profile: options?.profile },
+        options,
+      );
+      const dispose = async () => {
+        target.postMessage({ id, type: "dispose" } satisfies UploadWorkerRequest);
+      };
+      return { rootCid, car, totalFiles, totalSize, dispose };
+    },
+    () => buildCarFromFiles(files, options),
+  );
+}
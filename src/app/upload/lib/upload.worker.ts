@@ -0,0 +1,78 @@
+import type { TransferSample } from "@/app/upload/types";
+import type { UnixFsProfile } from "@/lib/unixfs-profile";
+import { buildCarFromFiles } from "./filecoin-pin/car-builder";
+import { calculatePieceCid } from "./piece-cid";
+import { isUploadCancelled } from "./upload-cancelled";
+
+export type UploadWorkerRequest =
+  | { id: number; type: "pieceCid"; blob: Blob }
+  | {
+      id: number;
+      type: "buildCar";
+      files: File[];
+      /** Relative paths aligned with `files` */
+      paths: string[];
+      profile?: UnixFsProfile;
+    }
+  | { id: number; type: "cancel" }
+  /** Releases the CAR built by request `id` */
+  | { id: number; type: "dispose" };
+
+export type UploadWorkerResponse =
+  | { id: number; type: "progress"; sample: TransferSample }
+  | { id: number; type: "pieceCid"; pieceCid: string }
+  | { id: number; type: "car"; rootCid: string; car: Blob; totalFiles: number; totalSize: number }
+  | { id: number; type: "error"; error: string; cancelled?: boolean };
+
+// UnixFS import and PieceCID hashing take seconds of CPU per GiB — kept off the main thread
+
+const controllers = new Map<number, AbortController>();
+/** Built CARs stay in OPFS until the page has stored them */
+const disposers = new Map<number, () => Promise<void>>();
+
+const post = (response: UploadWorkerResponse) => self.postMessage(response);
+
+async function handle(request: UploadWorkerRequest, signal: AbortSignal) {
+  const { id } = request;
+  const onProgress = (sample: TransferSample) => post({ id, type: "progress", sample });
+  if (request.type === "pieceCid") {
+    const pieceCid = await calculatePieceCid(request.blob, { signal, onProgress });
+    post({ id, type: "pieceCid", pieceCid });
+  } else if (request.type === "buildCar") {
+    const { dispose, ...car } = await buildCarFromFiles(request.files, {
+      paths: request.paths,
+      profile: request.profile,
+      signal,
+      onProgress,
+    });
+    disposers.set(id, dispose);
+    post({ id, type: "car", ...car });
+  }
+}
+
+self.addEventListener("message", async (event: MessageEvent<UploadWorkerRequest>) => {
+  const request = event.data;
+  const { id } = request;
+  if (request.type === "cancel") return controllers.get(id)?.abort();
+  if (request.type === "dispose") {
+    const dispose = disposers.get(id);
+    disposers.delete(id);
+    return dispose?.();
+  }
+
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    await handle(request, controller.signal);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    post({
+      id,
+      type: "error",
+      error: message,
+      cancelled: isUploadCancelled(error, controller.signal),
+    });
+  } finally {
+    controllers.delete(id);
+  }
+});
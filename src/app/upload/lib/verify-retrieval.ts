@@ -0,0 +1,117 @@
+import type { PieceResult, PieceRetrieval, ProviderFailure } from "@/app/upload/types";
+import { getErrorMessage } from "@/lib";
+import { asPieceCID } from "@filoz/synapse-core/piece";
+import type { StorageContext } from "@filoz/synapse-sdk/storage";
+import { isUploadCancelled, throwIfCancelled } from "./upload-cancelled";
+import { computeLocalPieceCid } from "./upload-worker";
+
+/**
+ * A commit only proves the provider claimed the pieces. Reading them back from
+ * `/piece/` shows they are actually served: small pieces are downloaded whole
+ * and hashed to their PieceCID. Larger ones only serve a random byte range,
+ * which shows the provider answers but leaves their content unverified.
+ */
+
+/** Pieces up to this size are downloaded and validated; larger ones are only sampled. */
+export const FULL_RETRIEVAL_MAX_SIZE = 64 * 1024 * 1024;
+
+const SAMPLE_BYTES = 1024 * 1024;
+
+async function samplePiece(url: string, size: number, signal?: AbortSignal) {
+  const length = Math.min(SAMPLE_BYTES, size);
+  const start = Math.floor(Math.random() * (size - length + 1));
+  const startedAt = performance.now();
+  const response = await fetch(url, {
+    headers: { Range: `bytes=${start}-${start + length - 1}` },
+    signal,
+  });
+  const latencyMs = Math.round(performance.now() - startedAt);
+  if (response.status !== 206) {
+    // A 200 would stream the whole piece — the provider ignored the range
+    await response.body?.cancel();
+    throw new Error(`Range request returned status ${response.status}`);
+  }
+  const bytes = (await response.arrayBuffer()).byteLength;
+  if (bytes !== length) throw new Error(`Served ${bytes} of ${length} requested bytes`);
+  return { latencyMs, durationMs: Math.round(performance.now() - startedAt) };
+}
+
+async function retrievePiece(
+  ctx: StorageContext,
+  piece: PieceResult,
+  signal?: AbortSignal,
+): Promise<PieceRetrieval> {
+  const pieceCid = asPieceCID(piece.pieceCid);
+  if (!pieceCid) throw new Error(`Invalid PieceCID ${piece.pieceCid}`);
+  const url = ctx.getPieceUrl(pieceCid);
+
+  if (piece.size > FULL_RETRIEVAL_MAX_SIZE) {
+    return { method: "sample", ...(await samplePiece(url, piece.size, signal)) };
+  }
+  const startedAt = performance.now();
+  const response = await fetch(url, { signal });
+  // fetch resolves once the headers arrive, before the body is read
+  const latencyMs = Math.round(performance.now() - startedAt);
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Download returned status ${response.status}`);
+  }
+  const served = await computeLocalPieceCid(await response.blob(), { signal });
+  if (served !== piece.pieceCid) throw new Error(`Served data hashes to ${served}`);
+  return { method: "full", latencyMs, durationMs: Math.round(performance.now() - startedAt) };
+}
+
+/**
+ * Reads every piece back from each provider that committed it. Providers are
+ * checked in parallel and pieces one at a time; a provider's first failure is
+ * recorded and its remaining pieces are not tried.
+ */
+export async function verifyPieceRetrieval(
+  contexts: StorageContext[],
+  pieces: PieceResult[],
+  options?: {
+    signal?: AbortSignal;
+    onProviderVerified?: (providerName: string) => void;
+  },
+): Promise<{ pieces: PieceResult[]; failures: ProviderFailure[] }> {
+  const signal = options?.signal;
+  const retrievals = new Map<string, PieceRetrieval>();
+  const key = (providerId: string, pieceCid: string) => `${providerId}:${pieceCid}`;
+
+  const outcomes = await Promise.all(
+    contexts.map(async (ctx, providerIndex): Promise<ProviderFailure | undefined> => {
+      const providerId = ctx.provider.id.toString();
+      const committed = pieces.filter((p) => p.providers.some((u) => u.providerId === providerId));
+      if (committed.length === 0) return undefined;
+
+      for (const piece of committed) {
+        throwIfCancelled(signal);
+        try {
+          retrievals.set(key(providerId, piece.pieceCid), await retrievePiece(ctx, piece, signal));
+        } catch (error) {
+          if (isUploadCancelled(error, signal)) throw error;
+          return {
+            kind: "retrieval",
+            providerIndex,
+            providerId,
+            providerName: ctx.provider.name,
+            error: `${piece.pieceCid.slice(0, 12)}...: ${getErrorMessage(error)}`,
+          };
+        }
+      }
+      options?.onProviderVerified?.(ctx.provider.name);
+      return undefined;
+    }),
+  );
+
+  return {
+    pieces: pieces.map((piece) => ({
+      ...piece,
+      providers: piece.providers.map((upload) => ({
+        ...upload,
+        retrieval: retrievals.get(key(upload.providerId, piece.pieceCid)),
+      })),
+    })),
+    failures: outcomes.filter((f): f is ProviderFailure => f !== undefined),
+  };
+}
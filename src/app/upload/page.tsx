@@ -1,5 +1,7 @@
 "use client";
 
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
 import { useIsMounted } from "@/hooks";
 import { Upload } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -15,9 +17,16 @@ function UploadSkeleton() {
   );
 }
 
-export default function UploadPage() {
+/** `/upload?dataSetId=…` targets an existing dataset */
+function UploadRouter() {
   const isMounted = useIsMounted();
+  const searchParams = useSearchParams();
+  const dataSetId = searchParams.get("dataSetId") ?? undefined;
+
+  return isMounted ? <Uploader initialDataSetId={dataSetId} /> : <UploadSkeleton />;
+}
 
+export default function UploadPage() {
   return (
     <div className="px-4 py-8 mx-auto">
       <div className="flex items-center gap-3 mb-6">
@@ -32,7 +41,9 @@ export default function UploadPage() {
         </div>
       </div>
 
-      {isMounted ? <Uploader /> : <UploadSkeleton />}
+      <Suspense fallback={<UploadSkeleton />}>
+        <UploadRouter />
+      </Suspense>
     </div>
   );
 }
@@ -1,18 +1,54 @@
-export type UploadMode = "standard" | "cdn" | "pin";
+import type { ContentEncoding } from "@/lib/compression";
+import type { EncryptionKdf } from "@/lib/encryption";
+
+export type UploadMode = "standard" | "cdn" | "pin" | "encrypted";
 
 // Upload step identifiers — typed to catch typos at compile time
 export type StepId =
+  | "compress"
   | "session"
+  | "encrypt"
+  | "chunk"
   | "resolve"
   | "calculate"
   | "deposit"
   | "upload"
   | "confirm"
   | "pull"
-  | "car";
+  | "car"
+  | "hash"
+  | "ipni"
+  | "retrieve"
+  | "verify";
 
 // Step status for the persistent progress timeline
-export type StepStatus = "pending" | "active" | "done" | "skipped" | "failed";
+export type StepStatus = "pending" | "active" | "done" | "skipped" | "failed" | "cancelled";
+
+// Bytes moved for one file of a multi-file transfer
+export interface FileTransfer {
+  name: string;
+  bytes: number;
+  totalBytes: number;
+}
+
+// Raw progress reported by the pipeline (store, pull, CAR build)
+export interface TransferSample {
+  bytes: number;
+  totalBytes: number;
+  /** CAR building only: blocks imported so far */
+  blocks?: number;
+  /** Per-file breakdown, indexed like the uploaded files */
+  files?: FileTransfer[];
+}
+
+// Byte-level progress of a long-running step, with rates derived by `useUploadPhase`
+export interface StepTransfer extends TransferSample {
+  startedAt: number;
+  /** Bytes per second since `startedAt` */
+  throughput: number;
+  /** Seconds left at the current throughput; undefined until measurable */
+  eta?: number;
+}
 
 // A single step in the upload process
 export interface UploadStep {
@@ -21,6 +57,7 @@ export interface UploadStep {
   status: StepStatus;
   detail?: string;
   error?: string;
+  transfer?: StepTransfer;
 }
 
 // Per-provider tracked state during parallel upload phase
@@ -29,6 +66,18 @@ export interface ProviderProgress {
   steps: UploadStep[];
 }
 
+// A piece read back from a provider after commit
+export interface PieceRetrieval {
+  /** Time to first byte: until the response headers arrived */
+  latencyMs: number;
+  durationMs: number;
+  /**
+   * "full": downloaded and hashed to its PieceCID; "sample": a byte range was
+   * served, but the content is unverified
+   */
+  method: "full" | "sample";
+}
+
 // Per-provider successful upload record
 export interface ProviderUpload {
   providerId: string;
@@ -36,6 +85,8 @@ export interface ProviderUpload {
   dataSetId: string;
   txHash: string;
   ipfsRootCid?: string;
+  /** Set when retrieval verification was on and the provider served the piece */
+  retrieval?: PieceRetrieval;
 }
 
 // A single piece with all its successful provider uploads
@@ -43,15 +94,37 @@ export interface PieceResult {
   pieceCid: string;
   size: number;
   providers: ProviderUpload[];
+  /** Piece metadata committed with the piece — reused when a replica is retried */
+  metadata?: Record<string, string>;
 }
 
-// A provider-level failure (commit or pull)
+// A provider-level failure (store on a demoted primary, pull, commit, or serving it back)
 export interface ProviderFailure {
+  kind: "store" | "pull" | "commit" | "retrieval";
   providerIndex: number;
+  providerId: string;
   providerName: string;
   error: string;
 }
 
+// Pieces left on a provider without an on-chain commit (cancelled uploads)
+export interface UncommittedWork {
+  providerName: string;
+  role: "primary" | "secondary";
+  pieceCids: string[];
+}
+
+// A trustless-gateway fetch of the pinned root CID as a CAR, checked block by block
+export interface RetrievalResult {
+  /** Provider name, or the gateway host */
+  source: string;
+  url: string;
+  ok: boolean;
+  durationMs: number;
+  blockCount?: number;
+  error?: string;
+}
+
 /**
  * `kind` is "standard" | "pin" (not "cdn") because CDN is a variant of
  * standard upload — same flow, different provider config. UploadMode has
@@ -65,6 +138,82 @@ export interface ResultData {
   copies: number;
   totalSize: number;
   ipfsRootCid?: string;
+  /** Dataset metadata the contexts were created with — reused when a replica is retried */
+  datasetMetadata: Record<string, string>;
+  /** Compressed uploads: payload size before and after compression */
+  compression?: { originalSize: number; storedSize: number };
+  /** Pin uploads with the retrieval check on */
+  retrieval?: RetrievalResult[];
+  /** Cancel was pressed once the pieces were committed — only the checks still running stopped */
+  checksCancelled?: boolean;
+}
+
+// ─── Resumable upload jobs (persisted in IndexedDB) ─────────────────────────
+
+// Descriptor of a user-selected file — enough to match it again after a reload
+export interface FileDescriptor {
+  key: string;
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+// A piece already stored on the primary provider
+export interface StoredPiece {
+  pieceCid: string;
+  size: number;
+}
+
+// A piece handed to the providers, as journaled — the bytes are re-read from `inputs` on resume
+export interface JobUpload {
+  name: string;
+  size: number;
+  metadata?: Record<string, string>;
+  /** Precomputed PieceCID (chunked files), so `store` can skip hashing */
+  pieceCid?: string;
+  /** Where the bytes come from: an input, compressed with `encoding`, optionally a byte range of it */
+  source?: { input: number; encoding?: ContentEncoding; offset?: number; length?: number };
+  /** Inline content (chunk manifests, bundle indexes) */
+  content?: string;
+  /** Inputs concatenated, in order, into one bundle piece */
+  bundle?: number[];
+}
+
+// Per-provider checkpoint, in context order (index 0 starts as primary)
+export interface JobProvider {
+  providerId: string;
+  providerName: string;
+  dataSetId?: string;
+  extraData?: `0x${string}`;
+  pulled: boolean;
+  commit?: { txHash: string; dataSetId: string };
+  /** Store error that demoted this provider from primary (failover) */
+  demoted?: string;
+}
+
+export interface UploadJob {
+  id: string;
+  /** `scopeKey(address, chainId)` — jobs are only offered to the wallet that started them */
+  scope: string;
+  mode: UploadMode;
+  copies: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Files the user selected */
+  inputs: FileDescriptor[];
+  /** Files handed to the providers — the inputs themselves, or the CAR in pin mode */
+  uploads: JobUpload[];
+  /** Aligned with `uploads`; null until the piece is stored on the primary */
+  stored: (StoredPiece | null)[];
+  providers: JobProvider[];
+  /** Snapshot of the per-provider timeline from `useUploadPhase` */
+  progress: ProviderProgress[];
+  metadata?: Record<string, string>;
+  /** Custom dataset tags, so copies created on resume land in matching datasets */
+  datasetMetadata?: Record<string, string>;
+  ipfsRootCid?: string;
+  /** Encrypted mode: the key salt and a fingerprint to reject a different key on resume */
+  encryption?: { kdf: EncryptionKdf; salt: Uint8Array; verifier: string };
 }
 
 // Persistent upload phase — accumulates completed steps and per-provider progress.
@@ -88,4 +237,10 @@ export type UploadPhase =
       steps: UploadStep[];
       providers: ProviderProgress[];
       error: string;
+    }
+  | {
+      phase: "cancelled";
+      steps: UploadStep[];
+      providers: ProviderProgress[];
+      uncommitted: UncommittedWork[];
     };
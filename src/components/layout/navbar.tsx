@@ -15,7 +15,9 @@ import { WalletMenu } from "./wallet-menu";
 const navLinks = [
   { href: "/files", label: "Files" },
   { href: "/datasets", label: "Datasets" },
+  { href: "/providers", label: "Providers" },
   { href: "/upload", label: "Upload" },
+  { href: "/history", label: "History" },
 ];
 
 export function Navbar() {
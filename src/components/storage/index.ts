@@ -1,4 +1,6 @@
 export { CostBreakdownModal } from "./cost-breakdown-modal";
 export { FilePreview } from "./file-preview";
+export { IpniStatusBadge } from "./ipni-status-badge";
 export { PieceActions } from "./piece-actions";
 export { PiecePreviewModal } from "./piece-preview-modal";
+export { UnlockPieceDialog } from "./unlock-piece-dialog";
@@ -0,0 +1,47 @@
+"use client";
+
+import { ipniProviderStatuses, type IpniStatus } from "@/lib";
+import { pluralize } from "@/lib/format";
+import { useIpniStore } from "@/providers/ipni";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+const STATUS_LABELS: Record<IpniStatus, string> = {
+  pending: "IPNI pending",
+  verified: "IPNI verified",
+  failed: "IPNI not found",
+};
+
+/** IPNI verification of a root CID as last checked from this browser; nothing when never checked. */
+export function IpniStatusBadge({ rootCid }: { rootCid: string }) {
+  const check = useIpniStore((s) => s.checks[rootCid]);
+  if (!check) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant={check.status === "failed" ? "destructive" : "outline"} className="text-xs">
+          {STATUS_LABELS[check.status]}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-sm space-y-1">
+        {Object.entries(check.indexers).map(([url, indexer]) => (
+          <p key={url}>
+            {new URL(url).host}: {indexer.status}
+            {indexer.attempts > 0 &&
+              ` after ${indexer.attempts} ${pluralize(indexer.attempts, "attempt")}`}
+            {indexer.status === "failed" && indexer.error && ` — ${indexer.error}`}
+          </p>
+        ))}
+        {ipniProviderStatuses(check).map(({ provider, status }) => (
+          <p key={provider.providerId}>
+            {provider.providerName}: {status}
+          </p>
+        ))}
+        <p className="text-muted-foreground">
+          Checked {new Date(check.updatedAt).toLocaleString()}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
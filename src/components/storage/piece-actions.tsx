@@ -8,7 +8,7 @@ import { useConnection } from "wagmi";
 import type { Piece } from "@/lib/datasets";
 import { buildPieceUrl, type OpenPieceParams } from "@/lib/piece";
 import { useDownloadPiece } from "@/hooks/use-download";
-import { PiecePreviewModal } from "@/components/storage";
+import { PiecePreviewModal, UnlockPieceDialog } from "@/components/storage";
 import { ActionButton } from "@/components/ui/action-button";
 import { Button } from "@/components/ui/button";
 import { ConfirmDeleteDialog } from "@/components/ui/confirm-delete-dialog";
@@ -19,15 +19,29 @@ interface PieceActionsProps {
   pieceCid: string;
   accessParams: OpenPieceParams;
   dataSetId: bigint;
+  datasetMetadata?: Record<string, string>;
 }
 
-export function PieceActions({ piece, pieceCid, accessParams, dataSetId }: PieceActionsProps) {
+export function PieceActions({
+  piece,
+  pieceCid,
+  accessParams,
+  dataSetId,
+  datasetMetadata,
+}: PieceActionsProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const { address, chainId } = useConnection();
 
-  const { downloadMutation } = useDownloadPiece(piece.url, pieceCid, piece.metadata?.name);
+  const [unlockOpen, setUnlockOpen] = useState(false);
 
-  const deletePiece = useDeletePiece(dataSetId, piece.id);
+  const { downloadMutation, kdf } = useDownloadPiece(
+    piece.url,
+    pieceCid,
+    piece.metadata,
+    accessParams.serviceURL,
+  );
+
+  const deletePiece = useDeletePiece(dataSetId, piece);
 
   // Determine available access methods
   const hasCDN = accessParams.isCDN;
@@ -64,6 +78,7 @@ export function PieceActions({ piece, pieceCid, accessParams, dataSetId }: Piece
         piece={piece}
         accessParams={accessParams}
         dataSetId={dataSetId.toString()}
+        datasetMetadata={datasetMetadata}
       />
 
       {/* CDN Access (Filbeam) */}
@@ -96,10 +111,22 @@ export function PieceActions({ piece, pieceCid, accessParams, dataSetId }: Piece
       <ActionButton
         icon={Download}
         tooltip="Download"
-        onClick={() => downloadMutation.mutate()}
+        onClick={() => (kdf ? setUnlockOpen(true) : downloadMutation.mutate(undefined))}
         disabled={downloadMutation.isPending}
       />
 
+      {kdf && (
+        <UnlockPieceDialog
+          open={unlockOpen}
+          onOpenChange={setUnlockOpen}
+          kdf={kdf}
+          isPending={downloadMutation.isPending}
+          onUnlock={(input) =>
+            downloadMutation.mutate(input, { onSuccess: () => setUnlockOpen(false) })
+          }
+        />
+      )}
+
       <ConfirmDeleteDialog
         open={deleteDialogOpen}
         onOpenChange={setDeleteDialogOpen}
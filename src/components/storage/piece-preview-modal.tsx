@@ -1,9 +1,21 @@
 "use client";
 
-import { useState } from "react";
-import { Download, ExternalLink, Eye, FileIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  CONTENT_ENCODING_METADATA_KEY,
+  describeUnixFsProfile,
+  ENCRYPTION_METADATA_KEY,
+  FILE_METADATA_KEYS,
+  MANIFEST_METADATA_KEY,
+  readCustomMetadata,
+  readFileMetadata,
+  readUnixFsProfile,
+  UNIXFS_METADATA_KEY,
+} from "@/lib";
+import { Download, ExternalLink, Eye, FileArchive, FileIcon, Lock } from "lucide-react";
 import { useConnection } from "wagmi";
 import { Piece } from "@/lib/datasets";
+import { formatFileSize } from "@/lib/format";
 import { buildPieceUrl, formatSizeMessage, type OpenPieceParams } from "@/lib/piece";
 import { useDownloadPiece } from "@/hooks/use-download";
 import { Badge } from "@/components/ui/badge";
@@ -19,11 +31,14 @@ import {
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { UnlockPieceDialog } from "./unlock-piece-dialog";
 
 interface PiecePreviewModalProps {
   piece: Piece;
   accessParams: OpenPieceParams;
   dataSetId?: string;
+  /** Metadata of the dataset holding the piece, for its tags */
+  datasetMetadata?: Record<string, string>;
   variant?: "ghost" | "outline";
 }
 
@@ -31,29 +46,64 @@ export function PiecePreviewModal({
   piece,
   accessParams,
   dataSetId,
+  datasetMetadata,
   variant = "ghost",
 }: PiecePreviewModalProps) {
   const { address, chainId } = useConnection();
   const [open, setOpen] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
+  // The unlock dialog serves both the decrypted preview and the download
+  const [unlockFor, setUnlockFor] = useState<"preview" | "download" | null>(null);
+  const [decryptedUrl, setDecryptedUrl] = useState<string | null>(null);
   const { pieceCid, isCDN, serviceURL, withIPFSIndexing, ipfsRootCid } = accessParams;
-  const filename = piece.metadata?.name;
-  const { downloadMutation } = useDownloadPiece(piece.url, pieceCid, filename);
-
-  const previewUrl = address
-    ? buildPieceUrl({
-        pieceCid,
-        isCDN,
-        address,
-        serviceURL,
-        withIPFSIndexing,
-        ipfsRootCid,
-        chainId,
-      })
-    : null;
+  const fileMetadata = readFileMetadata(piece.metadata);
+  const filename = fileMetadata.name;
+  const { downloadMutation, previewMutation, isEncrypted, chunked, kdf } = useDownloadPiece(
+    piece.url,
+    pieceCid,
+    piece.metadata,
+    serviceURL,
+  );
+
+  useEffect(() => {
+    if (!decryptedUrl) return;
+    return () => URL.revokeObjectURL(decryptedUrl);
+  }, [decryptedUrl]);
+
+  // Encrypted single pieces are decrypted in memory for the preview; chunked files are too large
+  const canDecryptPreview = isEncrypted && !chunked && !!kdf;
+  const handlePreviewUnlocked = (file: File) => {
+    setImageError(false);
+    setImageLoading(true);
+    setDecryptedUrl(URL.createObjectURL(file));
+    setUnlockFor(null);
+  };
+
+  // Encrypted, compressed or chunked pieces are not the original bytes — nothing to load directly
+  const contentEncoding = piece.metadata?.[CONTENT_ENCODING_METADATA_KEY];
+  const previewUrl =
+    address && !isEncrypted && !contentEncoding && !chunked
+      ? buildPieceUrl({
+          pieceCid,
+          isCDN,
+          address,
+          serviceURL,
+          withIPFSIndexing,
+          ipfsRootCid,
+          chainId,
+        })
+      : null;
 
   const isOnIPFS = withIPFSIndexing && !!ipfsRootCid;
+  const unixfsProfile = (() => {
+    try {
+      return readUnixFsProfile(piece.metadata);
+    } catch {
+      // Unreadable profiles stay in the raw metadata list
+      return undefined;
+    }
+  })();
 
   const handleOpenInBrowser = () => {
     if (!address || !chainId) return;
@@ -70,7 +120,22 @@ export function PiecePreviewModal({
   };
 
   const metadata = piece.metadata || {};
-  const metadataEntries = Object.entries(metadata).filter(([key]) => key !== "name");
+  // File attributes and encryption parameters are shown in the file info section
+  const fileKeys: string[] = [
+    ...Object.values(FILE_METADATA_KEYS),
+    ENCRYPTION_METADATA_KEY,
+    CONTENT_ENCODING_METADATA_KEY,
+    MANIFEST_METADATA_KEY,
+    ...(unixfsProfile ? [UNIXFS_METADATA_KEY] : []),
+  ];
+  const tags = readCustomMetadata(metadata);
+  const tagGroups = [
+    { label: "Dataset", entries: Object.entries(readCustomMetadata(datasetMetadata)) },
+    { label: "File", entries: Object.entries(tags) },
+  ].filter((group) => group.entries.length > 0);
+  const metadataEntries = Object.entries(metadata).filter(
+    ([key]) => !fileKeys.includes(key) && !(key in tags),
+  );
 
   return (
     <>
@@ -95,7 +160,33 @@ export function PiecePreviewModal({
           <div className="space-y-4 py-4">
             {/* Preview Image */}
             <div className="flex justify-center">
-              {imageError || !previewUrl ? (
+              {!decryptedUrl && (isEncrypted || contentEncoding || chunked) ? (
+                <div className="w-48 h-48 rounded-lg bg-muted flex flex-col items-center justify-center gap-2">
+                  {isEncrypted ? (
+                    <Lock className="h-16 w-16 text-muted-foreground" />
+                  ) : (
+                    <FileArchive className="h-16 w-16 text-muted-foreground" />
+                  )}
+                  {canDecryptPreview ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setUnlockFor("preview")}
+                      disabled={previewMutation.isPending}
+                    >
+                      {previewMutation.isPending ? "Decrypting..." : "Decrypt to preview"}
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {isEncrypted
+                        ? "Decrypted on download"
+                        : contentEncoding
+                          ? "Decompressed on download"
+                          : "Reassembled on download"}
+                    </span>
+                  )}
+                </div>
+              ) : imageError || !(decryptedUrl ?? previewUrl) ? (
                 <div className="w-48 h-48 rounded-lg bg-muted flex items-center justify-center">
                   <FileIcon className="h-16 w-16 text-muted-foreground" />
                 </div>
@@ -104,7 +195,7 @@ export function PiecePreviewModal({
                   {imageLoading && <Skeleton className="absolute inset-0 rounded-lg" />}
                   {/* eslint-disable-next-line @next/next/no-img-element */}
                   <img
-                    src={previewUrl}
+                    src={decryptedUrl ?? previewUrl ?? undefined}
                     alt={filename ?? "File preview"}
                     className={`w-48 h-48 rounded-lg object-cover ${imageLoading ? "opacity-0" : "opacity-100"}`}
                     onLoad={() => setImageLoading(false)}
@@ -121,9 +212,39 @@ export function PiecePreviewModal({
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">File Name</span>
-                <span className="text-sm font-medium truncate max-w-[200px]">{filename}</span>
+                <span className="text-sm font-medium truncate max-w-[200px]">
+                  {filename ?? (isEncrypted ? "Kept private by encryption" : pieceCid)}
+                </span>
               </div>
 
+              {fileMetadata.relativePath && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Path</span>
+                  <span
+                    className="text-sm font-medium truncate max-w-[200px]"
+                    title={fileMetadata.relativePath}
+                  >
+                    {fileMetadata.relativePath}
+                  </span>
+                </div>
+              )}
+
+              {fileMetadata.mimeType && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">MIME Type</span>
+                  <span className="text-sm font-medium">{fileMetadata.mimeType}</span>
+                </div>
+              )}
+
+              {fileMetadata.lastModified !== undefined && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Last Modified</span>
+                  <span className="text-sm font-medium">
+                    {new Date(fileMetadata.lastModified).toLocaleString()}
+                  </span>
+                </div>
+              )}
+
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Piece CID</span>
                 <CopyButton value={pieceCid} size="sm" />
@@ -149,8 +270,71 @@ export function PiecePreviewModal({
                 <span className="text-sm text-muted-foreground">Type</span>
                 <Badge variant="secondary">{isCDN ? "CDN" : isOnIPFS ? "IPFS" : "Standard"}</Badge>
               </div>
+              {contentEncoding && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Compression</span>
+                  <span className="text-sm font-medium">
+                    {contentEncoding}
+                    {fileMetadata.originalSize !== undefined &&
+                      ` · ${formatFileSize(fileMetadata.originalSize)} original`}
+                  </span>
+                </div>
+              )}
+              {chunked && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Chunks</span>
+                  <span className="text-sm font-medium">
+                    {chunked.chunkCount} pieces · stitched on download
+                  </span>
+                </div>
+              )}
+              {unixfsProfile && (
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm text-muted-foreground shrink-0">UnixFS</span>
+                  <span className="text-sm font-medium text-right">
+                    {describeUnixFsProfile(unixfsProfile)}
+                  </span>
+                </div>
+              )}
+              {isEncrypted && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Encryption</span>
+                  <Badge variant="outline">
+                    <Lock className="h-3 w-3 mr-1" />
+                    {!kdf
+                      ? "Unsupported format"
+                      : kdf === "wallet"
+                        ? "AES-GCM · wallet key"
+                        : "AES-GCM · passphrase"}
+                  </Badge>
+                </div>
+              )}
             </div>
 
+            {/* Tags Section */}
+            {tagGroups.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium">Tags</h4>
+                  {tagGroups.map(({ label, entries }) => (
+                    <div key={label} className="flex items-start gap-2">
+                      <span className="text-xs text-muted-foreground w-14 shrink-0 pt-0.5">
+                        {label}
+                      </span>
+                      <div className="flex flex-wrap gap-1">
+                        {entries.map(([key, value]) => (
+                          <Badge key={key} variant="outline" className="font-normal">
+                            {key}: <span className="font-medium">{value}</span>
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
             {/* Metadata Section */}
             {metadataEntries.length > 0 && (
               <>
@@ -186,16 +370,31 @@ export function PiecePreviewModal({
               <Button
                 variant="outline"
                 className="flex-1"
-                onClick={() => downloadMutation.mutate()}
+                onClick={() =>
+                  kdf ? setUnlockFor("download") : downloadMutation.mutate(undefined)
+                }
                 disabled={downloadMutation.isPending}
               >
                 <Download className="h-4 w-4 mr-2" />
-                Download
+                {isEncrypted ? "Decrypt & Download" : "Download"}
               </Button>
             </div>
           </div>
         </DialogContent>
       </Dialog>
+      {kdf && (
+        <UnlockPieceDialog
+          open={unlockFor !== null}
+          onOpenChange={(open) => !open && setUnlockFor(null)}
+          kdf={kdf}
+          isPending={downloadMutation.isPending || previewMutation.isPending}
+          onUnlock={(input) =>
+            unlockFor === "preview"
+              ? previewMutation.mutate(input, { onSuccess: handlePreviewUnlocked })
+              : downloadMutation.mutate(input, { onSuccess: () => setUnlockFor(null) })
+          }
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound, Wallet } from "lucide-react";
+import type { EncryptionKdf, EncryptionKeyInput } from "@/lib/encryption";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+
+interface UnlockPieceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** How the piece was encrypted — decides whether a passphrase or a signature is asked for */
+  kdf: EncryptionKdf;
+  onUnlock: (input: EncryptionKeyInput) => void;
+  isPending: boolean;
+}
+
+export function UnlockPieceDialog({
+  open,
+  onOpenChange,
+  kdf,
+  onUnlock,
+  isPending,
+}: UnlockPieceDialogProps) {
+  const [passphrase, setPassphrase] = useState("");
+
+  const handleUnlock = () => {
+    onUnlock(kdf === "wallet" ? { kdf } : { kdf, passphrase });
+    setPassphrase("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Encrypted file
+          </DialogTitle>
+          <DialogDescription>
+            {kdf === "wallet"
+              ? "This file was encrypted with a key derived from your wallet. Sign the unlock message to decrypt it in your browser."
+              : "This file was encrypted with a passphrase. Enter it to decrypt the file in your browser."}
+          </DialogDescription>
+        </DialogHeader>
+        {kdf === "pbkdf2" && (
+          <Input
+            type="password"
+            autoComplete="off"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && passphrase && handleUnlock()}
+          />
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleUnlock} disabled={isPending || (kdf === "pbkdf2" && !passphrase)}>
+            {kdf === "wallet" && <Wallet className="h-4 w-4 mr-2" />}
+            {isPending ? "Decrypting..." : kdf === "wallet" ? "Sign & decrypt" : "Decrypt"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
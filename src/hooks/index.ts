@@ -1,6 +1,9 @@
+export { useApprovedProviders } from "./use-approved-providers";
 export { useBalances } from "./use-balances";
+export { useBundleIndex, useBundleIndexes } from "./use-bundle-index";
 export { useClipboard } from "./use-clipboard";
 export { useDeletePiece, useDeleteDataset } from "./use-delete";
-export { useDownloadPiece } from "./use-download";
+export { useDownloadBundleEntry, useDownloadFolder, useDownloadPiece } from "./use-download";
+export { useEncryptionKey } from "./use-encryption-key";
 export { useIsMounted } from "./use-is-mounted";
 export { useStorageOverview } from "./use-storage-overview";
@@ -0,0 +1,21 @@
+"use client";
+
+import { getApprovedPDPProviders } from "@filoz/synapse-core/sp-registry";
+import { useQuery } from "@tanstack/react-query";
+import { useConnection, usePublicClient } from "wagmi";
+import { queryKeys } from "@/lib/query-keys";
+
+/** PDP providers approved by the warm storage service — the ones uploads can go to. */
+export const useApprovedProviders = () => {
+  const { chainId } = useConnection();
+  const publicClient = usePublicClient();
+  return useQuery({
+    enabled: !!publicClient && !!chainId,
+    queryKey: queryKeys.providers(chainId),
+    queryFn: () => {
+      if (!publicClient) throw new Error("Public client not found");
+      return getApprovedPDPProviders(publicClient);
+    },
+    staleTime: 300_000,
+  });
+};
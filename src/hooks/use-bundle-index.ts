@@ -0,0 +1,72 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { BUNDLE_METADATA_KEY, parseBundleIndex, readBundleInfo, type BundleIndex } from "@/lib";
+import { downloadAndValidate } from "@filoz/synapse-core/piece";
+import {
+  queryOptions,
+  skipToken,
+  useQueries,
+  useQuery,
+  type UseQueryResult,
+} from "@tanstack/react-query";
+import type { UniquePiece } from "@/lib/datasets";
+import { providerPieceUrl } from "@/lib/piece";
+import { queryKeys } from "@/lib/query-keys";
+
+/** Index PieceCID of a bundle piece; undefined for any other piece or unreadable metadata. */
+function bundleIndexCid(metadata?: Record<string, string>): string | undefined {
+  try {
+    return readBundleInfo(metadata)?.indexCid;
+  } catch {
+    return undefined;
+  }
+}
+
+function bundleIndexQuery(serviceURL: string, metadata?: Record<string, string>) {
+  const indexCid = bundleIndexCid(metadata);
+  return queryOptions({
+    queryKey: queryKeys.bundleIndex(indexCid ?? ""),
+    queryFn:
+      indexCid === undefined
+        ? skipToken
+        : async () => {
+            const bytes = await downloadAndValidate({
+              url: providerPieceUrl(serviceURL, indexCid),
+              expectedPieceCid: indexCid,
+            });
+            return parseBundleIndex(bytes);
+          },
+    // Pieces are immutable
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Sidecar index of a bundle piece, fetched from the provider serving the
+ * bundle. Disabled for any other piece.
+ */
+export const useBundleIndex = (serviceURL: string, metadata?: Record<string, string>) =>
+  useQuery(bundleIndexQuery(serviceURL, metadata));
+
+/** Indexes of the bundles among `pieces` that have loaded so far, by bundle PieceCID. */
+export const useBundleIndexes = (pieces: UniquePiece[]) => {
+  const bundles = useMemo(
+    () => pieces.filter((p) => p.piece.metadata?.[BUNDLE_METADATA_KEY]),
+    [pieces],
+  );
+  const combine = useCallback(
+    (results: UseQueryResult<BundleIndex>[]) => {
+      const data = new Map<string, BundleIndex>();
+      results.forEach((r, i) => r.data && data.set(bundles[i].pieceCid, r.data));
+      return { data, isLoading: results.some((r) => r.isLoading) };
+    },
+    [bundles],
+  );
+  return useQueries({
+    queries: bundles.map(({ piece, datasets }) =>
+      bundleIndexQuery(datasets[0].dataset.serviceURL, piece.metadata),
+    ),
+    combine,
+  });
+};
@@ -1,17 +1,35 @@
 "use client";
 
-import { getErrorMessage } from "@/lib";
+import { getErrorMessage, parseChunkManifest, readBundleInfo, readChunkedFileInfo } from "@/lib";
+import { downloadAndValidate } from "@filoz/synapse-core/piece";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { useConnection } from "wagmi";
+import type { Piece } from "@/lib/datasets";
+import { pluralize } from "@/lib/format";
 import { queryKeys } from "@/lib/query-keys";
 import { getSynapseClient } from "@/lib/synapse-client";
 import { useStorageConfig } from "@/providers/storage-config";
 
-export const useDeletePiece = (dataSetId: bigint, pieceId: bigint) => {
+/**
+ * PieceCIDs deleted along with `piece`: the chunks listed in a manifest
+ * piece's content, or a bundle's sidecar index. Any other piece stands alone.
+ */
+async function companionPieceCids(piece: Piece): Promise<string[]> {
+  const bundle = readBundleInfo(piece.metadata);
+  if (bundle) return [bundle.indexCid];
+  if (!readChunkedFileInfo(piece.metadata)) return [];
+  const manifest = parseChunkManifest(
+    await downloadAndValidate({ url: piece.url, expectedPieceCid: piece.cid.toString() }),
+  );
+  return manifest.chunks.map((chunk) => chunk.pieceCid);
+}
+
+export const useDeletePiece = (dataSetId: bigint, piece: Piece) => {
   const { address, chainId, isConnected } = useConnection();
   const queryClient = useQueryClient();
   const { config } = useStorageConfig();
+  const pieceId = piece.id;
   const toastId = `delete-piece-${dataSetId.toString()}-${pieceId.toString()}`;
   return useMutation({
     mutationKey: queryKeys.deletePiece(address, chainId, dataSetId.toString(), pieceId.toString()),
@@ -24,13 +42,24 @@ export const useDeletePiece = (dataSetId: bigint, pieceId: bigint) => {
         dataSetId,
       });
 
-      const hash = await context.deletePiece({
-        piece: pieceId,
-      });
+      // The piece goes last, so it stays listed until its companions' deletes are submitted
+      const companions = await companionPieceCids(piece);
+      if (companions.length > 0) {
+        const related = `${companions.length} related ${pluralize(companions.length, "piece")}`;
+        toast.loading(`Deleting piece and ${related}...`, { id: toastId });
+      }
+      const hashes = [];
+      for (const pieceCid of companions) {
+        hashes.push(await context.deletePiece({ piece: pieceCid }));
+      }
 
-      await synapse.client.waitForTransactionReceipt({
-        hash,
-      });
+      hashes.push(
+        await context.deletePiece({
+          piece: pieceId,
+        }),
+      );
+
+      await Promise.all(hashes.map((hash) => synapse.client.waitForTransactionReceipt({ hash })));
     },
     onSuccess: () => {
       toast.success("Piece deleted!", { id: toastId });
@@ -1,44 +1,300 @@
 "use client";
 
-import { getErrorMessage } from "@/lib";
+import { useMemo } from "react";
+import {
+  createTar,
+  decompressBlob,
+  decryptBytes,
+  folderFiles,
+  getErrorMessage,
+  isEncryptedPiece,
+  parseChunkManifest,
+  readBundleEntry,
+  readChunkedFileInfo,
+  readContentEncoding,
+  readEncryptionParams,
+  readFileMetadata,
+  saveFile,
+  sha256Hex,
+  type BundleEntry,
+  type ChunkManifest,
+  type EncryptionKeyInput,
+  type EncryptionParams,
+  type TarEntry,
+  type TreeFolder,
+} from "@/lib";
 import { asPieceCID, downloadAndValidate } from "@filoz/synapse-core/piece";
 import { useMutation } from "@tanstack/react-query";
 import { fileTypeFromBuffer } from "file-type";
 import { toast } from "sonner";
+import { pluralize } from "@/lib/format";
+import { providerPieceUrl } from "@/lib/piece";
 import { queryKeys } from "@/lib/query-keys";
+import { useEncryptionKey } from "./use-encryption-key";
 
-export const useDownloadPiece = (pieceUrl: string, pieceCid: string, filename?: string) => {
+/** Enough of a file's head for `file-type` to recognize it */
+const FILE_TYPE_SNIFF_BYTES = 4100;
+
+type DeriveKey = (input: EncryptionKeyInput, params: EncryptionParams) => Promise<CryptoKey>;
+
+/** A stored piece and the provider serving it. */
+interface PieceSource {
+  url: string;
+  pieceCid: string;
+  metadata?: Record<string, string>;
+  /** Chunks are fetched from this provider's `/piece/` endpoint */
+  serviceURL: string;
+}
+
+/**
+ * Downloads and verifies every chunk of a manifest, decrypting each with its
+ * own IV. Chunks of one upload share the salt, so the key is derived once.
+ * Each chunk becomes a Blob as soon as it is verified, so only one is held
+ * in memory — the browser may keep the others on disk.
+ */
+async function downloadChunks(
+  manifest: ChunkManifest,
+  serviceURL: string,
+  deriveKey: DeriveKey,
+  keyInput?: EncryptionKeyInput,
+): Promise<Blob> {
+  let key: CryptoKey | undefined;
+  const parts: Blob[] = [];
+  for (const chunk of manifest.chunks) {
+    let bytes: Uint8Array = await downloadAndValidate({
+      url: providerPieceUrl(serviceURL, chunk.pieceCid),
+      expectedPieceCid: chunk.pieceCid,
+    });
+    if ((await sha256Hex(bytes)) !== chunk.sha256) {
+      throw new Error(`Chunk ${parts.length + 1} does not match the manifest`);
+    }
+    const params = chunk.enc ? readEncryptionParams({ enc: chunk.enc }) : undefined;
+    if (params) {
+      if (!keyInput) throw new Error("This file is encrypted — a key is required");
+      key ??= await deriveKey(keyInput, params);
+      bytes = await decryptBytes(bytes, key, params);
+    }
+    parts.push(new Blob([bytes as BlobPart]));
+  }
+  return new Blob(parts);
+}
+
+/**
+ * Downloads and verifies a stored file: a chunked file is reassembled from
+ * its manifest, then the bytes are decrypted and decompressed as needed.
+ */
+async function fetchStoredFile(
+  source: PieceSource,
+  deriveKey: DeriveKey,
+  keyInput?: EncryptionKeyInput,
+): Promise<Blob> {
+  const { metadata } = source;
+  const bytes: Uint8Array = await downloadAndValidate({
+    url: source.url,
+    expectedPieceCid: source.pieceCid,
+  });
+
+  let file: Blob;
+  if (readChunkedFileInfo(metadata)) {
+    const manifest = parseChunkManifest(bytes);
+    file = await downloadChunks(manifest, source.serviceURL, deriveKey, keyInput);
+  } else if (isEncryptedPiece(metadata)) {
+    const params = readEncryptionParams(metadata)!;
+    if (!keyInput) throw new Error("This file is encrypted — a key is required");
+    const key = await deriveKey(keyInput, params);
+    file = new Blob([(await decryptBytes(bytes, key, params)) as BlobPart]);
+  } else {
+    file = new Blob([bytes as BlobPart]);
+  }
+
+  // Compression was applied before encryption, so it is undone last
+  const encoding = readContentEncoding(metadata);
+  return encoding ? decompressBlob(file, encoding) : file;
+}
+
+/** Whether the file needs a key to read — an encrypted piece or an encrypted chunked file. */
+function requiresKey(metadata: Record<string, string> | undefined): boolean {
+  try {
+    return isEncryptedPiece(metadata) || !!readChunkedFileInfo(metadata)?.kdf;
+  } catch {
+    return false;
+  }
+}
+
+export const useDownloadPiece = (
+  pieceUrl: string,
+  pieceCid: string,
+  metadata: Record<string, string> | undefined,
+  serviceURL: string,
+) => {
   const toastId = `download-${pieceCid}`;
+  const { deriveKey } = useEncryptionKey();
+
+  const isEncrypted = isEncryptedPiece(metadata);
+  const encryption = useMemo(() => {
+    try {
+      return readEncryptionParams(metadata);
+    } catch {
+      // Unknown format — surfaced as an error when the download is attempted
+      return undefined;
+    }
+  }, [metadata]);
+  const chunked = useMemo(() => {
+    try {
+      return readChunkedFileInfo(metadata);
+    } catch {
+      return undefined;
+    }
+  }, [metadata]);
+  /** Set when a key is needed — for an encrypted piece or an encrypted chunked file */
+  const kdf = encryption?.kdf ?? chunked?.kdf;
+
+  /** Fetches the original file; `keyInput` unlocks encrypted pieces and is ignored otherwise. */
+  const loadFile = async (keyInput?: EncryptionKeyInput) => {
+    const pieceCID = asPieceCID(pieceCid);
+    if (!pieceCID) {
+      throw new Error("Invalid piece CID");
+    }
+
+    const blob = await fetchStoredFile(
+      { url: pieceUrl, pieceCid, metadata, serviceURL },
+      deriveKey,
+      keyInput,
+    );
+    const fileType = await fileTypeFromBuffer(
+      new Uint8Array(await blob.slice(0, FILE_TYPE_SNIFF_BYTES).arrayBuffer()),
+    );
+    // Encrypted pieces carry no name, so the sniffed type supplies the extension
+    const { name, mimeType } = readFileMetadata(metadata);
+    const fileName = name ?? (fileType ? `${pieceCid}.${fileType.ext}` : pieceCid);
+
+    return new File([blob], fileName, {
+      // Sniffing misses text formats (JSON, CSV…), so fall back to the uploaded type
+      type: fileType?.mime ?? mimeType,
+    });
+  };
+
   const mutation = useMutation({
     mutationKey: queryKeys.download(pieceCid),
+    mutationFn: async (keyInput?: EncryptionKeyInput) => {
+      const file = await loadFile(keyInput);
+      saveFile(file);
+      return file;
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), { id: toastId });
+    },
+  });
+
+  // Same pipeline as the download, kept in memory for the preview
+  const previewMutation = useMutation({
+    mutationKey: queryKeys.previewPiece(pieceCid),
+    mutationFn: loadFile,
+    onError: (error) => {
+      toast.error(getErrorMessage(error), { id: toastId });
+    },
+  });
+
+  return {
+    downloadMutation: mutation,
+    previewMutation,
+    isEncrypted: isEncrypted || !!chunked?.kdf,
+    chunked,
+    kdf,
+  };
+};
+
+/** Downloads one file of a bundle piece with a ranged read. */
+export const useDownloadBundleEntry = (
+  bundleUrl: string,
+  bundleCid: string,
+  entry: BundleEntry,
+) => {
+  const mutation = useMutation({
+    mutationKey: queryKeys.downloadBundleEntry(bundleCid, entry.offset),
     mutationFn: async () => {
-      const pieceCID = asPieceCID(pieceCid);
-      if (!pieceCID) {
-        throw new Error("Invalid piece CID");
-      }
+      const bytes = await readBundleEntry(bundleUrl, entry);
+      const file = new File([bytes as BlobPart], entry.name, { type: entry.type });
+      saveFile(file);
+      return file;
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), { id: `download-${bundleCid}-${entry.offset}` });
+    },
+  });
 
-      const fileName = filename ?? pieceCid;
+  return { downloadMutation: mutation };
+};
 
-      const uint8ArrayBytes = await downloadAndValidate({
-        url: pieceUrl,
-        expectedPieceCid: pieceCid,
-      });
-      const fileType = await fileTypeFromBuffer(uint8ArrayBytes);
+/**
+ * Downloads every file below `folder` into one tar archive named after it.
+ * Encrypted files need a key each and are skipped; so are files that fail,
+ * and both are reported once the archive is saved.
+ */
+export const useDownloadFolder = (folder: TreeFolder) => {
+  const folderPath = folder.path.join("/");
+  const toastId = `download-folder-${folderPath}`;
+  const { deriveKey } = useEncryptionKey();
 
-      const file = new File([uint8ArrayBytes as BlobPart], fileName, {
-        type: fileType?.mime,
-      });
+  const mutation = useMutation({
+    mutationKey: queryKeys.downloadFolder(folderPath),
+    mutationFn: async () => {
+      const files = folderFiles(folder);
+      const entries: TarEntry[] = [];
+      const skipped: string[] = [];
+      let encrypted = 0;
 
-      const objectUrl = URL.createObjectURL(file);
-      const anchor = document.createElement("a");
-      anchor.href = objectUrl;
-      anchor.download = fileName;
-      document.body.append(anchor);
-      anchor.click();
-      anchor.remove();
-      URL.revokeObjectURL(objectUrl);
+      for (const [i, file] of files.entries()) {
+        const { pieceCid, piece, datasets } = file.uniquePiece;
+        if (!file.entry && requiresKey(piece.metadata)) {
+          encrypted++;
+          continue;
+        }
+        toast.loading(`Downloading ${i + 1}/${files.length}: ${file.name}`, { id: toastId });
+        try {
+          const data = file.entry
+            ? new Blob([(await readBundleEntry(piece.url, file.entry)) as BlobPart])
+            : await fetchStoredFile(
+                {
+                  url: piece.url,
+                  pieceCid,
+                  metadata: piece.metadata,
+                  serviceURL: datasets[0].dataset.serviceURL,
+                },
+                deriveKey,
+              );
+          entries.push({
+            path: [folder.name, ...file.folder.slice(folder.path.length), file.name].join("/"),
+            data,
+            lastModified: file.entry?.lastModified ?? readFileMetadata(piece.metadata).lastModified,
+          });
+        } catch (error) {
+          skipped.push(`${file.name}: ${getErrorMessage(error)}`);
+        }
+      }
 
-      return file;
+      if (entries.length === 0) {
+        throw new Error(
+          encrypted > 0
+            ? "Every file in this folder is encrypted — download them one by one"
+            : `No file in this folder could be downloaded (${skipped[0]})`,
+        );
+      }
+      saveFile(new File([createTar(entries)], `${folder.name}.tar`, { type: "application/x-tar" }));
+      return { saved: entries.length, encrypted, skipped };
+    },
+    onSuccess: ({ saved, encrypted, skipped }) => {
+      const notes = [
+        encrypted > 0 && `${encrypted} encrypted ${pluralize(encrypted, "file")} left out`,
+        skipped.length > 0 && `${skipped.length} failed: ${skipped.join("; ")}`,
+      ].filter(Boolean);
+      if (notes.length > 0) {
+        toast.warning(`Saved ${saved} ${pluralize(saved, "file")} · ${notes.join(" · ")}`, {
+          id: toastId,
+        });
+      } else {
+        toast.success(`Saved ${saved} ${pluralize(saved, "file")}`, { id: toastId });
+      }
     },
     onError: (error) => {
       toast.error(getErrorMessage(error), { id: toastId });
@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback } from "react";
+import {
+  deriveEncryptionKey,
+  deriveEncryptionKeyWithVerifier,
+  WALLET_KEY_MESSAGE,
+  type EncryptionKeyInput,
+  type EncryptionParams,
+  type EncryptionSecret,
+} from "@/lib";
+import { useWalletClient } from "wagmi";
+
+/**
+ * Turns the user's key choice into an AES key. The wallet variant asks the
+ * connected wallet to sign `WALLET_KEY_MESSAGE`, so nothing has to be remembered.
+ */
+export const useEncryptionKey = () => {
+  const { data: walletClient } = useWalletClient();
+
+  const secretFor = useCallback(
+    async (input: EncryptionKeyInput): Promise<EncryptionSecret> => {
+      if (input.kdf === "pbkdf2") return input;
+      if (!walletClient) throw new Error("Connect your wallet to unlock encrypted files");
+      const signature = await walletClient.signMessage({ message: WALLET_KEY_MESSAGE });
+      return { kdf: "wallet", signature };
+    },
+    [walletClient],
+  );
+
+  const deriveKey = useCallback(
+    async (input: EncryptionKeyInput, params: Pick<EncryptionParams, "kdf" | "salt">) =>
+      deriveEncryptionKey(await secretFor(input), params),
+    [secretFor],
+  );
+
+  /** Also returns the key's verifier, which uploads journal to check the key on resume */
+  const deriveKeyWithVerifier = useCallback(
+    async (input: EncryptionKeyInput, params: Pick<EncryptionParams, "kdf" | "salt">) =>
+      deriveEncryptionKeyWithVerifier(await secretFor(input), params),
+    [secretFor],
+  );
+
+  return { deriveKey, deriveKeyWithVerifier };
+};
@@ -0,0 +1,161 @@
+import { SIZE_CONSTANTS } from "@filoz/synapse-sdk";
+import { sha256Hex } from "./chunking";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One file inside a bundle piece, read back with a ranged request. */
+export interface BundleEntry {
+  name: string;
+  /** Relative path inside an uploaded folder */
+  path?: string;
+  type?: string;
+  lastModified?: number;
+  /** Byte range of the file in the bundle */
+  offset: number;
+  length: number;
+  /** Hex SHA-256 — ranged reads cannot be checked against the PieceCID */
+  sha256: string;
+}
+
+/** JSON content of the sidecar index piece committed alongside a bundle. */
+export interface BundleIndex {
+  version: 1;
+  files: BundleEntry[];
+}
+
+/** Summary of a bundle piece, read from its metadata without downloading the index. */
+export interface BundleInfo {
+  fileCount: number;
+  /** PieceCID of the sidecar index */
+  indexCid: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Bundle pieces carry `BUNDLE_METADATA_KEY`; index pieces point back with `BUNDLE_INDEX_METADATA_KEY`. */
+export const BUNDLE_METADATA_KEY = "bundle";
+export const BUNDLE_INDEX_METADATA_KEY = "bundleOf";
+
+/** Files below this size are packed when bundling is on. */
+export const BUNDLE_FILE_THRESHOLD = 1024 * 1024;
+
+/** A bundle is built in memory to compute its PieceCID, so it is capped. */
+const MAX_BUNDLE_SIZE = 64 * 1024 * 1024;
+
+const BUNDLE_VERSION = "1";
+
+// ─── Planning ────────────────────────────────────────────────────────────────
+
+/**
+ * Groups the small files (by index) into bundles of at most `MAX_BUNDLE_SIZE`.
+ * A lone small file gains nothing from a bundle and is left out, and so are
+ * files that together stay below the providers' minimum piece size — a tail
+ * that small is folded into the previous bundle instead.
+ */
+export function planBundles(sizes: number[]): number[][] {
+  const bundles: { files: number[]; size: number }[] = [];
+  let current = { files: [] as number[], size: 0 };
+  for (const [i, size] of sizes.entries()) {
+    if (size >= BUNDLE_FILE_THRESHOLD) continue;
+    if (current.size + size > MAX_BUNDLE_SIZE) {
+      bundles.push(current);
+      current = { files: [], size: 0 };
+    }
+    current.files.push(i);
+    current.size += size;
+  }
+  const previous = bundles.at(-1);
+  if (previous && current.size < SIZE_CONSTANTS.MIN_UPLOAD_SIZE) {
+    previous.files.push(...current.files);
+    previous.size += current.size;
+  } else {
+    bundles.push(current);
+  }
+  return bundles
+    .filter((b) => b.files.length > 1 && b.size >= SIZE_CONSTANTS.MIN_UPLOAD_SIZE)
+    .map((b) => b.files);
+}
+
+// ─── Metadata ────────────────────────────────────────────────────────────────
+
+export function encodeBundleInfo(info: BundleInfo): string {
+  return new URLSearchParams({
+    v: BUNDLE_VERSION,
+    files: String(info.fileCount),
+    index: info.indexCid,
+  }).toString();
+}
+
+/** Bundle summary of a piece, or undefined for any other piece. */
+export function readBundleInfo(
+  metadata: Record<string, string> | undefined,
+): BundleInfo | undefined {
+  const value = metadata?.[BUNDLE_METADATA_KEY];
+  if (!value) return undefined;
+  const fields = new URLSearchParams(value);
+  const fileCount = Number(fields.get("files"));
+  const indexCid = fields.get("index");
+  if (fields.get("v") !== BUNDLE_VERSION || !Number.isInteger(fileCount) || !indexCid) {
+    throw new Error("Unsupported bundle metadata");
+  }
+  return { fileCount, indexCid };
+}
+
+export function isBundleIndexPiece(metadata: Record<string, string> | undefined): boolean {
+  return !!metadata?.[BUNDLE_INDEX_METADATA_KEY];
+}
+
+// ─── Index content ───────────────────────────────────────────────────────────
+
+/** Padded with trailing whitespace, which JSON ignores, up to the minimum piece size. */
+export function serializeBundleIndex(index: BundleIndex): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify(index).padEnd(SIZE_CONSTANTS.MIN_UPLOAD_SIZE, " "),
+  );
+}
+
+export function parseBundleIndex(bytes: Uint8Array): BundleIndex {
+  const index = JSON.parse(new TextDecoder().decode(bytes)) as Partial<BundleIndex>;
+  if (
+    index.version !== 1 ||
+    !Array.isArray(index.files) ||
+    index.files.some(
+      (f) =>
+        typeof f?.name !== "string" ||
+        typeof f?.offset !== "number" ||
+        typeof f?.length !== "number" ||
+        typeof f?.sha256 !== "string",
+    )
+  ) {
+    throw new Error("Invalid bundle index");
+  }
+  return index as BundleIndex;
+}
+
+// ─── Ranged reads ────────────────────────────────────────────────────────────
+
+/** Reads one file out of a bundle piece and checks it against the index. */
+export async function readBundleEntry(
+  bundleUrl: string,
+  entry: BundleEntry,
+  signal?: AbortSignal,
+): Promise<Uint8Array> {
+  // An empty range cannot be expressed in a Range header
+  if (entry.length === 0) return new Uint8Array();
+  const response = await fetch(bundleUrl, {
+    headers: { Range: `bytes=${entry.offset}-${entry.offset + entry.length - 1}` },
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to read ${entry.name} from the bundle (HTTP ${response.status})`);
+  }
+  let bytes = new Uint8Array(await response.arrayBuffer());
+  // A provider ignoring the Range header sends the whole bundle
+  if (response.status !== 206) {
+    bytes = bytes.slice(entry.offset, entry.offset + entry.length);
+  }
+  if ((await sha256Hex(bytes)) !== entry.sha256) {
+    throw new Error(`${entry.name} does not match the bundle index`);
+  }
+  return bytes;
+}
@@ -0,0 +1,119 @@
+import { SIZE_CONSTANTS } from "@filoz/synapse-sdk";
+import type { EncryptionKdf } from "./encryption";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One piece of a chunked file, in order. */
+export interface ManifestChunk {
+  pieceCid: string;
+  /** Bytes stored in the piece */
+  size: number;
+  /** Hex SHA-256 of the stored bytes */
+  sha256: string;
+  /** Encrypted uploads: the chunk's encryption parameters (see `encodeEncryptionParams`) */
+  enc?: string;
+}
+
+/** JSON content of the manifest piece committed alongside the chunks. */
+export interface ChunkManifest {
+  version: 1;
+  /** Left out of encrypted uploads, whose file names stay private */
+  name?: string;
+  /** Size of the stitched chunks (before decryption and decompression are undone) */
+  size: number;
+  chunks: ManifestChunk[];
+}
+
+/** Summary of a manifest piece, read from its metadata without downloading it. */
+export interface ChunkedFileInfo {
+  chunkCount: number;
+  kdf?: EncryptionKdf;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Manifest pieces carry `MANIFEST_METADATA_KEY`; chunk pieces point back with `CHUNK_METADATA_KEY`. */
+export const MANIFEST_METADATA_KEY = "manifest";
+export const CHUNK_METADATA_KEY = "chunkOf";
+
+/** Fixed chunk size — small enough to hash in memory, far below the provider limit. */
+export const CHUNK_SIZE = 256 * 1024 * 1024;
+
+/** Headroom for encryption tags, so an encrypted chunk never crosses the limit. */
+const MAX_UNCHUNKED_SIZE = SIZE_CONSTANTS.MAX_UPLOAD_SIZE - 1024 * 1024;
+
+const MANIFEST_VERSION = "1";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+export function needsChunking(size: number): boolean {
+  return size > MAX_UNCHUNKED_SIZE;
+}
+
+/**
+ * Byte ranges of the chunks. A tail below the provider's minimum piece size
+ * is folded into the previous chunk.
+ */
+export function chunkRanges(size: number): { offset: number; length: number }[] {
+  const ranges: { offset: number; length: number }[] = [];
+  for (let offset = 0; offset < size; offset += CHUNK_SIZE) {
+    ranges.push({ offset, length: Math.min(CHUNK_SIZE, size - offset) });
+  }
+  const last = ranges.at(-1);
+  if (ranges.length > 1 && last && last.length < SIZE_CONSTANTS.MIN_UPLOAD_SIZE) {
+    ranges.pop();
+    ranges[ranges.length - 1].length += last.length;
+  }
+  return ranges;
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new Uint8Array(bytes));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ─── Metadata ────────────────────────────────────────────────────────────────
+
+export function encodeChunkedFileInfo(info: ChunkedFileInfo): string {
+  const fields = new URLSearchParams({ v: MANIFEST_VERSION, chunks: String(info.chunkCount) });
+  if (info.kdf) fields.set("kdf", info.kdf);
+  return fields.toString();
+}
+
+/** Chunked-file summary of a manifest piece, or undefined for any other piece. */
+export function readChunkedFileInfo(
+  metadata: Record<string, string> | undefined,
+): ChunkedFileInfo | undefined {
+  const value = metadata?.[MANIFEST_METADATA_KEY];
+  if (!value) return undefined;
+  const fields = new URLSearchParams(value);
+  const chunkCount = Number(fields.get("chunks"));
+  const kdf = fields.get("kdf");
+  if (fields.get("v") !== MANIFEST_VERSION || !Number.isInteger(chunkCount) || chunkCount < 1) {
+    throw new Error("Unsupported chunked file manifest");
+  }
+  return { chunkCount, kdf: kdf === "pbkdf2" || kdf === "wallet" ? kdf : undefined };
+}
+
+export function isChunkPiece(metadata: Record<string, string> | undefined): boolean {
+  return !!metadata?.[CHUNK_METADATA_KEY];
+}
+
+// ─── Manifest content ────────────────────────────────────────────────────────
+
+export function serializeChunkManifest(manifest: ChunkManifest): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(manifest));
+}
+
+export function parseChunkManifest(bytes: Uint8Array): ChunkManifest {
+  const manifest = JSON.parse(new TextDecoder().decode(bytes)) as Partial<ChunkManifest>;
+  if (
+    manifest.version !== 1 ||
+    typeof manifest.size !== "number" ||
+    !Array.isArray(manifest.chunks) ||
+    manifest.chunks.some((c) => typeof c?.pieceCid !== "string" || typeof c?.sha256 !== "string")
+  ) {
+    throw new Error("Invalid chunked file manifest");
+  }
+  return manifest as ChunkManifest;
+}
@@ -0,0 +1,38 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Formats supported by the browser's CompressionStream / DecompressionStream. */
+export type ContentEncoding = "gzip" | "deflate";
+
+// ─── Metadata ────────────────────────────────────────────────────────────────
+
+/** Piece metadata key holding the encoding; the original size goes under the file `size` key. */
+export const CONTENT_ENCODING_METADATA_KEY = "contentEncoding";
+
+export const CONTENT_ENCODINGS: ContentEncoding[] = ["gzip", "deflate"];
+
+export function readContentEncoding(
+  metadata: Record<string, string> | undefined,
+): ContentEncoding | undefined {
+  const value = metadata?.[CONTENT_ENCODING_METADATA_KEY];
+  if (!value) return undefined;
+  if (!CONTENT_ENCODINGS.includes(value as ContentEncoding)) {
+    throw new Error(`Unsupported content encoding "${value}"`);
+  }
+  return value as ContentEncoding;
+}
+
+// ─── Streams ─────────────────────────────────────────────────────────────────
+
+export function compressStream(
+  stream: ReadableStream<Uint8Array>,
+  encoding: ContentEncoding,
+): ReadableStream<Uint8Array> {
+  return stream.pipeThrough(
+    new CompressionStream(encoding) as unknown as TransformStream<Uint8Array, Uint8Array>,
+  );
+}
+
+/** Decompresses `blob` as a stream; the result may be backed by disk rather than memory. */
+export function decompressBlob(blob: Blob, encoding: ContentEncoding): Promise<Blob> {
+  return new Response(blob.stream().pipeThrough(new DecompressionStream(encoding))).blob();
+}
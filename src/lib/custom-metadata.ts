@@ -0,0 +1,83 @@
+import { METADATA_LIMITS } from "@filoz/synapse-core/utils";
+import { BUNDLE_INDEX_METADATA_KEY, BUNDLE_METADATA_KEY } from "./bundling";
+import { CHUNK_METADATA_KEY, MANIFEST_METADATA_KEY } from "./chunking";
+import { CONTENT_ENCODING_METADATA_KEY } from "./compression";
+import { ENCRYPTION_METADATA_KEY } from "./encryption";
+import { FILE_METADATA_KEYS, getMetadataErrors, type MetadataScope } from "./metadata";
+import { UNIXFS_METADATA_KEY } from "./unixfs-profile";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** User-defined tags, e.g. `{ project: "x", env: "prod" }`. */
+export interface CustomMetadata {
+  /** Also decides which existing dataset an upload is matched to */
+  dataset: Record<string, string>;
+  piece: Record<string, string>;
+}
+
+// ─── Keys ────────────────────────────────────────────────────────────────────
+
+/** Keys the app, the SDK or providers interpret; tags cannot use them. */
+const RESERVED_METADATA_KEYS: ReadonlySet<string> = new Set([
+  ...Object.values(FILE_METADATA_KEYS),
+  ENCRYPTION_METADATA_KEY,
+  CONTENT_ENCODING_METADATA_KEY,
+  MANIFEST_METADATA_KEY,
+  CHUNK_METADATA_KEY,
+  BUNDLE_METADATA_KEY,
+  BUNDLE_INDEX_METADATA_KEY,
+  UNIXFS_METADATA_KEY,
+  "ipfsRootCid",
+  "ipfsRootCID",
+  "withCDN",
+  "withIPFSIndexing",
+  "DAPPID",
+]);
+
+/**
+ * Tag slots per scope. Every dataset spends two keys on the app ID and its
+ * CDN / IPFS flag; piece slots also shrink by what the upload pipeline
+ * reserves — including a plain file's name and path (see
+ * `getCustomMetadataErrors`).
+ */
+export const MAX_CUSTOM_METADATA_KEYS: Record<MetadataScope, number> = {
+  dataset: METADATA_LIMITS.MAX_KEYS_PER_DATASET - 2,
+  piece: METADATA_LIMITS.MAX_KEYS_PER_PIECE,
+};
+
+export const isReservedMetadataKey = (key: string): boolean => RESERVED_METADATA_KEYS.has(key);
+
+/** The tags among on-chain metadata. */
+export function readCustomMetadata(
+  metadata: Record<string, string> | undefined,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(metadata ?? {}).filter(([key]) => !isReservedMetadataKey(key)),
+  );
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/**
+ * Problems with tags as edited, one `[key, value]` row each — so duplicate
+ * keys are caught before they collapse. `reservedSlots`: keys the pipeline
+ * needs on the same pieces. Empty when valid.
+ */
+export function getCustomMetadataErrors(
+  rows: [string, string][],
+  scope: MetadataScope,
+  reservedSlots = 0,
+): string[] {
+  const errors = getMetadataErrors(
+    Object.fromEntries(rows),
+    scope,
+    Math.max(0, MAX_CUSTOM_METADATA_KEYS[scope] - reservedSlots),
+  );
+  const seen = new Set<string>();
+  for (const [key] of rows) {
+    if (isReservedMetadataKey(key)) errors.push(`"${key}" is reserved by the app`);
+    if (seen.has(key)) errors.push(`"${key}" is used twice`);
+    seen.add(key);
+  }
+  return errors;
+}
@@ -2,6 +2,9 @@ import type { PieceWithMetadata } from "@filoz/synapse-core/warm-storage";
 import { DataSetWithPieces, UseServicePriceResult } from "@filoz/synapse-react";
 import type { PDPProvider } from "@filoz/synapse-sdk";
 import { getPieceInfoFromCid, normalizePieceCid, type SizeInfo } from "@/lib/piece";
+import { isBundleIndexPiece } from "./bundling";
+import { isChunkPiece } from "./chunking";
+import { readCustomMetadata } from "./custom-metadata";
 import {
   bytesToGiB,
   calculateMinimumCapacityThreshold,
@@ -65,6 +68,8 @@ export function computeUniquePieces(datasets: DataSet[]): UniquePiece[] {
   for (const dataset of datasets) {
     for (let pieceIndex = 0; pieceIndex < dataset.pieces.length; pieceIndex++) {
       const piece = dataset.pieces[pieceIndex];
+      // Chunks are listed through their manifest, bundle indexes through their bundle
+      if (isChunkPiece(piece.metadata) || isBundleIndexPiece(piece.metadata)) continue;
       const cidString = normalizePieceCid(piece.cid);
 
       const existing = pieceMap.get(cidString);
@@ -88,6 +93,17 @@ export function computeUniquePieces(datasets: DataSet[]): UniquePiece[] {
   }));
 }
 
+/**
+ * Custom tags of a file as `[key, value]` pairs: its piece's plus those of
+ * every dataset holding it, so a key can appear with several values.
+ */
+export function getPieceTags({ piece, datasets }: UniquePiece): [string, string][] {
+  const pairs = [piece.metadata, ...datasets.map((d) => d.dataset.metadata)].flatMap((metadata) =>
+    Object.entries(readCustomMetadata(metadata)),
+  );
+  return Array.from(new Map(pairs.map((pair) => [pair.join("\0"), pair])).values());
+}
+
 export function getDatasetsCostInfo(datasets: DataSet[], pricing: UseServicePriceResult) {
   const minimumCapacityGiB = calculateMinimumCapacityThreshold(
     pricing.pricePerTiBPerMonthNoCDN,
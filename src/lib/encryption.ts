@@ -0,0 +1,296 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** How the AES key is obtained: from a passphrase, or from a wallet signature. */
+export type EncryptionKdf = "pbkdf2" | "wallet";
+
+/** What the user chooses in the UI; the wallet variant is turned into a signature by the caller. */
+export type EncryptionKeyInput = { kdf: "pbkdf2"; passphrase: string } | { kdf: "wallet" };
+
+/** Secret material a key is derived from. */
+export type EncryptionSecret =
+  { kdf: "pbkdf2"; passphrase: string } | { kdf: "wallet"; signature: `0x${string}` };
+
+/** Parameters of an encrypted piece, stored in its metadata under `ENCRYPTION_METADATA_KEY`. */
+export interface EncryptionParams {
+  algorithm: "AES-GCM";
+  kdf: EncryptionKdf;
+  /** Key-derivation salt — shared by every piece of one upload */
+  salt: Uint8Array;
+  /** Base IV — unique per piece; chunk IVs are derived from it */
+  iv: Uint8Array;
+  /** Plaintext bytes per GCM chunk */
+  chunkSize: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Single metadata key so encryption only costs one of the MAX_KEYS_PER_PIECE slots. */
+export const ENCRYPTION_METADATA_KEY = "enc";
+
+/** Signed to derive a wallet key. Must never change, or existing pieces become unreadable. */
+export const WALLET_KEY_MESSAGE =
+  "Sign to unlock your encrypted Filecoin uploads.\n\nThis signature never leaves your browser.";
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/** Plaintext bytes sealed per AES-GCM chunk of a new upload. */
+export const ENCRYPTION_CHUNK_SIZE = 1024 * 1024;
+const PBKDF2_ITERATIONS = 600_000;
+const KEY_BITS = 256;
+const KEY_INFO = "fs-upload-dapp/enc/v1";
+const VERIFIER_INFO = "fs-upload-dapp/verifier/v1";
+const VERIFIER_BYTES = 16;
+const TAG_BYTES = 16;
+const FORMAT_VERSION = "1";
+
+// ─── Encoding ────────────────────────────────────────────────────────────────
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/** Compact, URL-encoded form of the parameters (well under the 128-char value limit). */
+export function encodeEncryptionParams(params: EncryptionParams): string {
+  return new URLSearchParams({
+    v: FORMAT_VERSION,
+    alg: params.algorithm,
+    kdf: params.kdf,
+    salt: toBase64Url(params.salt),
+    iv: toBase64Url(params.iv),
+    chunk: String(params.chunkSize),
+  }).toString();
+}
+
+/** Encryption parameters of a piece, or undefined when it is stored in plaintext. */
+export function readEncryptionParams(
+  metadata: Record<string, string> | undefined,
+): EncryptionParams | undefined {
+  const value = metadata?.[ENCRYPTION_METADATA_KEY];
+  if (!value) return undefined;
+
+  const fields = new URLSearchParams(value);
+  const kdf = fields.get("kdf");
+  const salt = fields.get("salt");
+  const iv = fields.get("iv");
+  const chunkSize = Number(fields.get("chunk"));
+  if (
+    fields.get("v") !== FORMAT_VERSION ||
+    fields.get("alg") !== "AES-GCM" ||
+    (kdf !== "pbkdf2" && kdf !== "wallet") ||
+    !salt ||
+    !iv ||
+    !Number.isInteger(chunkSize) ||
+    chunkSize <= 0
+  ) {
+    throw new Error("Unsupported encryption parameters in piece metadata");
+  }
+  return { algorithm: "AES-GCM", kdf, salt: fromBase64Url(salt), iv: fromBase64Url(iv), chunkSize };
+}
+
+export function isEncryptedPiece(metadata: Record<string, string> | undefined): boolean {
+  return !!metadata?.[ENCRYPTION_METADATA_KEY];
+}
+
+// ─── Keys ────────────────────────────────────────────────────────────────────
+
+/** Fresh parameters for one upload. Call `withFreshIv` for each piece. */
+export function createEncryptionParams(kdf: EncryptionKdf): EncryptionParams {
+  return {
+    algorithm: "AES-GCM",
+    kdf,
+    salt: crypto.getRandomValues(new Uint8Array(16)),
+    iv: crypto.getRandomValues(new Uint8Array(12)),
+    chunkSize: ENCRYPTION_CHUNK_SIZE,
+  };
+}
+
+export function withFreshIv(params: EncryptionParams): EncryptionParams {
+  return { ...params, iv: crypto.getRandomValues(new Uint8Array(12)) };
+}
+
+/**
+ * The 256 bits the AES-256-GCM key is made of. Wallet keys rely on the wallet
+ * producing the same signature for `WALLET_KEY_MESSAGE` every time (RFC 6979
+ * ECDSA does).
+ */
+async function deriveKeyBits(
+  secret: EncryptionSecret,
+  params: Pick<EncryptionParams, "kdf" | "salt">,
+): Promise<ArrayBuffer> {
+  if (secret.kdf !== params.kdf) {
+    throw new Error(
+      params.kdf === "wallet"
+        ? "This file was encrypted with a wallet signature"
+        : "This file was encrypted with a passphrase",
+    );
+  }
+  const salt = new Uint8Array(params.salt);
+
+  if (secret.kdf === "pbkdf2") {
+    const material = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secret.passphrase),
+      "PBKDF2",
+      false,
+      ["deriveBits"],
+    );
+    return crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+      material,
+      KEY_BITS,
+    );
+  }
+
+  const signature = Uint8Array.from(secret.signature.slice(2).match(/../g) ?? [], (byte) =>
+    parseInt(byte, 16),
+  );
+  const material = await crypto.subtle.importKey("raw", signature, "HKDF", false, ["deriveBits"]);
+  return crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt, info: new TextEncoder().encode(KEY_INFO) },
+    material,
+    KEY_BITS,
+  );
+}
+
+function importAesKey(bits: ArrayBuffer): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", bits, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+/** Derives the AES-256-GCM key. */
+export async function deriveEncryptionKey(
+  secret: EncryptionSecret,
+  params: Pick<EncryptionParams, "kdf" | "salt">,
+): Promise<CryptoKey> {
+  return importAesKey(await deriveKeyBits(secret, params));
+}
+
+/**
+ * Derives the AES key along with a short fingerprint of it, used to reject a
+ * different passphrase when resuming a job. The fingerprint is an HMAC over
+ * the salt under an HKDF subkey, so it reveals nothing about the AES key.
+ */
+export async function deriveEncryptionKeyWithVerifier(
+  secret: EncryptionSecret,
+  params: Pick<EncryptionParams, "kdf" | "salt">,
+): Promise<{ key: CryptoKey; verifier: string }> {
+  const bits = await deriveKeyBits(secret, params);
+  const material = await crypto.subtle.importKey("raw", bits, "HKDF", false, ["deriveKey"]);
+  const hmacKey = await crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(),
+      info: new TextEncoder().encode(VERIFIER_INFO),
+    },
+    material,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const mac = await crypto.subtle.sign("HMAC", hmacKey, new Uint8Array(params.salt));
+  return {
+    key: await importAesKey(bits),
+    verifier: toBase64Url(new Uint8Array(mac).subarray(0, VERIFIER_BYTES)),
+  };
+}
+
+// ─── Chunked AES-GCM ─────────────────────────────────────────────────────────
+//
+// Each chunk of `chunkSize` plaintext bytes is sealed separately, so files of
+// any size stream through without being buffered. The chunk index is mixed
+// into the IV and the last chunk is authenticated as final, which rejects
+// reordered, dropped or truncated chunks.
+
+function chunkIv(baseIv: Uint8Array, index: number): Uint8Array<ArrayBuffer> {
+  const iv = new Uint8Array(baseIv);
+  const view = new DataView(iv.buffer);
+  view.setUint32(8, view.getUint32(8) ^ index);
+  return iv;
+}
+
+const chunkAad = (final: boolean) => new Uint8Array([final ? 1 : 0]);
+
+/** Ciphertext size for `plaintextSize` bytes — every chunk (at least one) adds a GCM tag. */
+export function encryptedSize(plaintextSize: number, chunkSize: number): number {
+  return plaintextSize + Math.max(1, Math.ceil(plaintextSize / chunkSize)) * TAG_BYTES;
+}
+
+export function encryptStream(
+  stream: ReadableStream<Uint8Array>,
+  key: CryptoKey,
+  params: EncryptionParams,
+): ReadableStream<Uint8Array> {
+  let pending = new Uint8Array(0);
+  let index = 0;
+
+  const seal = async (chunk: Uint8Array, final: boolean) => {
+    const iv = chunkIv(params.iv, index++);
+    const sealed = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: chunkAad(final) },
+      key,
+      new Uint8Array(chunk),
+    );
+    return new Uint8Array(sealed);
+  };
+
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      async transform(bytes, controller) {
+        const merged = new Uint8Array(pending.length + bytes.length);
+        merged.set(pending);
+        merged.set(bytes, pending.length);
+        pending = merged;
+        // Hold back a full chunk until more data arrives — it may be the final one
+        let offset = 0;
+        while (pending.length - offset > params.chunkSize) {
+          controller.enqueue(
+            await seal(pending.subarray(offset, offset + params.chunkSize), false),
+          );
+          offset += params.chunkSize;
+        }
+        pending = pending.slice(offset);
+      },
+      async flush(controller) {
+        controller.enqueue(await seal(pending, true));
+      },
+    }),
+  );
+}
+
+export async function decryptBytes(
+  ciphertext: Uint8Array,
+  key: CryptoKey,
+  params: EncryptionParams,
+): Promise<Uint8Array> {
+  const sealedChunk = params.chunkSize + TAG_BYTES;
+  const chunkCount = Math.max(1, Math.ceil(ciphertext.length / sealedChunk));
+  const plaintext = new Uint8Array(ciphertext.length - chunkCount * TAG_BYTES);
+
+  try {
+    for (let i = 0, written = 0; i < chunkCount; i++) {
+      const sealed = ciphertext.subarray(i * sealedChunk, (i + 1) * sealedChunk);
+      const opened = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: chunkIv(params.iv, i),
+          additionalData: chunkAad(i === chunkCount - 1),
+        },
+        key,
+        new Uint8Array(sealed),
+      );
+      plaintext.set(new Uint8Array(opened), written);
+      written += opened.byteLength;
+    }
+  } catch {
+    throw new Error("Could not decrypt the file — wrong key or corrupted data");
+  }
+  return plaintext;
+}
@@ -0,0 +1,127 @@
+import { METADATA_LIMITS } from "@filoz/synapse-core/utils";
+import type { BundleEntry, BundleIndex } from "./bundling";
+import { MANIFEST_METADATA_KEY } from "./chunking";
+import type { UniquePiece } from "./datasets";
+import { readFileMetadata } from "./metadata";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A file as Files lists it: a piece of its own, or one packed in a bundle. */
+export interface TreeFile {
+  uniquePiece: UniquePiece;
+  /** Set for a file read from a bundle's index */
+  entry?: BundleEntry;
+  /** Falls back to the PieceCID for pieces uploaded without a name */
+  name: string;
+  /** Folder names from the root; empty for files uploaded on their own */
+  folder: string[];
+  size: number;
+}
+
+export interface TreeFolder {
+  name: string;
+  path: string[];
+  folders: TreeFolder[];
+  files: TreeFile[];
+  /** Totals over every file below this folder */
+  fileCount: number;
+  size: number;
+}
+
+// ─── Building ────────────────────────────────────────────────────────────────
+
+/**
+ * Folder segments of a relative path such as `photos/2024/a.jpg`. Earlier
+ * uploads cut long paths in the middle; those are listed at the root rather
+ * than in a folder that never existed.
+ */
+function folderOf(relativePath: string | undefined): string[] {
+  if (!relativePath) return [];
+  const truncated =
+    relativePath.length === METADATA_LIMITS.MAX_VALUE_LENGTH && relativePath.includes("…");
+  if (truncated) return [];
+  return relativePath.split("/").filter(Boolean).slice(0, -1);
+}
+
+/**
+ * Every file of `pieces`. A bundle whose index is in `bundleIndexes` becomes
+ * its packed files; without one it is listed as a single piece.
+ */
+export function listTreeFiles(
+  pieces: UniquePiece[],
+  bundleIndexes: Map<string, BundleIndex>,
+): TreeFile[] {
+  return pieces.flatMap((uniquePiece): TreeFile[] => {
+    const { pieceCid, piece } = uniquePiece;
+    const index = bundleIndexes.get(pieceCid);
+    if (index) {
+      return index.files.map((entry) => ({
+        uniquePiece,
+        entry,
+        name: entry.name,
+        folder: folderOf(entry.path),
+        size: entry.length,
+      }));
+    }
+    const { name, relativePath, originalSize } = readFileMetadata(piece.metadata);
+    // A manifest piece is tiny — the file's size is the interesting one
+    const isChunked = !!piece.metadata?.[MANIFEST_METADATA_KEY];
+    return [
+      {
+        uniquePiece,
+        name: name ?? pieceCid,
+        folder: folderOf(relativePath),
+        size: isChunked && originalSize !== undefined ? originalSize : Number(piece.sizeBytes),
+      },
+    ];
+  });
+}
+
+function createFolder(name: string, path: string[]): TreeFolder {
+  return { name, path, folders: [], files: [], fileCount: 0, size: 0 };
+}
+
+/** Groups `files` into folders by their relative paths, whichever dataset holds them. */
+export function buildFileTree(files: TreeFile[]): TreeFolder {
+  const root = createFolder("", []);
+  for (const file of files) {
+    let folder = root;
+    folder.fileCount++;
+    folder.size += file.size;
+    for (const name of file.folder) {
+      let child = folder.folders.find((f) => f.name === name);
+      if (!child) {
+        child = createFolder(name, [...folder.path, name]);
+        folder.folders.push(child);
+      }
+      folder = child;
+      folder.fileCount++;
+      folder.size += file.size;
+    }
+    folder.files.push(file);
+  }
+  sortFolder(root);
+  return root;
+}
+
+function sortFolder(folder: TreeFolder) {
+  folder.folders.sort((a, b) => a.name.localeCompare(b.name));
+  folder.folders.forEach(sortFolder);
+}
+
+// ─── Navigation ──────────────────────────────────────────────────────────────
+
+/** The folder at `path`, or undefined once it no longer exists (e.g. filtered out). */
+export function findFolder(root: TreeFolder, path: string[]): TreeFolder | undefined {
+  let folder: TreeFolder | undefined = root;
+  for (const name of path) {
+    folder = folder.folders.find((f) => f.name === name);
+    if (!folder) return undefined;
+  }
+  return folder;
+}
+
+/** Files of `folder` and all its subfolders. */
+export function folderFiles(folder: TreeFolder): TreeFile[] {
+  return [...folder.files, ...folder.folders.flatMap(folderFiles)];
+}
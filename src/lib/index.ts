@@ -1,4 +1,48 @@
+export {
+  BUNDLE_FILE_THRESHOLD,
+  BUNDLE_INDEX_METADATA_KEY,
+  BUNDLE_METADATA_KEY,
+  encodeBundleInfo,
+  isBundleIndexPiece,
+  parseBundleIndex,
+  planBundles,
+  readBundleEntry,
+  readBundleInfo,
+  serializeBundleIndex,
+} from "./bundling";
+export type { BundleEntry, BundleIndex, BundleInfo } from "./bundling";
+export {
+  CHUNK_METADATA_KEY,
+  CHUNK_SIZE,
+  MANIFEST_METADATA_KEY,
+  chunkRanges,
+  encodeChunkedFileInfo,
+  isChunkPiece,
+  needsChunking,
+  parseChunkManifest,
+  readChunkedFileInfo,
+  serializeChunkManifest,
+  sha256Hex,
+} from "./chunking";
+export type { ChunkManifest, ChunkedFileInfo, ManifestChunk } from "./chunking";
+export {
+  CONTENT_ENCODING_METADATA_KEY,
+  CONTENT_ENCODINGS,
+  compressStream,
+  decompressBlob,
+  readContentEncoding,
+} from "./compression";
+export type { ContentEncoding } from "./compression";
+export {
+  MAX_CUSTOM_METADATA_KEYS,
+  getCustomMetadataErrors,
+  isReservedMetadataKey,
+  readCustomMetadata,
+} from "./custom-metadata";
+export type { CustomMetadata } from "./custom-metadata";
 export { transformDatasets, computeUniquePieces } from "./datasets";
+export { buildFileTree, findFolder, folderFiles, listTreeFiles } from "./file-tree";
+export type { TreeFile, TreeFolder } from "./file-tree";
 export { AppDecimal, bigIntToDecimal, safeDivide, bytesToGiB } from "./decimal";
 export {
   DECIMAL_PLACES,
@@ -22,12 +66,95 @@ export {
   isDatasetOnIpfs,
 } from "./piece";
 export type { SizeInfo, OpenPieceParams } from "./piece";
+export {
+  ENCRYPTION_CHUNK_SIZE,
+  ENCRYPTION_METADATA_KEY,
+  MIN_PASSPHRASE_LENGTH,
+  WALLET_KEY_MESSAGE,
+  createEncryptionParams,
+  decryptBytes,
+  deriveEncryptionKey,
+  deriveEncryptionKeyWithVerifier,
+  encodeEncryptionParams,
+  encryptStream,
+  encryptedSize,
+  isEncryptedPiece,
+  readEncryptionParams,
+  withFreshIv,
+} from "./encryption";
+export type {
+  EncryptionKdf,
+  EncryptionKeyInput,
+  EncryptionParams,
+  EncryptionSecret,
+} from "./encryption";
+export {
+  DEFAULT_IPNI_SETTINGS,
+  IPNI_HEARTBEAT_MS,
+  MAX_IPNI_DELAY_MS,
+  combineIpniStatus,
+  getIpniSettingsErrors,
+  ipniBudgetMs,
+  ipniDelay,
+  ipniProviderStatuses,
+} from "./ipni";
+export type {
+  IpniCheck,
+  IpniExpectedProvider,
+  IpniIndexerCheck,
+  IpniSettings,
+  IpniStatus,
+} from "./ipni";
+export {
+  FILE_METADATA_KEYS,
+  assertValidMetadata,
+  buildFileMetadata,
+  getMetadataErrors,
+  isRelativePathTooLong,
+  readFileMetadata,
+  truncateMetadataValue,
+} from "./metadata";
+export type { FileMetadata, MetadataScope } from "./metadata";
 export { queryKeys } from "./query-keys";
 export {
   fetchStorageMetrics,
   computeDashboardMetrics,
   computeConfigCostPreview,
+  computeUploadCostPreview,
   computeRequiredCapacity,
+  computeCompressionSavings,
 } from "./storage-metrics";
 export { getSynapseClient } from "./synapse-client";
-export { cn, config, scopeKey, getErrorMessage } from "./utils";
+export { createTar } from "./tar";
+export type { TarEntry } from "./tar";
+export {
+  DEFAULT_UNIXFS_PROFILE,
+  MAX_UNIXFS_CHUNK_SIZE,
+  MIN_UNIXFS_CHUNK_SIZE,
+  UNIXFS_METADATA_KEY,
+  UNIXFS_PRESETS,
+  describeUnixFsProfile,
+  encodeUnixFsProfile,
+  findUnixFsPreset,
+  getUnixFsProfileErrors,
+  readUnixFsProfile,
+} from "./unixfs-profile";
+export type { UnixFsChunker, UnixFsLayout, UnixFsProfile } from "./unixfs-profile";
+export {
+  receiptDatasetSizes,
+  receiptStatus,
+  receiptStoredSize,
+  receiptToCsv,
+  receiptToJson,
+  toReceiptFailures,
+  toReceiptPieces,
+} from "./upload-receipt";
+export type {
+  ReceiptFailure,
+  ReceiptPiece,
+  ReceiptProvider,
+  UploadReceipt,
+  UploadReceiptMode,
+  UploadReceiptStatus,
+} from "./upload-receipt";
+export { cn, config, scopeKey, getErrorMessage, saveFile } from "./utils";
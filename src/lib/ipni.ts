@@ -0,0 +1,143 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type IpniStatus = "pending" | "verified" | "failed";
+
+/** How pin uploads check that their root CID is announced to IPNI and retrievable. */
+export interface IpniSettings {
+  /** Every indexer must list a provider for the root CID */
+  indexerUrls: string[];
+  /** Queries per indexer before giving up */
+  maxAttempts: number;
+  /** Wait before the second query */
+  delayMs: number;
+  /** Each following wait is this many times longer (1 = fixed delay) */
+  backoff: number;
+  /** Finish the upload once committed and verify while the user moves on */
+  background: boolean;
+  /** Fetch the root CID as a CAR after pinning and check every block */
+  retrievalCheck: boolean;
+  /** Trustless gateway to fetch from; empty to ask each committed provider */
+  gatewayUrl: string;
+}
+
+/** A provider the pieces were committed to, as it should appear in IPNI records. */
+export interface IpniExpectedProvider {
+  providerId: string;
+  providerName: string;
+  /** PDP service URL — IPNI lists it as a multiaddr */
+  serviceURL: string;
+  /** libp2p peer ID from the registry, when the provider published one */
+  peerId?: string;
+}
+
+export interface IpniIndexerCheck {
+  status: IpniStatus;
+  attempts: number;
+  error?: string;
+  /** Expected providers this indexer listed in its last response */
+  foundProviderIds?: string[];
+}
+
+/** Outcome of verifying one root CID, indexer by indexer. */
+export interface IpniCheck {
+  status: IpniStatus;
+  startedAt: number;
+  updatedAt: number;
+  /** Refreshed every `IPNI_HEARTBEAT_MS` by the page running a pending check */
+  heartbeatAt?: number;
+  indexers: Record<string, IpniIndexerCheck>;
+  /** Empty for checks that only looked for any provider */
+  expectedProviders?: IpniExpectedProvider[];
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+export const DEFAULT_IPNI_SETTINGS: IpniSettings = {
+  indexerUrls: ["https://filecoinpin.contact"],
+  maxAttempts: 20,
+  delayMs: 5000,
+  backoff: 1,
+  background: false,
+  retrievalCheck: false,
+  gatewayUrl: "",
+};
+
+/** Backoff never waits longer than this between two queries. */
+export const MAX_IPNI_DELAY_MS = 60_000;
+
+/** A pending check whose heartbeat is older than a few of these was left by a closed page. */
+export const IPNI_HEARTBEAT_MS = 10_000;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Wait after failed attempt `attempt` (1-based). */
+export function ipniDelay(
+  settings: Pick<IpniSettings, "delayMs" | "backoff">,
+  attempt: number,
+): number {
+  return Math.min(settings.delayMs * settings.backoff ** (attempt - 1), MAX_IPNI_DELAY_MS);
+}
+
+/** Longest an indexer is polled, in milliseconds (request time excluded). */
+export function ipniBudgetMs(
+  settings: Pick<IpniSettings, "maxAttempts" | "delayMs" | "backoff">,
+): number {
+  let total = 0;
+  for (let attempt = 1; attempt < settings.maxAttempts; attempt++) {
+    total += ipniDelay(settings, attempt);
+  }
+  return total;
+}
+
+/** Verified once every indexer is, failed as soon as one gave up. */
+export function combineIpniStatus(indexers: IpniIndexerCheck[]): IpniStatus {
+  if (indexers.some((i) => i.status === "failed")) return "failed";
+  if (indexers.length > 0 && indexers.every((i) => i.status === "verified")) return "verified";
+  return "pending";
+}
+
+/** Per committed provider: verified once every indexer lists it, failed once one gave up without. */
+export function ipniProviderStatuses(
+  check: IpniCheck,
+): { provider: IpniExpectedProvider; status: IpniStatus }[] {
+  const indexers = Object.values(check.indexers);
+  return (check.expectedProviders ?? []).map((provider) => {
+    const listed = (i: IpniIndexerCheck) => !!i.foundProviderIds?.includes(provider.providerId);
+    const status: IpniStatus = indexers.every(listed)
+      ? "verified"
+      : indexers.some((i) => i.status !== "pending" && !listed(i))
+        ? "failed"
+        : "pending";
+    return { provider, status };
+  });
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** Problems that would make verification meaningless; empty when valid. */
+export function getIpniSettingsErrors(settings: IpniSettings): string[] {
+  const errors: string[] = [];
+  if (settings.indexerUrls.length === 0) errors.push("Add at least one indexer URL");
+  for (const url of settings.indexerUrls) {
+    if (!isHttpUrl(url)) errors.push(`"${url}" is not an http(s) URL`);
+  }
+  if (settings.retrievalCheck && settings.gatewayUrl && !isHttpUrl(settings.gatewayUrl)) {
+    errors.push(`Gateway "${settings.gatewayUrl}" is not an http(s) URL`);
+  }
+  if (!Number.isInteger(settings.maxAttempts) || settings.maxAttempts < 1) {
+    errors.push("Attempts must be a whole number of at least 1");
+  }
+  if (!Number.isFinite(settings.delayMs) || settings.delayMs < 1000) {
+    errors.push("Delay must be at least 1 second");
+  }
+  if (!Number.isFinite(settings.backoff) || settings.backoff < 1) {
+    errors.push("Backoff must be at least 1");
+  }
+  return errors;
+}
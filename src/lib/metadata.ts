@@ -0,0 +1,147 @@
+import { METADATA_LIMITS } from "@filoz/synapse-core/utils";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type MetadataScope = "piece" | "dataset";
+
+/** File attributes recovered from piece metadata written by the uploader. */
+export interface FileMetadata {
+  name?: string;
+  mimeType?: string;
+  relativePath?: string;
+  originalSize?: number;
+  lastModified?: number;
+}
+
+// ─── Keys ────────────────────────────────────────────────────────────────────
+
+/**
+ * Piece metadata keys for file attributes. Kept short: the SDK allows only
+ * MAX_KEYS_PER_PIECE keys per piece, so every key competes for a slot.
+ */
+export const FILE_METADATA_KEYS = {
+  name: "name",
+  mimeType: "type",
+  relativePath: "path",
+  originalSize: "size",
+  lastModified: "mtime",
+} as const;
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+const maxKeys = (scope: MetadataScope) =>
+  scope === "piece" ? METADATA_LIMITS.MAX_KEYS_PER_PIECE : METADATA_LIMITS.MAX_KEYS_PER_DATASET;
+
+/**
+ * Problems that would make the SDK reject the metadata; empty when it is
+ * valid. `limit` lowers the key count for metadata that shares its slots.
+ */
+export function getMetadataErrors(
+  metadata: Record<string, string>,
+  scope: MetadataScope,
+  limit: number = maxKeys(scope),
+): string[] {
+  const errors: string[] = [];
+  const entries = Object.entries(metadata);
+  if (entries.length > limit) {
+    errors.push(`At most ${limit} ${scope} metadata keys are allowed`);
+  }
+  for (const [key, value] of entries) {
+    if (key.length === 0) errors.push("Metadata keys cannot be empty");
+    if (key.length > METADATA_LIMITS.MAX_KEY_LENGTH) {
+      errors.push(`Key "${key}" exceeds ${METADATA_LIMITS.MAX_KEY_LENGTH} characters`);
+    }
+    if (value.length > METADATA_LIMITS.MAX_VALUE_LENGTH) {
+      errors.push(`Value of "${key}" exceeds ${METADATA_LIMITS.MAX_VALUE_LENGTH} characters`);
+    }
+  }
+  return errors;
+}
+
+export function assertValidMetadata(metadata: Record<string, string>, scope: MetadataScope) {
+  const errors = getMetadataErrors(metadata, scope);
+  if (errors.length > 0) throw new Error(`Invalid ${scope} metadata: ${errors.join("; ")}`);
+}
+
+/** Shortens a value to the SDK limit, cutting the middle so both ends (e.g. an extension) survive. */
+export function truncateMetadataValue(
+  value: string,
+  maxLength: number = METADATA_LIMITS.MAX_VALUE_LENGTH,
+): string {
+  if (value.length <= maxLength) return value;
+  const head = Math.ceil((maxLength - 1) / 2);
+  const tail = maxLength - 1 - head;
+  return `${value.slice(0, head)}…${value.slice(value.length - tail)}`;
+}
+
+// ─── File metadata ───────────────────────────────────────────────────────────
+
+function relativePathOf(file: File): string | undefined {
+  const path = (file as File & { webkitRelativePath?: string }).webkitRelativePath;
+  return path && path.includes("/") ? path : undefined;
+}
+
+/**
+ * A cut path would put the file in a folder that does not exist, so a path
+ * over the value limit is not stored at all — such files are rejected.
+ */
+export function isRelativePathTooLong(file: File): boolean {
+  return (relativePathOf(file)?.length ?? 0) > METADATA_LIMITS.MAX_VALUE_LENGTH;
+}
+
+/**
+ * Piece metadata describing `file`. `reserved` entries (e.g. pipeline flags)
+ * always win, then the name and path; `tags` come next, so they never push
+ * those out, and the other file attributes fill whatever slots remain.
+ */
+export function buildFileMetadata(
+  file: File,
+  reserved: Record<string, string> = {},
+  tags: Record<string, string> = {},
+): Record<string, string> {
+  const identity: [string, string | undefined][] = [
+    [FILE_METADATA_KEYS.name, file.name],
+    [FILE_METADATA_KEYS.relativePath, relativePathOf(file)],
+  ];
+  const attributes: [string, string | undefined][] = [
+    [FILE_METADATA_KEYS.mimeType, file.type || undefined],
+    [FILE_METADATA_KEYS.originalSize, String(file.size)],
+    [FILE_METADATA_KEYS.lastModified, file.lastModified ? String(file.lastModified) : undefined],
+  ];
+
+  if (isRelativePathTooLong(file)) {
+    throw new Error(
+      `The folder path of ${file.name} exceeds ${METADATA_LIMITS.MAX_VALUE_LENGTH} characters`,
+    );
+  }
+
+  const metadata = { ...reserved };
+  const fill = (candidates: [string, string | undefined][]) => {
+    for (const [key, value] of candidates) {
+      if (value === undefined || key in metadata) continue;
+      if (Object.keys(metadata).length >= METADATA_LIMITS.MAX_KEYS_PER_PIECE) break;
+      metadata[key] = truncateMetadataValue(value);
+    }
+  };
+  fill(identity);
+  Object.assign(metadata, tags);
+  fill(attributes);
+
+  assertValidMetadata(metadata, "piece");
+  return metadata;
+}
+
+export function readFileMetadata(metadata: Record<string, string> | undefined): FileMetadata {
+  if (!metadata) return {};
+  const toNumber = (value: string | undefined) => {
+    const n = value === undefined ? NaN : Number(value);
+    return Number.isFinite(n) ? n : undefined;
+  };
+  return {
+    name: metadata[FILE_METADATA_KEYS.name],
+    mimeType: metadata[FILE_METADATA_KEYS.mimeType],
+    relativePath: metadata[FILE_METADATA_KEYS.relativePath],
+    originalSize: toNumber(metadata[FILE_METADATA_KEYS.originalSize]),
+    lastModified: toNumber(metadata[FILE_METADATA_KEYS.lastModified]),
+  };
+}
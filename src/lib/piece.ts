@@ -91,6 +91,11 @@ export function getPdpScannerUrl(dataSetId: bigint | string, chainId?: number):
   return `https://pdp.vxb.ai/${network}/dataset/${dataSetId}`;
 }
 
+/** A piece as served by the provider's `/piece/` endpoint. */
+export function providerPieceUrl(serviceURL: string, pieceCid: string): string {
+  return `${serviceURL}/piece/${pieceCid}`;
+}
+
 export function buildPieceUrl(
   params: OpenPieceParams & { address: string; chainId?: number },
 ): string {
@@ -103,5 +108,5 @@ export function buildPieceUrl(
     const network = resolveNetwork(chainId);
     return `https://${address}.${network}.filbeam.io/${pieceCid}`;
   }
-  return `${serviceURL}/piece/${pieceCid}`;
+  return providerPieceUrl(serviceURL, pieceCid);
 }
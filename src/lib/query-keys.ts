@@ -8,6 +8,26 @@ export const queryKeys = {
     chainId: number | undefined,
   ) => ["balances", address, config, chainId] as const,
 
+  /** Funding check of a prospective upload — under `balances`, so it refreshes with them */
+  uploadEstimate: (
+    address: `0x${string}` | undefined,
+    config: StorageConfig,
+    chainId: number | undefined,
+    storedBytes: number,
+    newDatasets: number,
+    withCDN: boolean,
+  ) =>
+    [
+      "balances",
+      address,
+      config,
+      chainId,
+      "upload-estimate",
+      storedBytes,
+      newDatasets,
+      withCDN,
+    ] as const,
+
   /** Mirrors the internal key used by @filoz/synapse-react useDataSets */
   datasets: (address: `0x${string}` | undefined, chainId: number | undefined) =>
     ["synapse-warm-storage-data-sets", address, chainId] as const,
@@ -15,9 +35,42 @@ export const queryKeys = {
   session: (address: `0x${string}` | undefined, chainId: number | undefined) =>
     ["sessionValidation", address, chainId] as const,
 
+  /** Approved PDP providers — the same for every account on a chain */
+  providers: (chainId: number | undefined) => ["approved-providers", chainId] as const,
+
+  uploadJobs: (address: `0x${string}` | undefined, chainId: number | undefined) =>
+    ["upload-jobs", address, chainId] as const,
+
+  /** PieceCID of a selected file, keyed like the uploader's file list */
+  localPieceCid: (name: string, size: number, lastModified: number, relativePath: string) =>
+    ["local-piece-cid", name, size, lastModified, relativePath] as const,
+
+  /** Size of a selected file once compressed — recomputed for each encoding */
+  compressedSize: (
+    name: string,
+    size: number,
+    lastModified: number,
+    relativePath: string,
+    encoding: string,
+  ) => ["compressed-size", name, size, lastModified, relativePath, encoding] as const,
+
+  /** Root CID from the header of a selected `.car` file */
+  carRoot: (name: string, size: number, lastModified: number) =>
+    ["car-root", name, size, lastModified] as const,
+
+  /** Sidecar index of a bundle piece — immutable, like the piece itself */
+  bundleIndex: (indexCid: string) => ["bundle-index", indexCid] as const,
+
   // ─── Mutations ────────────────────────────────────────────────────────────
   download: (pieceCid: string) => ["download", pieceCid] as const,
 
+  previewPiece: (pieceCid: string) => ["preview-piece", pieceCid] as const,
+
+  downloadBundleEntry: (bundleCid: string, offset: number) =>
+    ["download-bundle-entry", bundleCid, offset] as const,
+
+  downloadFolder: (path: string) => ["download-folder", path] as const,
+
   deletePiece: (
     address: `0x${string}` | undefined,
     chainId: number | undefined,
@@ -37,6 +90,12 @@ export const queryKeys = {
   pinUpload: (address: `0x${string}` | undefined, chainId: number | undefined) =>
     ["pin-upload", address, chainId] as const,
 
+  retryReplica: (address: `0x${string}` | undefined, chainId: number | undefined) =>
+    ["retry-replica", address, chainId] as const,
+
+  addReplicas: (address: `0x${string}` | undefined, chainId: number | undefined) =>
+    ["add-replicas", address, chainId] as const,
+
   loginSession: (address: `0x${string}` | undefined, chainId: number | undefined) =>
     ["loginSession", address, chainId] as const,
 
@@ -17,7 +17,8 @@ import { DECIMAL_PLACES, formatBalance, parseDaysLeft } from "@/lib/format";
 import type { BalancesData } from "@/hooks/use-balances";
 
 // 1 USDFC (in wei) — protocol fee for creating a CDN-enabled dataset
-const CDN_DATA_SET_CREATION_COST = toDecimal(10n ** 18n);
+const CDN_DATA_SET_CREATION_FEE = 10n ** 18n;
+const CDN_DATA_SET_CREATION_COST = toDecimal(CDN_DATA_SET_CREATION_FEE);
 
 const zeroDecimal = toDecimal(0);
 /**
@@ -200,3 +201,58 @@ export function computeConfigCostPreview(
     isAboveThreshold: coverageDays >= warningThresholdDays,
   };
 }
+
+/**
+ * Pure function: what an upload adds to the bill, shown before it starts.
+ * `datasetBytes` holds what each destination dataset receives — the minimum
+ * monthly price applies to each of them, not to their sum. Each new dataset
+ * also locks up the minimum monthly price, plus the FilBeam fee when CDN is
+ * enabled.
+ */
+export function computeUploadCostPreview(
+  datasetBytes: number[],
+  newDatasets: number,
+  withCDN: boolean,
+  pricing: Pick<UseServicePriceResult, "pricePerTiBPerMonthNoCDN" | "minimumPricePerMonth">,
+) {
+  const costs = datasetBytes.map((bytes) =>
+    computeMonthlyStorageCost(bytesToGiB(BigInt(bytes)), pricing),
+  );
+  const perMonth = costs.reduce((acc, c) => acc.add(c.perMonth), zeroDecimal);
+  const creationFees = bigIntToDecimal(pricing.minimumPricePerMonth, 18).mul(newDatasets);
+  const cdnFees = withCDN
+    ? bigIntToDecimal(CDN_DATA_SET_CREATION_FEE, 18).mul(newDatasets)
+    : zeroDecimal;
+
+  return {
+    monthlyRateStr: perMonth.toFixed(DECIMAL_PLACES.RATE),
+    isMinimumApplied: costs.some((c) => c.isMinimumApplied),
+    creationFeesStr: creationFees.toFixed(DECIMAL_PLACES.USDFC),
+    cdnFeesStr: cdnFees.toFixed(DECIMAL_PLACES.USDFC),
+  };
+}
+
+/**
+ * Pure function: bytes and monthly cost saved by compressing an upload.
+ * Pro-rata at the per-TiB price — the per-dataset minimum is not taken into account.
+ */
+export function computeCompressionSavings(
+  originalBytes: number,
+  storedBytes: number,
+  copies: number,
+  pricing?: Pick<UseServicePriceResult, "pricePerTiBPerMonthNoCDN">,
+) {
+  const savedBytes = Math.max(0, originalBytes - storedBytes);
+  const savedPercent = originalBytes > 0 ? (savedBytes / originalBytes) * 100 : 0;
+  const perMonthSaved = pricing
+    ? bytesToGiB(BigInt(savedBytes * copies))
+        .div(1024)
+        .mul(bigIntToDecimal(pricing.pricePerTiBPerMonthNoCDN, 18))
+    : undefined;
+
+  return {
+    savedBytes,
+    savedPercent,
+    perMonthSavedStr: perMonthSaved?.toFixed(DECIMAL_PLACES.RATE),
+  };
+}
@@ -0,0 +1,67 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface TarEntry {
+  /** Slash-separated path inside the archive */
+  path: string;
+  data: Blob;
+  lastModified?: number;
+}
+
+// ─── Writer ──────────────────────────────────────────────────────────────────
+
+const BLOCK = 512;
+const encoder = new TextEncoder();
+
+/** Writes `value` into `header` at `offset` as a NUL-terminated octal field of `length` bytes. */
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number) {
+  header.set(encoder.encode(value.toString(8).padStart(length - 1, "0")), offset);
+}
+
+/**
+ * Long paths go in the ustar prefix field, split at a slash so the name
+ * keeps at most 100 bytes and the prefix at most 155.
+ */
+function splitPath(path: string): { name: Uint8Array; prefix: Uint8Array } {
+  const bytes = encoder.encode(path);
+  if (bytes.length <= 100) return { name: bytes, prefix: new Uint8Array() };
+  for (let i = path.indexOf("/"); i !== -1; i = path.indexOf("/", i + 1)) {
+    const prefix = encoder.encode(path.slice(0, i));
+    const name = encoder.encode(path.slice(i + 1));
+    if (prefix.length <= 155 && name.length <= 100) return { name, prefix };
+  }
+  throw new Error(`Path is too long for a tar archive: ${path}`);
+}
+
+function tarHeader(entry: TarEntry): Uint8Array {
+  const header = new Uint8Array(BLOCK);
+  const { name, prefix } = splitPath(entry.path);
+  header.set(name, 0);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, entry.data.size);
+  writeOctal(header, 136, 12, Math.floor((entry.lastModified ?? Date.now()) / 1000));
+  header[156] = "0".charCodeAt(0);
+  header.set(encoder.encode("ustar\u000000"), 257);
+  header.set(prefix, 345);
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeOctal(header, 148, 7, checksum);
+  header[154] = 0;
+  return header;
+}
+
+/** A ustar archive of `entries`, so a folder downloads as one file with its structure. */
+export function createTar(entries: TarEntry[]): Blob {
+  const parts: BlobPart[] = [];
+  for (const entry of entries) {
+    parts.push(tarHeader(entry) as BlobPart, entry.data);
+    const padding = (BLOCK - (entry.data.size % BLOCK)) % BLOCK;
+    if (padding > 0) parts.push(new Uint8Array(padding));
+  }
+  // Two empty blocks end the archive
+  parts.push(new Uint8Array(BLOCK * 2));
+  return new Blob(parts, { type: "application/x-tar" });
+}
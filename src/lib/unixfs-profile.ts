@@ -0,0 +1,154 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type UnixFsChunker = "fixed" | "rabin";
+export type UnixFsLayout = "balanced" | "trickle";
+
+/**
+ * UnixFS import settings of a pin upload. The same content imported with the
+ * same profile always yields the same root CID.
+ */
+export interface UnixFsProfile {
+  cidVersion: 0 | 1;
+  /** Store file data as raw blocks instead of dag-pb leaves (CIDv1 only) */
+  rawLeaves: boolean;
+  chunker: UnixFsChunker;
+  /** Fixed: the size of every chunk. Rabin: the average chunk size */
+  chunkSize: number;
+  layout: UnixFsLayout;
+  /** Most links in one DAG node */
+  maxChildren: number;
+  /** Directories whose links exceed this many bytes become HAMT shards */
+  shardSplitThreshold: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+export const UNIXFS_METADATA_KEY = "unixfs";
+
+/** Settings pin uploads used before the profile was configurable. */
+export const DEFAULT_UNIXFS_PROFILE: UnixFsProfile = {
+  cidVersion: 1,
+  rawLeaves: true,
+  chunker: "fixed",
+  chunkSize: 256 * 1024,
+  layout: "balanced",
+  maxChildren: 174,
+  shardSplitThreshold: 256 * 1024,
+};
+
+/** Named starting points; every field can still be changed afterwards. */
+export const UNIXFS_PRESETS: { id: string; label: string; profile: UnixFsProfile }[] = [
+  { id: "default", label: "Default", profile: DEFAULT_UNIXFS_PROFILE },
+  {
+    // `ipfs add` without flags
+    id: "kubo-v0",
+    label: "Kubo (CIDv0)",
+    profile: { ...DEFAULT_UNIXFS_PROFILE, cidVersion: 0, rawLeaves: false },
+  },
+  {
+    // Fewer, larger blocks for big files
+    id: "large-chunks",
+    label: "1 MiB chunks",
+    profile: { ...DEFAULT_UNIXFS_PROFILE, chunkSize: 1024 * 1024, maxChildren: 1024 },
+  },
+];
+
+export const MIN_UNIXFS_CHUNK_SIZE = 1024;
+/** Larger blocks are not reliably fetched over Bitswap. */
+export const MAX_UNIXFS_CHUNK_SIZE = 1024 * 1024;
+
+const PROFILE_VERSION = "1";
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/** Problems that would make the import fail or the DAG unfetchable; empty when valid. */
+export function getUnixFsProfileErrors(profile: UnixFsProfile): string[] {
+  const errors: string[] = [];
+  const isCount = (n: number) => Number.isInteger(n) && n > 0;
+  if (
+    !isCount(profile.chunkSize) ||
+    profile.chunkSize < MIN_UNIXFS_CHUNK_SIZE ||
+    profile.chunkSize > MAX_UNIXFS_CHUNK_SIZE
+  ) {
+    errors.push(
+      `Chunk size must be between ${MIN_UNIXFS_CHUNK_SIZE} and ${MAX_UNIXFS_CHUNK_SIZE} bytes`,
+    );
+  }
+  if (!isCount(profile.maxChildren) || profile.maxChildren < 2) {
+    errors.push("Links per node must be at least 2");
+  }
+  if (!isCount(profile.shardSplitThreshold)) {
+    errors.push("HAMT sharding threshold must be a positive number of bytes");
+  }
+  if (profile.cidVersion === 0 && profile.rawLeaves) {
+    errors.push("Raw leaves need CIDv1");
+  }
+  return errors;
+}
+
+/** Preset the profile matches exactly, if any. */
+export function findUnixFsPreset(profile: UnixFsProfile): string | undefined {
+  return UNIXFS_PRESETS.find(({ profile: preset }) =>
+    (Object.keys(preset) as (keyof UnixFsProfile)[]).every((key) => preset[key] === profile[key]),
+  )?.id;
+}
+
+// ─── Metadata ────────────────────────────────────────────────────────────────
+
+export function encodeUnixFsProfile(profile: UnixFsProfile): string {
+  return new URLSearchParams({
+    v: PROFILE_VERSION,
+    cid: String(profile.cidVersion),
+    raw: profile.rawLeaves ? "1" : "0",
+    chunker: `${profile.chunker}-${profile.chunkSize}`,
+    layout: `${profile.layout}-${profile.maxChildren}`,
+    hamt: String(profile.shardSplitThreshold),
+  }).toString();
+}
+
+/** Import profile of a pin piece, or undefined when it was not recorded. */
+export function readUnixFsProfile(
+  metadata: Record<string, string> | undefined,
+): UnixFsProfile | undefined {
+  const value = metadata?.[UNIXFS_METADATA_KEY];
+  if (!value) return undefined;
+  const fields = new URLSearchParams(value);
+  const [chunker, chunkSize] = (fields.get("chunker") ?? "").split("-");
+  const [layout, maxChildren] = (fields.get("layout") ?? "").split("-");
+  const cidVersion = Number(fields.get("cid"));
+  if (
+    fields.get("v") !== PROFILE_VERSION ||
+    (cidVersion !== 0 && cidVersion !== 1) ||
+    (chunker !== "fixed" && chunker !== "rabin") ||
+    (layout !== "balanced" && layout !== "trickle")
+  ) {
+    throw new Error("Unsupported UnixFS profile metadata");
+  }
+  const profile: UnixFsProfile = {
+    cidVersion,
+    rawLeaves: fields.get("raw") === "1",
+    chunker,
+    chunkSize: Number(chunkSize),
+    layout,
+    maxChildren: Number(maxChildren),
+    shardSplitThreshold: Number(fields.get("hamt")),
+  };
+  if (getUnixFsProfileErrors(profile).length > 0) {
+    throw new Error("Unsupported UnixFS profile metadata");
+  }
+  return profile;
+}
+
+/** One-line summary, e.g. "CIDv1 · fixed 256 KiB · balanced (174)". */
+export function describeUnixFsProfile(profile: UnixFsProfile): string {
+  const kib = (bytes: number) => `${Math.round(bytes / 1024)} KiB`;
+  return [
+    `CIDv${profile.cidVersion}`,
+    profile.rawLeaves ? "raw leaves" : "dag-pb leaves",
+    profile.chunker === "rabin"
+      ? `rabin ~${kib(profile.chunkSize)}`
+      : `fixed ${kib(profile.chunkSize)}`,
+    `${profile.layout} (${profile.maxChildren})`,
+    `HAMT > ${kib(profile.shardSplitThreshold)}`,
+  ].join(" · ");
+}
@@ -0,0 +1,169 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type UploadReceiptMode = "standard" | "cdn" | "pin" | "encrypted";
+
+/**
+ * "partial" when some copies failed but the pieces are stored on at least one
+ * provider; "cancelled" uploads keep whatever was committed before Cancel
+ */
+export type UploadReceiptStatus = "complete" | "partial" | "failed" | "cancelled";
+
+export interface ReceiptProvider {
+  providerId: string;
+  providerName: string;
+  dataSetId: string;
+  txHash: string;
+}
+
+export interface ReceiptPiece {
+  pieceCid: string;
+  size: number;
+  providers: ReceiptProvider[];
+}
+
+export interface ReceiptFailure {
+  kind: string;
+  providerId: string;
+  providerName: string;
+  error: string;
+}
+
+/** What is kept of an upload once its results screen is closed. */
+export interface UploadReceipt {
+  id: string;
+  address: string;
+  chainId: number;
+  createdAt: number;
+  status: UploadReceiptStatus;
+  mode: UploadReceiptMode;
+  copies: number;
+  files: { name: string; size: number }[];
+  totalSize: number;
+  /** Bytes held by providers, summed over every copy */
+  storedSize: number;
+  /** USDFC per month for `storedSize`, at the price when the upload finished */
+  monthlyCost?: string;
+  ipfsRootCid?: string;
+  pieces: ReceiptPiece[];
+  failures: ReceiptFailure[];
+  /** Failed uploads: why the upload stopped */
+  error?: string;
+}
+
+// ─── Derivation ──────────────────────────────────────────────────────────────
+
+/** Copies only the persisted fields — results carry metadata and other UI state. */
+export function toReceiptPieces(
+  pieces: { pieceCid: string; size: number; providers: ReceiptProvider[] }[],
+): ReceiptPiece[] {
+  return pieces.map(({ pieceCid, size, providers }) => ({
+    pieceCid,
+    size,
+    providers: providers.map(({ providerId, providerName, dataSetId, txHash }) => ({
+      providerId,
+      providerName,
+      dataSetId,
+      txHash,
+    })),
+  }));
+}
+
+export function toReceiptFailures(failures: ReceiptFailure[]): ReceiptFailure[] {
+  return failures.map(({ kind, providerId, providerName, error }) => ({
+    kind,
+    providerId,
+    providerName,
+    error,
+  }));
+}
+
+export function receiptStatus(
+  pieces: ReceiptPiece[],
+  failures: ReceiptFailure[],
+): UploadReceiptStatus {
+  if (pieces.length === 0) return "failed";
+  return failures.length > 0 ? "partial" : "complete";
+}
+
+export function receiptStoredSize(pieces: ReceiptPiece[]): number {
+  return pieces.reduce((sum, p) => sum + p.size * p.providers.length, 0);
+}
+
+/** Bytes each dataset received, since every dataset is billed on its own. */
+export function receiptDatasetSizes(pieces: ReceiptPiece[]): number[] {
+  const sizes = new Map<string, number>();
+  for (const piece of pieces) {
+    for (const { dataSetId } of piece.providers) {
+      sizes.set(dataSetId, (sizes.get(dataSetId) ?? 0) + piece.size);
+    }
+  }
+  return [...sizes.values()];
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+export function receiptToJson(receipt: UploadReceipt): string {
+  return JSON.stringify(
+    { ...receipt, createdAt: new Date(receipt.createdAt).toISOString() },
+    null,
+    2,
+  );
+}
+
+const CSV_COLUMNS = [
+  "uploaded_at",
+  "status",
+  "mode",
+  "piece_cid",
+  "size",
+  "provider_id",
+  "provider_name",
+  "data_set_id",
+  "tx_hash",
+  "ipfs_root_cid",
+  "monthly_cost_usdfc",
+  "error",
+] as const;
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per stored copy and one per failure, so the sheet reconciles with the chain. */
+export function receiptToCsv(receipt: UploadReceipt): string {
+  const base = {
+    uploaded_at: new Date(receipt.createdAt).toISOString(),
+    status: receipt.status,
+    mode: receipt.mode,
+    ipfs_root_cid: receipt.ipfsRootCid,
+    monthly_cost_usdfc: receipt.monthlyCost,
+  };
+  const rows: Partial<Record<(typeof CSV_COLUMNS)[number], string | number>>[] = [
+    ...receipt.pieces.flatMap((piece) =>
+      piece.providers.map((provider) => ({
+        ...base,
+        piece_cid: piece.pieceCid,
+        size: piece.size,
+        provider_id: provider.providerId,
+        provider_name: provider.providerName,
+        data_set_id: provider.dataSetId,
+        tx_hash: provider.txHash,
+      })),
+    ),
+    ...receipt.failures.map((failure) => ({
+      ...base,
+      provider_id: failure.providerId,
+      provider_name: failure.providerName,
+      error: `${failure.kind}: ${failure.error}`,
+    })),
+  ];
+  if (receipt.error) rows.push({ ...base, error: receipt.error });
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => CSV_COLUMNS.map((c) => csvField(row[c])).join(",")),
+  ]
+    .join("\r\n")
+    .concat("\r\n");
+}
@@ -19,3 +19,15 @@ export function getErrorMessage(error: unknown): string {
   if (typeof error === "string") return error;
   return "An unknown error occurred";
 }
+
+/** Hands a file to the browser's download manager. */
+export function saveFile(file: File) {
+  const objectUrl = URL.createObjectURL(file);
+  const anchor = document.createElement("a");
+  anchor.href = objectUrl;
+  anchor.download = file.name;
+  document.body.append(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(objectUrl);
+}
@@ -18,3 +18,5 @@ export {
 } from "./storage-config";
 export type { StorageConfig } from "./storage-config";
 export { WalletModal, WalletProvider, useWalletStore } from "./wallet";
+export { MAX_UPLOAD_RECEIPTS, useUploadHistory, useUploadHistoryStore } from "./upload-history";
+export { useIpniStore } from "./ipni";
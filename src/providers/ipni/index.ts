@@ -0,0 +1 @@
+export { useIpniStore } from "./ipni-store";
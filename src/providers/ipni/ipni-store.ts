@@ -0,0 +1,153 @@
+import {
+  combineIpniStatus,
+  DEFAULT_IPNI_SETTINGS,
+  IPNI_HEARTBEAT_MS,
+  type IpniCheck,
+  type IpniExpectedProvider,
+  type IpniIndexerCheck,
+  type IpniSettings,
+} from "@/lib";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Indexers still pending are given up on with `error`; concluded ones keep their result. */
+function failPending(check: IpniCheck, error: string): IpniCheck {
+  const indexers = Object.fromEntries(
+    Object.entries(check.indexers).map(([url, indexer]) => [
+      url,
+      indexer.status === "pending" ? { ...indexer, status: "failed" as const, error } : indexer,
+    ]),
+  );
+  return {
+    ...check,
+    indexers,
+    status: combineIpniStatus(Object.values(indexers)),
+    updatedAt: Date.now(),
+  };
+}
+
+/** A live page refreshes the heartbeat well within this; older pending checks were abandoned. */
+function isAbandoned(check: IpniCheck, now: number): boolean {
+  return check.status === "pending" && now - (check.heartbeatAt ?? 0) > 3 * IPNI_HEARTBEAT_MS;
+}
+
+// ─── Store ───────────────────────────────────────────────────────────────────
+
+interface IpniState {
+  settings: IpniSettings;
+  /** Keyed by IPFS root CID — IPNI indexers are the same on every chain */
+  checks: Record<string, IpniCheck>;
+
+  updateSettings: (patch: Partial<IpniSettings>) => void;
+  resetSettings: () => void;
+  startCheck: (
+    rootCid: string,
+    indexerUrls: string[],
+    expectedProviders?: IpniExpectedProvider[],
+  ) => void;
+  updateIndexer: (rootCid: string, indexerUrl: string, check: IpniIndexerCheck) => void;
+  /** Marks a pending check as still running, so other tabs and reloads leave it alone */
+  heartbeat: (rootCid: string) => void;
+  /** Ends a check that stopped with an error, so it does not stay pending */
+  failCheck: (rootCid: string, error: string) => void;
+  /** Drops a check that was cancelled before it could conclude */
+  discardCheck: (rootCid: string) => void;
+}
+
+export const useIpniStore = create<IpniState>()(
+  persist(
+    (set) => ({
+      settings: DEFAULT_IPNI_SETTINGS,
+      checks: {},
+
+      updateSettings: (patch) => set((s) => ({ settings: { ...s.settings, ...patch } })),
+
+      resetSettings: () => set({ settings: DEFAULT_IPNI_SETTINGS }),
+
+      startCheck: (rootCid, indexerUrls, expectedProviders) => {
+        const now = Date.now();
+        const indexers = Object.fromEntries(
+          indexerUrls.map((url) => [url, { status: "pending", attempts: 0 } as IpniIndexerCheck]),
+        );
+        set((s) => ({
+          checks: {
+            ...s.checks,
+            [rootCid]: {
+              status: "pending",
+              startedAt: now,
+              updatedAt: now,
+              heartbeatAt: now,
+              indexers,
+              expectedProviders,
+            },
+          },
+        }));
+      },
+
+      updateIndexer: (rootCid, indexerUrl, check) =>
+        set((s) => {
+          const current = s.checks[rootCid];
+          if (!current) return s;
+          const indexers = { ...current.indexers, [indexerUrl]: check };
+          return {
+            checks: {
+              ...s.checks,
+              [rootCid]: {
+                ...current,
+                indexers,
+                status: combineIpniStatus(Object.values(indexers)),
+                updatedAt: Date.now(),
+              },
+            },
+          };
+        }),
+
+      heartbeat: (rootCid) =>
+        set((s) => {
+          const current = s.checks[rootCid];
+          if (current?.status !== "pending") return s;
+          return { checks: { ...s.checks, [rootCid]: { ...current, heartbeatAt: Date.now() } } };
+        }),
+
+      failCheck: (rootCid, error) =>
+        set((s) => {
+          const current = s.checks[rootCid];
+          if (!current) return s;
+          return { checks: { ...s.checks, [rootCid]: failPending(current, error) } };
+        }),
+
+      discardCheck: (rootCid) =>
+        set((s) => {
+          const { [rootCid]: _, ...rest } = s.checks;
+          return { checks: rest };
+        }),
+    }),
+    {
+      name: "ipni-store",
+      // Settings saved before a field existed get its default. A pending check whose
+      // heartbeat stopped was interrupted when its page closed and never concludes, so it
+      // is marked failed; one still running in another tab is kept
+      merge: (persisted, current) => {
+        const state = persisted as Partial<IpniState> | undefined;
+        const now = Date.now();
+        const checks = Object.fromEntries(
+          Object.entries(state?.checks ?? {}).map(([rootCid, check]) => [
+            rootCid,
+            isAbandoned(check, now)
+              ? failPending(check, "Interrupted when the page was closed")
+              : check,
+          ]),
+        );
+        return {
+          ...current,
+          ...state,
+          settings: { ...current.settings, ...state?.settings },
+          checks,
+        };
+      },
+      partialize: (state) => ({ settings: state.settings, checks: state.checks }),
+    },
+  ),
+);
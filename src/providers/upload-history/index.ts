@@ -0,0 +1,2 @@
+export { MAX_UPLOAD_RECEIPTS, useUploadHistoryStore } from "./upload-history-store";
+export { useUploadHistory } from "./use-upload-history";
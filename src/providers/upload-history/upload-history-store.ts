@@ -0,0 +1,73 @@
+import { scopeKey, type UploadReceipt } from "@/lib";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/** Oldest receipts are dropped past this many per wallet and chain */
+export const MAX_UPLOAD_RECEIPTS = 200;
+
+// ─── Store ───────────────────────────────────────────────────────────────────
+
+interface UploadHistoryState {
+  /** Newest first, keyed by address-chainId */
+  receipts: Record<string, UploadReceipt[]>;
+
+  add: (receipt: UploadReceipt) => void;
+  update: (
+    receipt: Pick<UploadReceipt, "id" | "address" | "chainId">,
+    patch: Partial<UploadReceipt>,
+  ) => void;
+  remove: (receipt: Pick<UploadReceipt, "id" | "address" | "chainId">) => void;
+  clear: (address: string, chainId: number) => void;
+}
+
+const receiptScope = (receipt: Pick<UploadReceipt, "address" | "chainId">) =>
+  scopeKey(receipt.address, receipt.chainId);
+
+export const useUploadHistoryStore = create<UploadHistoryState>()(
+  persist(
+    (set) => ({
+      receipts: {},
+
+      add: (receipt) => {
+        const key = receiptScope(receipt);
+        set((s) => ({
+          receipts: {
+            ...s.receipts,
+            [key]: [receipt, ...(s.receipts[key] ?? [])].slice(0, MAX_UPLOAD_RECEIPTS),
+          },
+        }));
+      },
+
+      update: (receipt, patch) => {
+        const key = receiptScope(receipt);
+        set((s) => ({
+          receipts: {
+            ...s.receipts,
+            [key]: (s.receipts[key] ?? []).map((r) =>
+              r.id === receipt.id ? { ...r, ...patch } : r,
+            ),
+          },
+        }));
+      },
+
+      remove: (receipt) => {
+        const key = receiptScope(receipt);
+        set((s) => ({
+          receipts: {
+            ...s.receipts,
+            [key]: (s.receipts[key] ?? []).filter((r) => r.id !== receipt.id),
+          },
+        }));
+      },
+
+      clear: (address, chainId) => {
+        const key = scopeKey(address, chainId);
+        set((s) => {
+          const { [key]: _, ...rest } = s.receipts;
+          return { receipts: rest };
+        });
+      },
+    }),
+    { name: "upload-history-store" },
+  ),
+);
@@ -0,0 +1,26 @@
+"use client";
+
+import { scopeKey, type UploadReceipt } from "@/lib";
+import { useConnection } from "wagmi";
+import { useUploadHistoryStore } from "./upload-history-store";
+
+const NO_RECEIPTS: UploadReceipt[] = [];
+
+/** Receipts of the connected wallet on the current chain, newest first. */
+export function useUploadHistory() {
+  const { address, chainId } = useConnection();
+  const receipts = useUploadHistoryStore((s) =>
+    address && chainId ? (s.receipts[scopeKey(address, chainId)] ?? NO_RECEIPTS) : NO_RECEIPTS,
+  );
+  const add = useUploadHistoryStore((s) => s.add);
+  const update = useUploadHistoryStore((s) => s.update);
+  const remove = useUploadHistoryStore((s) => s.remove);
+  const clear = useUploadHistoryStore((s) => s.clear);
+  return {
+    receipts,
+    add,
+    update,
+    remove,
+    clear: () => address && chainId && clear(address, chainId),
+  };
+}